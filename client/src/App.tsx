@@ -2,7 +2,11 @@ import { Switch, Route, Link } from "wouter";
 import Home from "@/pages/home";
 import NotFound from "@/pages/not-found";
 import Settings from "@/pages/settings";
-import { Settings as SettingsIcon } from "lucide-react";
+import Prompts from "@/pages/prompts";
+import Jobs from "@/pages/jobs";
+import Library from "@/pages/library";
+import SharedInstructions from "@/pages/shared-instructions";
+import { Settings as SettingsIcon, FileText, ListChecks, Library as LibraryIcon } from "lucide-react";
 import { TooltipProvider, Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
 
 function App() {
@@ -15,6 +19,30 @@ function App() {
           </Link>
           <div className="flex gap-2">
             <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Link href="/library" className="p-2 rounded-full hover:bg-slate-100 transition-colors">
+                    <LibraryIcon className="h-5 w-5" />
+                  </Link>
+                </TooltipTrigger>
+                <TooltipContent>Library</TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Link href="/jobs" className="p-2 rounded-full hover:bg-slate-100 transition-colors">
+                    <ListChecks className="h-5 w-5" />
+                  </Link>
+                </TooltipTrigger>
+                <TooltipContent>Background Jobs</TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Link href="/admin/prompts" className="p-2 rounded-full hover:bg-slate-100 transition-colors">
+                    <FileText className="h-5 w-5" />
+                  </Link>
+                </TooltipTrigger>
+                <TooltipContent>Prompt Templates</TooltipContent>
+              </Tooltip>
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Link href="/settings" className="p-2 rounded-full hover:bg-slate-100 transition-colors">
@@ -32,6 +60,10 @@ function App() {
         <Switch>
           <Route path="/" component={Home} />
           <Route path="/settings" component={Settings} />
+          <Route path="/admin/prompts" component={Prompts} />
+          <Route path="/jobs" component={Jobs} />
+          <Route path="/library" component={Library} />
+          <Route path="/shared/instructions/:token" component={SharedInstructions} />
           <Route component={NotFound} />
         </Switch>
       </main>
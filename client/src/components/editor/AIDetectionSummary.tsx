@@ -0,0 +1,39 @@
+import { Badge } from '@/components/ui/badge';
+import type { AIDetectionResult } from '@/types';
+
+interface AIDetectionSummaryProps {
+  result: AIDetectionResult;
+}
+
+// Overall verdict with one chip per paragraph; hover a chip for the detector's reason
+export function AIDetectionSummary({ result }: AIDetectionSummaryProps) {
+  const flagged = result.paragraphs.filter(paragraph => paragraph.isAI).length;
+
+  return (
+    <div className="mt-3 p-3 border rounded-lg bg-gray-50 dark:bg-gray-800 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">AI Detection:</span>
+        <Badge variant={result.isAI ? "destructive" : "secondary"} className="font-medium">
+          {Math.round(result.confidence * 100)}%
+        </Badge>
+      </div>
+      {result.summary && <p className="text-xs text-muted-foreground">{result.summary}</p>}
+      {result.paragraphs.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-muted-foreground mr-1">
+            {flagged} of {result.paragraphs.length} paragraphs flagged:
+          </span>
+          {result.paragraphs.map(paragraph => (
+            <span
+              key={paragraph.index}
+              title={paragraph.reason}
+              className={`text-xs px-2 py-0.5 rounded ${paragraph.isAI ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}
+            >
+              {paragraph.index + 1}: {Math.round(paragraph.confidence * 100)}%
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
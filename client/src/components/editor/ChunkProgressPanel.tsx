@@ -0,0 +1,75 @@
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { RotateCcw } from 'lucide-react';
+import type { ChunkProgress, ChunkStatus } from '@/types';
+
+interface ChunkProgressPanelProps {
+  progress: ChunkProgress[];
+  processing: boolean;
+  onRetryFailed: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_STYLES: Record<ChunkStatus, string> = {
+  pending: 'bg-slate-100 text-slate-500',
+  processing: 'bg-blue-100 text-blue-700 animate-pulse',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-amber-100 text-amber-700',
+};
+
+export function ChunkProgressPanel({
+  progress,
+  processing,
+  onRetryFailed,
+  onCancel
+}: ChunkProgressPanelProps) {
+  if (progress.length === 0) return null;
+
+  const done = progress.filter(chunk => chunk.status === 'done').length;
+  const failed = progress.filter(chunk => chunk.status === 'failed');
+  const cancelled = progress.filter(chunk => chunk.status === 'cancelled');
+
+  return (
+    <Card className="mt-4 bg-white rounded-lg shadow-sm border border-slate-200 p-3">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-sm font-medium">
+          {done} of {progress.length} chunks processed
+          {failed.length > 0 && <span className="text-red-600"> ({failed.length} failed)</span>}
+          {cancelled.length > 0 && <span className="text-amber-600"> ({cancelled.length} cancelled)</span>}
+        </span>
+        {processing && (
+          <Button
+            variant="ghost"
+            className="text-sm text-red-500 font-medium hover:text-red-600 hover:bg-red-50 p-1 h-auto"
+            onClick={onCancel}
+          >
+            Cancel
+          </Button>
+        )}
+        {failed.length + cancelled.length > 0 && !processing && (
+          <Button variant="outline" size="sm" onClick={onRetryFailed}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Retry unfinished chunks
+          </Button>
+        )}
+      </div>
+      <Progress
+        value={(done / progress.length) * 100}
+        className="w-full bg-slate-100 rounded-full h-2 overflow-hidden mb-2"
+      />
+      <div className="flex flex-wrap gap-1">
+        {progress.map(chunk => (
+          <span
+            key={chunk.index}
+            title={chunk.error || chunk.status}
+            className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLES[chunk.status]}`}
+          >
+            {chunk.index + 1}
+          </span>
+        ))}
+      </div>
+    </Card>
+  );
+}
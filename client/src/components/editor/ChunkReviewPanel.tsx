@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Check, X, Pencil, RefreshCw } from 'lucide-react';
+import type { ChunkProgress, ChunkReview, ChunkReviewDecision } from '@/types';
+
+interface ChunkReviewPanelProps {
+  progress: ChunkProgress[];
+  originals: string[];
+  reviews: Record<number, ChunkReview>;
+  processing: boolean;
+  defaultInstructions: string;
+  onReview: (index: number, decision: ChunkReviewDecision) => void;
+  onEdit: (index: number, text: string) => void;
+  onRegenerate: (index: number, instructions: string) => void;
+  onAcceptAll: () => void;
+}
+
+const DECISION_VARIANTS: Record<ChunkReviewDecision, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  accepted: 'secondary',
+  rejected: 'destructive',
+};
+
+interface ChunkReviewRowProps {
+  chunk: ChunkProgress;
+  original: string;
+  review: ChunkReview;
+  processing: boolean;
+  defaultInstructions: string;
+  onReview: (decision: ChunkReviewDecision) => void;
+  onEdit: (text: string) => void;
+  onRegenerate: (instructions: string) => void;
+}
+
+function ChunkReviewRow({
+  chunk,
+  original,
+  review,
+  processing,
+  defaultInstructions,
+  onReview,
+  onEdit,
+  onRegenerate
+}: ChunkReviewRowProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [instructions, setInstructions] = useState(defaultInstructions);
+  const rewrite = review.editedResult ?? chunk.result ?? '';
+
+  const startEditing = () => {
+    setDraft(rewrite);
+    setEditing(true);
+  };
+
+  const saveEdit = () => {
+    onEdit(draft);
+    setEditing(false);
+  };
+
+  return (
+    <div className="border rounded-md p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">
+          Chunk {chunk.index + 1}
+          {review.editedResult !== undefined && <span className="text-slate-500 font-normal"> (edited)</span>}
+        </span>
+        <Badge variant={DECISION_VARIANTS[review.decision]}>{review.decision}</Badge>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div>
+          <div className="text-xs text-slate-500 mb-1">Original</div>
+          <pre className="whitespace-pre-wrap text-sm bg-slate-50 border rounded-md p-2 max-h-64 overflow-auto">{original}</pre>
+        </div>
+        <div>
+          <div className="text-xs text-slate-500 mb-1">Rewrite</div>
+          {editing ? (
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="text-sm min-h-[8rem]"
+            />
+          ) : (
+            <pre className={`whitespace-pre-wrap text-sm border rounded-md p-2 max-h-64 overflow-auto ${review.decision === 'rejected' ? 'line-through text-slate-400' : ''}`}>{rewrite}</pre>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {editing ? (
+          <>
+            <Button size="sm" onClick={saveEdit}>Save</Button>
+            <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>Cancel</Button>
+          </>
+        ) : (
+          <>
+            <Button size="sm" variant="outline" onClick={() => onReview('accepted')} disabled={review.decision === 'accepted'}>
+              <Check className="h-4 w-4 mr-1" />
+              Accept
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => onReview('rejected')} disabled={review.decision === 'rejected'}>
+              <X className="h-4 w-4 mr-1" />
+              Reject
+            </Button>
+            <Button size="sm" variant="outline" onClick={startEditing}>
+              <Pencil className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+          </>
+        )}
+        <Input
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          placeholder="Instructions for regenerating this chunk"
+          className="h-8 text-sm flex-1 min-w-[12rem]"
+        />
+        <Button size="sm" variant="outline" onClick={() => onRegenerate(instructions)} disabled={processing || editing}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Regenerate
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Side-by-side review of each finished chunk against its original. The output is
+// assembled from the reviews: only accepted rewrites replace the original text.
+export function ChunkReviewPanel({
+  progress,
+  originals,
+  reviews,
+  processing,
+  defaultInstructions,
+  onReview,
+  onEdit,
+  onRegenerate,
+  onAcceptAll
+}: ChunkReviewPanelProps) {
+  const finished = progress.filter(chunk => chunk.status === 'done');
+  if (finished.length === 0) return null;
+
+  const reviewOf = (index: number): ChunkReview => reviews[index] ?? { decision: 'pending' };
+  const pending = finished.filter(chunk => reviewOf(chunk.index).decision === 'pending').length;
+
+  return (
+    <Card className="mt-4 bg-white rounded-lg shadow-sm border border-slate-200 p-3">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-sm font-medium">
+          Review chunks
+          {pending > 0 && <span className="text-slate-500"> ({pending} awaiting review, kept as the original in the output)</span>}
+        </span>
+        <Button variant="outline" size="sm" onClick={onAcceptAll} disabled={pending === 0}>
+          <Check className="h-4 w-4 mr-1" />
+          Accept all
+        </Button>
+      </div>
+      <div className="space-y-3 max-h-[600px] overflow-auto">
+        {finished.map(chunk => (
+          <ChunkReviewRow
+            key={chunk.index}
+            chunk={chunk}
+            original={originals[chunk.index] ?? ''}
+            review={reviewOf(chunk.index)}
+            processing={processing}
+            defaultInstructions={defaultInstructions}
+            onReview={(decision) => onReview(chunk.index, decision)}
+            onEdit={(text) => onEdit(chunk.index, text)}
+            onRegenerate={(instructions) => onRegenerate(chunk.index, instructions)}
+          />
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -27,10 +27,17 @@ import {
   SelectValue
 } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { flattenOutline, getSectionChunks, type OutlineSection } from '@shared/segmenter';
+import type { CacheMode } from '@/types';
 
 interface ChunkSelectorProps {
   chunks: string[];
-  onProcessSelected: (selectedIndices: number[], mode: 'rewrite' | 'add' | 'both', additionalChunks?: number) => void;
+  // Headings of the document and the sections each chunk holds, for picking whole sections
+  outline?: OutlineSection[];
+  chunkSections?: number[][];
+  onProcessSelected: (selectedIndices: number[], mode: 'rewrite' | 'add' | 'both', additionalChunks?: number, cacheMode?: CacheMode, rollingContext?: boolean) => void;
+  // Rewrites the selected chunks in a server-side job instead of in this tab
+  onRunInBackground?: (selectedIndices: number[], cacheMode: CacheMode, rollingContext: boolean) => void;
   onCancel: () => void;
 }
 
@@ -47,7 +54,10 @@ const getTextPreview = (text: string, length = 500): string => {
 
 export function ChunkSelector({ 
   chunks, 
+  outline = [],
+  chunkSections = [],
   onProcessSelected, 
+  onRunInBackground,
   onCancel 
 }: ChunkSelectorProps) {
   const [selectedChunks, setSelectedChunks] = useState<number[]>([]);
@@ -59,7 +69,32 @@ export function ChunkSelector({
   const [rangeStart, setRangeStart] = useState<number | null>(null);
   const [processingMode, setProcessingMode] = useState<'rewrite' | 'add' | 'both'>('rewrite');
   const [additionalChunks, setAdditionalChunks] = useState<number>(1);
+  const [cacheMode, setCacheMode] = useState<CacheMode>('off');
+  const [rollingContext, setRollingContext] = useState(false);
   
+  const sections = useMemo(() => flattenOutline(outline).map(({ section, depth }) => ({
+    section,
+    depth,
+    chunkIndices: getSectionChunks(section, chunkSections)
+  })), [outline, chunkSections]);
+
+  // Title of the first section each chunk holds, shown next to its number
+  const sectionTitles = useMemo(() => {
+    const titles = new Map(sections.map(({ section }) => [section.id, section.title]));
+    return chunkSections.map(ids => ids.length > 0 ? titles.get(ids[0]) : undefined);
+  }, [sections, chunkSections]);
+
+  const isSectionSelected = (chunkIndices: number[]) =>
+    chunkIndices.length > 0 && chunkIndices.every(index => selectedChunks.includes(index));
+
+  // Selects every chunk of a section and its subsections, or deselects them all
+  const toggleSection = (chunkIndices: number[]) => {
+    setSelectedChunks(current => isSectionSelected(chunkIndices)
+      ? current.filter(index => !chunkIndices.includes(index))
+      : Array.from(new Set([...current, ...chunkIndices]))
+    );
+  };
+
   // Filter chunks based on search term
   const filteredChunks = useMemo(() => {
     if (!chunks || chunks.length === 0) return [];
@@ -230,11 +265,11 @@ export function ChunkSelector({
   const handleProcessSelected = () => {
     if (processingMode === 'add' || (processingMode === 'both' && selectedChunks.length === 0)) {
       // For add mode, we don't need selected chunks
-      onProcessSelected(selectedChunks, processingMode, additionalChunks);
+      onProcessSelected(selectedChunks, processingMode, additionalChunks, cacheMode, rollingContext);
     } else if (selectedChunks.length === 0) {
       return; // Don't process if nothing is selected for rewrite mode
     } else {
-      onProcessSelected(selectedChunks, processingMode, additionalChunks);
+      onProcessSelected(selectedChunks, processingMode, additionalChunks, cacheMode, rollingContext);
     }
   };
 
@@ -334,12 +369,46 @@ export function ChunkSelector({
               </Select>
             </div>
           )}
+
+          <div className="mt-3 flex items-center space-x-3">
+            <label className="text-sm font-medium">Cache:</label>
+            <Select
+              value={cacheMode}
+              onValueChange={(value) => setCacheMode(value as CacheMode)}
+            >
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Don't cache</SelectItem>
+                <SelectItem value="reuse">Reuse cached results</SelectItem>
+                <SelectItem value="refresh">Regenerate and update cache</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {processingMode !== 'add' && (
+            <div className="mt-3 flex items-center space-x-2">
+              <Checkbox
+                id="rolling-context"
+                checked={rollingContext}
+                onCheckedChange={(checked) => setRollingContext(checked === true)}
+              />
+              <label htmlFor="rolling-context" className="text-sm font-medium cursor-pointer">
+                Carry context between chunks
+              </label>
+              <span className="text-xs text-gray-600 dark:text-gray-400">
+                Keeps terms, voice and numbering consistent; chunks run one at a time
+              </span>
+            </div>
+          )}
         </div>
       </CardHeader>
       <CardContent className="p-4">
         <Tabs defaultValue="chunks">
           <TabsList className="mb-4">
             <TabsTrigger value="chunks">Chunks</TabsTrigger>
+            {sections.length > 0 && <TabsTrigger value="sections">Sections</TabsTrigger>}
             <TabsTrigger value="stats">Document Stats</TabsTrigger>
           </TabsList>
           
@@ -378,6 +447,34 @@ export function ChunkSelector({
             </div>
           </TabsContent>
           
+          <TabsContent value="sections">
+            <ScrollArea className="h-[400px] rounded-md border p-2">
+              {sections.map(({ section, depth, chunkIndices }) => (
+                <div
+                  key={section.id}
+                  className="flex items-center py-1.5"
+                  style={{ paddingLeft: `${depth * 1.25}rem` }}
+                >
+                  <Checkbox
+                    id={`section-${section.id}`}
+                    checked={isSectionSelected(chunkIndices)}
+                    onCheckedChange={() => toggleSection(chunkIndices)}
+                    disabled={chunkIndices.length === 0}
+                    className="mr-3"
+                  />
+                  <label htmlFor={`section-${section.id}`} className="text-sm cursor-pointer flex-1 truncate">
+                    {section.title}
+                  </label>
+                  <span className="ml-2 text-xs text-slate-500 whitespace-nowrap">
+                    {chunkIndices.length === 1
+                      ? `chunk ${chunkIndices[0] + 1}`
+                      : `chunks ${chunkIndices[0] + 1}-${chunkIndices[chunkIndices.length - 1] + 1}`}
+                  </span>
+                </div>
+              ))}
+            </ScrollArea>
+          </TabsContent>
+
           <TabsContent value="chunks">
             <div className="flex items-center mb-4 gap-2">
               <div className="relative flex-grow">
@@ -475,6 +572,11 @@ export function ChunkSelector({
                           >
                             <FileText className="w-4 h-4 mr-2 text-slate-400" />
                             <span>Chunk {originalIndex + 1}</span>
+                            {sectionTitles[originalIndex] && (
+                              <span className="ml-2 text-xs text-slate-600 truncate max-w-[16rem]">
+                                {sectionTitles[originalIndex]}
+                              </span>
+                            )}
                             <span className="ml-2 text-xs text-slate-500">
                               ({getWordCount(chunk)} words)
                             </span>
@@ -583,6 +685,15 @@ export function ChunkSelector({
             >
               Cancel
             </Button>
+            {onRunInBackground && processingMode === 'rewrite' && (
+              <Button
+                variant="outline"
+                onClick={() => onRunInBackground(selectedChunks, cacheMode, rollingContext)}
+                disabled={selectedChunks.length === 0}
+              >
+                Run in Background
+              </Button>
+            )}
             <Button 
               onClick={handleProcessSelected}
               disabled={
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { LoaderIcon, X } from 'lucide-react';
+import type { ComparisonResult, LLMProvider } from '@/types';
+
+interface ComparePanelProps {
+  results: ComparisonResult[];
+  isComparing: boolean;
+  onCompare: (providers: LLMProvider[]) => void;
+  onUseOutput: (text: string) => void;
+  onClose: () => void;
+}
+
+const PROVIDERS: Array<{ id: LLMProvider; label: string }> = [
+  { id: 'anthropic', label: 'Anthropic' },
+  { id: 'openai', label: 'OpenAI' },
+  { id: 'deepseek', label: 'DeepSeek' },
+  { id: 'perplexity', label: 'Perplexity' },
+  { id: 'local', label: 'Local Model' },
+];
+
+const DEFAULT_PROVIDERS: LLMProvider[] = ['anthropic', 'openai', 'deepseek'];
+
+const providerLabel = (id: LLMProvider) => PROVIDERS.find(provider => provider.id === id)?.label ?? id;
+
+const splitParagraphs = (text: string): string[] => text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+// Selected paragraphs are keyed "provider:paragraphIndex"
+const paragraphKey = (provider: LLMProvider, index: number) => `${provider}:${index}`;
+
+export function ComparePanel({
+  results,
+  isComparing,
+  onCompare,
+  onUseOutput,
+  onClose
+}: ComparePanelProps) {
+  const [providers, setProviders] = useState<LLMProvider[]>(DEFAULT_PROVIDERS);
+  const [selectedParagraphs, setSelectedParagraphs] = useState<string[]>([]);
+
+  const toggleProvider = (id: LLMProvider, checked: boolean) => {
+    setProviders(prev => checked ? [...prev, id] : prev.filter(provider => provider !== id));
+  };
+
+  const toggleParagraph = (key: string) => {
+    setSelectedParagraphs(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const runComparison = () => {
+    setSelectedParagraphs([]);
+    onCompare(providers);
+  };
+
+  // Merges the picked paragraphs by their position in the outputs, so the
+  // merged text follows the document's order whichever column each came from
+  const mergeSelected = () => {
+    const picked = results.flatMap(column => splitParagraphs(column.result || '')
+      .map((text, index) => ({ text, index, key: paragraphKey(column.provider, index) })))
+      .filter(paragraph => selectedParagraphs.includes(paragraph.key));
+    picked.sort((a, b) => a.index - b.index);
+    onUseOutput(picked.map(paragraph => paragraph.text).join('\n\n'));
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Compare Providers</CardTitle>
+        <Button variant="ghost" size="icon" onClick={onClose} title="Close comparison">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          {PROVIDERS.map(provider => (
+            <div key={provider.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={`compare-${provider.id}`}
+                checked={providers.includes(provider.id)}
+                onCheckedChange={(checked) => toggleProvider(provider.id, checked === true)}
+              />
+              <Label htmlFor={`compare-${provider.id}`}>{provider.label}</Label>
+            </div>
+          ))}
+          <Button onClick={runComparison} disabled={isComparing || providers.length < 2}>
+            {isComparing ? (
+              <>
+                <LoaderIcon className="mr-2 h-4 w-4 animate-spin" />
+                Comparing...
+              </>
+            ) : (
+              'Run Comparison'
+            )}
+          </Button>
+          {selectedParagraphs.length > 0 && (
+            <Button variant="outline" onClick={mergeSelected}>
+              Use {selectedParagraphs.length} selected paragraph{selectedParagraphs.length === 1 ? '' : 's'}
+            </Button>
+          )}
+        </div>
+
+        {results.length > 0 && (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Click paragraphs in any column to merge them into one output.
+            </p>
+            <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${results.length}, minmax(0, 1fr))` }}>
+              {results.map(column => (
+                <div key={column.provider} className="border rounded-md flex flex-col">
+                  <div className="p-3 border-b space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{providerLabel(column.provider)}</span>
+                      {column.status === 'done' && (
+                        <Button size="sm" variant="outline" onClick={() => onUseOutput(column.result || '')}>
+                          Use this output
+                        </Button>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1 text-xs">
+                      <Badge variant="secondary">{(column.latencyMs / 1000).toFixed(1)}s</Badge>
+                      {column.wordCount !== undefined && <Badge variant="secondary">{column.wordCount} words</Badge>}
+                      {column.aiDetection && (
+                        <Badge variant={column.aiDetection.isAI ? 'destructive' : 'secondary'}>
+                          AI {Math.round(column.aiDetection.confidence * 100)}%
+                        </Badge>
+                      )}
+                      {column.cached && <Badge variant="outline">cached</Badge>}
+                    </div>
+                  </div>
+                  <ScrollArea className="h-96 p-3">
+                    {column.status === 'failed' ? (
+                      <p className="text-sm text-red-600">{column.error}</p>
+                    ) : (
+                      splitParagraphs(column.result || '').map((paragraph, index) => {
+                        const key = paragraphKey(column.provider, index);
+                        return (
+                          <p
+                            key={key}
+                            onClick={() => toggleParagraph(key)}
+                            className={`text-sm whitespace-pre-wrap mb-3 p-1 rounded cursor-pointer hover:bg-slate-50 ${selectedParagraphs.includes(key) ? 'bg-blue-50 ring-1 ring-blue-300' : ''}`}
+                          >
+                            {paragraph}
+                          </p>
+                        );
+                      })
+                    )}
+                  </ScrollArea>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
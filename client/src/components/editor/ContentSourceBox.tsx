@@ -16,10 +16,11 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Trash2, Search, Upload, FileText } from 'lucide-react';
-import { ContentSourceTab } from '@/types';
+import { ContentSourceTab, LibraryItem, LibraryItemKind } from '@/types';
 import { searchOnline } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 import { useDropzone } from 'react-dropzone';
+import { SourceLibraryPanel } from './SourceLibraryPanel';
 
 type SourceUsageMode = 'content' | 'style' | 'both' | 'none';
 
@@ -35,6 +36,8 @@ interface ContentSourceBoxProps {
   onMultipleFileUpload?: (files: File[]) => Promise<void>;
   contentSourceFileRef: React.RefObject<HTMLInputElement>;
   llmProvider: string;
+  // Attaches a style sample picked from the source library to the run
+  onAttachStyle?: (text: string) => void;
 }
 
 export function ContentSourceBox({
@@ -48,7 +51,8 @@ export function ContentSourceBox({
   onFileUpload,
   onMultipleFileUpload,
   contentSourceFileRef,
-  llmProvider
+  llmProvider,
+  onAttachStyle
 }: ContentSourceBoxProps) {
   const [activeTab, setActiveTab] = useState<ContentSourceTab['id']>('manual');
   const [searchDialogOpen, setSearchDialogOpen] = useState(false);
@@ -89,7 +93,25 @@ export function ContentSourceBox({
         break;
     }
   };
-  
+
+  // Library content goes into the box; a style sample is attached on its own
+  // unless the page has no separate style source, in which case the box is used
+  const handleAttachLibraryItem = (item: LibraryItem, as: LibraryItemKind) => {
+    if (as === 'style' && onAttachStyle) {
+      onAttachStyle(item.content);
+      onUseStyleSourceChange(true);
+    } else {
+      onTextChange(item.content);
+      setActiveTab('manual');
+      if (as === 'content') onUseContentSourceChange(true);
+      else onUseStyleSourceChange(true);
+    }
+    toast({
+      title: as === 'style' ? 'Style sample attached' : 'Content source attached',
+      description: `"${item.name}" will be used in the next run.`
+    });
+  };
+
   // Setup dropzone for file uploads
   const { getRootProps, getInputProps } = useDropzone({
     onDrop: async (acceptedFiles) => {
@@ -304,6 +326,15 @@ export function ContentSourceBox({
         >
           Search
         </Button>
+        <Button
+          variant={activeTab === 'library' ? 'default' : 'ghost'}
+          className={`flex-1 py-1 px-2 rounded-md text-sm font-medium ${
+            activeTab === 'library' ? 'bg-white shadow-sm' : 'text-slate-600'
+          }`}
+          onClick={() => setActiveTab('library')}
+        >
+          Library
+        </Button>
       </div>
       
       <CardContent className="px-4 pb-4 pt-0">
@@ -352,6 +383,10 @@ export function ContentSourceBox({
           </div>
         )}
         
+        {activeTab === 'library' && (
+          <SourceLibraryPanel currentText={text} onAttach={handleAttachLibraryItem} />
+        )}
+
         <div className="mt-3">
           <Label className="text-sm font-medium">Usage Mode</Label>
           <RadioGroup
@@ -2,7 +2,7 @@ import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
-import { Message } from '@/types';
+import { Message, DocumentMap } from '@/types';
 import { MathRenderer } from './MathRenderer';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -21,7 +21,7 @@ interface DialogueBoxProps {
   instructions: string;
   isProcessing: boolean;
   enableSynthesisMode?: boolean;
-  documentMap?: string[];
+  documentMap?: DocumentMap | null;
   onProcessGlobalQuestion?: (query: string) => Promise<void>;
   onSendToInput?: (content: string) => void;
   onClearMessages?: () => void;
@@ -38,7 +38,7 @@ export function DialogueBox({
   instructions,
   isProcessing,
   enableSynthesisMode = false,
-  documentMap = [],
+  documentMap = null,
   onProcessGlobalQuestion,
   onSendToInput,
   onClearMessages
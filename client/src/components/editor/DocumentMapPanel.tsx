@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Map as MapIcon } from 'lucide-react';
+import type { DocumentMap, DocumentMapSection, SynthesisProgress } from '@/types';
+
+interface DocumentMapPanelProps {
+  map: DocumentMap | null;
+  progress: SynthesisProgress | null;
+  processing: boolean;
+  onSynthesize: (abstractWords: number) => void;
+}
+
+// A page of prose runs to roughly 500 words
+const ABSTRACT_LENGTHS = [
+  { words: 250, label: 'Half a page' },
+  { words: 500, label: '1 page' },
+  { words: 1000, label: '2 pages' },
+  { words: 2500, label: '5 pages' },
+];
+
+const STAGE_LABELS: Record<SynthesisProgress['stage'], string> = {
+  chunks: 'Summarizing chunks',
+  sections: 'Summarizing sections',
+  abstract: 'Writing the abstract',
+};
+
+const chunkAnchor = (index: number) => `synthesis-chunk-${index}`;
+
+function ChunkRange({ start, end }: { start: number; end: number }) {
+  return (
+    <span className="text-xs text-slate-500 whitespace-nowrap">
+      <a href={`#${chunkAnchor(start)}`} className="hover:underline">chunk {start + 1}</a>
+      {end > start && (
+        <>–<a href={`#${chunkAnchor(end)}`} className="hover:underline">{end + 1}</a></>
+      )}
+    </span>
+  );
+}
+
+function MapSection({ section }: { section: DocumentMapSection }) {
+  return (
+    <details className="ml-3 border-l pl-3 py-1" open={section.level === 1}>
+      <summary className="cursor-pointer text-sm font-medium">
+        {section.title}{' '}
+        <ChunkRange start={section.chunkStart} end={section.chunkEnd} />
+      </summary>
+      <p className="mt-1 text-sm text-slate-700">{section.summary}</p>
+      {section.keyClaims.length > 0 && (
+        <ul className="mt-1 list-disc pl-5 text-xs text-slate-600 space-y-0.5">
+          {section.keyClaims.map((claim, i) => <li key={i}>{claim}</li>)}
+        </ul>
+      )}
+      {section.children.map(child => <MapSection key={child.id} section={child} />)}
+    </details>
+  );
+}
+
+// Whole-document synthesis: starts a run, follows its progress and shows the
+// resulting map with section summaries, key claims and links to chunk summaries
+export function DocumentMapPanel({ map, progress, processing, onSynthesize }: DocumentMapPanelProps) {
+  const [abstractWords, setAbstractWords] = useState(1000);
+
+  return (
+    <Card className="mt-4 bg-white rounded-lg shadow-sm border border-slate-200 p-3">
+      <div className="flex justify-between items-center gap-2 mb-2">
+        <span className="text-sm font-medium flex items-center">
+          <MapIcon className="h-4 w-4 mr-1" />
+          Document map
+        </span>
+        <div className="flex items-center gap-2">
+          <Select value={abstractWords.toString()} onValueChange={(value) => setAbstractWords(parseInt(value))}>
+            <SelectTrigger className="w-[130px] h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ABSTRACT_LENGTHS.map(({ words, label }) => (
+                <SelectItem key={words} value={words.toString()}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={() => onSynthesize(abstractWords)} disabled={processing}>
+            {map ? 'Synthesize again' : 'Synthesize document'}
+          </Button>
+        </div>
+      </div>
+
+      {progress && (
+        <div className="mb-2">
+          <div className="text-xs text-slate-500 mb-1">
+            {STAGE_LABELS[progress.stage]}
+            {progress.total > 1 && ` (${progress.completed} of ${progress.total})`}
+          </div>
+          <Progress value={progress.total ? (progress.completed / progress.total) * 100 : 0} className="h-2" />
+        </div>
+      )}
+
+      {map && (
+        <div className="space-y-3 max-h-[600px] overflow-auto">
+          <p className="text-xs text-slate-500">
+            The abstract is in the output. Chunks you process now are sent with this overview of the whole document.
+          </p>
+          {map.sections.length > 0
+            ? map.sections.map(section => <MapSection key={section.id} section={section} />)
+            : <p className="text-sm text-slate-500">No headings were found, so the map lists chunk summaries only.</p>}
+          <details className="border rounded-md p-2">
+            <summary className="cursor-pointer text-sm font-medium">Chunk summaries ({map.chunks.length})</summary>
+            <ol className="mt-2 space-y-2">
+              {map.chunks.map((chunk, index) => (
+                <li key={index} id={chunkAnchor(index)} className="text-sm">
+                  <span className="font-medium">Chunk {index + 1}:</span> {chunk.summary}
+                </li>
+              ))}
+            </ol>
+          </details>
+        </div>
+      )}
+    </Card>
+  );
+}
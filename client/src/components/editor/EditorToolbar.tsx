@@ -1,22 +1,16 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import { Trash2Icon, SaveIcon, LoaderIcon } from 'lucide-react';
-import { getSavedInstructions, saveInstructions, deleteSavedInstructions } from '@/lib/queryClient';
+import { SaveIcon, LoaderIcon, FolderCog } from 'lucide-react';
 import { VoiceInput } from '@/components/ui/voice-input';
-
-interface SavedInstruction {
-  id: number;
-  name: string;
-  instructions: string;
-  userId: number;
-  createdAt: Date;
-  updatedAt: Date;
-}
+import { ModelPicker } from '@/components/editor/ModelPicker';
+import { SavedInstructionsManager } from '@/components/editor/SavedInstructionsManager';
+import { estimateCost, getSavedInstructions, saveInstructions, recordInstructionsUse } from '@/lib/api';
+import type { CostEstimate, ModelSettings, ProcessTextRequest, SavedInstruction } from '@/types';
 
 interface EditorToolbarProps {
   onProcess: (instructions: string, homeworkMode: boolean) => void;
@@ -24,6 +18,8 @@ interface EditorToolbarProps {
   onVoiceInput?: () => void;
   onAudioTranscription?: () => void;
   isProcessing: boolean;
+  // Stops the running request; the output finished so far is kept
+  onCancel?: () => void;
   llmProvider: string;
   setLLMProvider: (provider: string) => void;
   onInstructionsSelect: (instructions: string) => void;
@@ -35,6 +31,19 @@ interface EditorToolbarProps {
   homeworkMode: boolean;
   setHomeworkMode: (enabled: boolean) => void;
   onClearAll?: () => void;
+  onCompare?: () => void;
+  // Request that Process would send, used for the pre-flight cost estimate
+  estimateRequest?: ProcessTextRequest;
+  modelSettings?: ModelSettings;
+  setModelSettings?: (settings: ModelSettings) => void;
+}
+
+function formatCostEstimate(estimate: CostEstimate): string {
+  const chunks = estimate.chunks > 1 ? ` in ${estimate.chunks} chunks` : '';
+  const tokens = `~${(estimate.inputTokens + estimate.outputTokens).toLocaleString()} tokens${chunks}`;
+  if (estimate.estimatedCost === null) return `${tokens} (pricing unknown for ${estimate.model})`;
+  const cost = estimate.estimatedCost < 0.01 ? '<$0.01' : `~$${estimate.estimatedCost.toFixed(2)}`;
+  return `${tokens}, ${cost}`;
 }
 
 export function EditorToolbar({
@@ -43,6 +52,7 @@ export function EditorToolbar({
   onVoiceInput,
   onAudioTranscription,
   isProcessing,
+  onCancel,
   llmProvider,
   setLLMProvider,
   onInstructionsSelect,
@@ -53,48 +63,94 @@ export function EditorToolbar({
   setRewriteInstructions,
   homeworkMode,
   setHomeworkMode,
-  onClearAll
+  onClearAll,
+  onCompare,
+  estimateRequest,
+  modelSettings,
+  setModelSettings
 }: EditorToolbarProps) {
   const [savedInstructions, setSavedInstructions] = useState<SavedInstruction[]>([]);
   const [instructionName, setInstructionName] = useState("");
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [managerOpen, setManagerOpen] = useState(false);
+  const [costEstimate, setCostEstimate] = useState<CostEstimate | null>(null);
   const { toast } = useToast();
   
-  // Load saved instructions
+  // Refresh the cost estimate shortly after the input or provider stops changing
   useEffect(() => {
-    const loadInstructions = async () => {
-      setIsLoading(true);
+    if (!estimateRequest?.inputText.trim()) {
+      setCostEstimate(null);
+      return;
+    }
+    
+    let cancelled = false;
+    const timer = setTimeout(async () => {
       try {
-        const instructions = await getSavedInstructions();
-        setSavedInstructions(instructions);
+        const estimate = await estimateCost(estimateRequest);
+        if (!cancelled) setCostEstimate(estimate);
       } catch (error) {
-        console.error('Failed to load saved instructions:', error);
-      } finally {
-        setIsLoading(false);
+        console.error('Failed to estimate cost:', error);
       }
+    }, 500);
+    
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
     };
+  }, [
+    estimateRequest?.inputText,
+    estimateRequest?.instructions,
+    estimateRequest?.contentSource,
+    estimateRequest?.styleSource,
+    estimateRequest?.useContentSource,
+    estimateRequest?.useStyleSource,
+    estimateRequest?.llmProvider,
+    estimateRequest?.model,
+    estimateRequest?.maxTokens
+  ]);
+  
+  // Load saved instructions
+  const loadInstructions = async () => {
+    setIsLoading(true);
+    try {
+      const instructions = await getSavedInstructions();
+      setSavedInstructions(instructions);
+    } catch (error) {
+      console.error('Failed to load saved instructions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
     loadInstructions();
   }, []);
 
   const handleSaveInstructions = async () => {
-    if (!instructionName.trim() || !currentInstructions.trim()) return;
+    const name = instructionName.trim();
+    if (!name || !currentInstructions.trim()) return;
+    
+    // A taken name either replaces the saved instructions or is saved as a numbered copy
+    const existing = savedInstructions.find(inst => inst.name.toLowerCase() === name.toLowerCase());
+    const onDuplicate = !existing
+      ? 'error'
+      : confirm(`"${existing.name}" already exists. Replace it? Cancel saves a copy under a numbered name.`) ? 'replace' : 'rename';
     
     setIsSaving(true);
     try {
-      await saveInstructions({
-        name: instructionName.trim(),
-        instructions: currentInstructions
+      const saved = await saveInstructions({
+        name,
+        instructions: currentInstructions,
+        onDuplicate
       });
       
-      // Reload instructions
-      const updatedInstructions = await getSavedInstructions();
-      setSavedInstructions(updatedInstructions);
+      await loadInstructions();
       setInstructionName("");
       
       toast({
         title: "Instructions saved",
-        description: `"${instructionName}" has been saved successfully.`
+        description: `"${saved.name}" has been saved successfully.`
       });
     } catch (error) {
       console.error('Failed to save instructions:', error);
@@ -108,25 +164,6 @@ export function EditorToolbar({
     }
   };
 
-  const handleDeleteInstructions = async (id: number, name: string) => {
-    try {
-      await deleteSavedInstructions(id);
-      setSavedInstructions(prev => prev.filter(inst => inst.id !== id));
-      
-      toast({
-        title: "Instructions deleted",
-        description: `"${name}" has been deleted.`
-      });
-    } catch (error) {
-      console.error('Failed to delete instructions:', error);
-      toast({
-        title: "Delete failed",
-        description: "Could not delete instructions. Please try again.",
-        variant: "destructive"
-      });
-    }
-  };
-
   const handleInstructionSelect = (value: string) => {
     if (value === 'none') {
       onInstructionsSelect('');
@@ -136,9 +173,15 @@ export function EditorToolbar({
     const instruction = savedInstructions.find(inst => inst.id.toString() === value);
     if (instruction) {
       onInstructionsSelect(instruction.instructions);
+      recordInstructionsUse(instruction.id)
+        .then(loadInstructions)
+        .catch(error => console.error('Failed to record instructions use:', error));
     }
   };
 
+  // Instructions without a folder first, then one group per folder
+  const folders = Array.from(new Set(savedInstructions.map(inst => inst.folder ?? ''))).sort();
+
   return (
     <div className="space-y-4 p-4 bg-slate-50 dark:bg-slate-900 rounded-lg border">
       {/* LLM Provider Selection */}
@@ -155,9 +198,15 @@ export function EditorToolbar({
               <SelectItem value="perplexity">ZHI 3</SelectItem>
               <SelectItem value="deepseek">ZHI 4</SelectItem>
               <SelectItem value="azure">Azure ZHI 1</SelectItem>
+              <SelectItem value="local">Local Model</SelectItem>
             </SelectContent>
           </Select>
         </div>
+        {modelSettings && setModelSettings && (
+          <div className="flex-1">
+            <ModelPicker llmProvider={llmProvider} settings={modelSettings} onChange={setModelSettings} />
+          </div>
+        )}
       </div>
 
       {/* Synthesis Mode Toggle */}
@@ -182,14 +231,28 @@ export function EditorToolbar({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="none">None</SelectItem>
-              {savedInstructions.map((instruction) => (
-                <SelectItem key={instruction.id} value={instruction.id.toString()}>
-                  {instruction.name}
-                </SelectItem>
+              {folders.map((folder) => (
+                <SelectGroup key={folder}>
+                  {folder && <SelectLabel>{folder}</SelectLabel>}
+                  {savedInstructions.filter(inst => (inst.folder ?? '') === folder).map((instruction) => (
+                    <SelectItem key={instruction.id} value={instruction.id.toString()}>
+                      {instruction.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
               ))}
             </SelectContent>
           </Select>
+          <Button variant="outline" size="sm" onClick={() => setManagerOpen(true)} className="h-10" title="Manage saved instructions">
+            <FolderCog className="h-4 w-4" />
+          </Button>
         </div>
+        <SavedInstructionsManager
+          open={managerOpen}
+          onOpenChange={setManagerOpen}
+          instructions={savedInstructions}
+          onChanged={loadInstructions}
+        />
 
         {/* Save new instructions */}
         <div className="flex gap-2">
@@ -217,23 +280,6 @@ export function EditorToolbar({
           </Button>
         </div>
 
-        {/* Delete instructions */}
-        {savedInstructions.length > 0 && (
-          <div className="flex flex-wrap gap-1">
-            {savedInstructions.map((instruction) => (
-              <Button
-                key={instruction.id}
-                variant="outline"
-                size="sm"
-                onClick={() => handleDeleteInstructions(instruction.id, instruction.name)}
-                className="text-xs"
-              >
-                <Trash2Icon className="h-3 w-3 mr-1" />
-                {instruction.name}
-              </Button>
-            ))}
-          </div>
-        )}
       </div>
 
       {/* Rewrite Instructions */}
@@ -283,6 +329,24 @@ export function EditorToolbar({
           )}
         </Button>
 
+        {isProcessing && onCancel && (
+          <Button onClick={onCancel} variant="outline" className="text-red-500 hover:text-red-600">
+            Cancel
+          </Button>
+        )}
+        
+        {costEstimate && !isProcessing && (
+          <span className="self-center text-xs text-muted-foreground" title={`Estimated with ${costEstimate.model}`}>
+            Est. {formatCostEstimate(costEstimate)}
+          </span>
+        )}
+
+        {onCompare && (
+          <Button onClick={onCompare} variant="outline" disabled={isProcessing}>
+            Compare Providers
+          </Button>
+        )}
+
         {onFindOnline && (
           <Button onClick={onFindOnline} variant="outline">
             Find Online
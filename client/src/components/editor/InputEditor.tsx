@@ -8,6 +8,8 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { MathRenderer } from './MathRenderer';
+import { AIDetectionSummary } from './AIDetectionSummary';
+import type { AIDetectionResult } from '@/types';
 import { VoiceInput } from '@/components/ui/voice-input';
 
 interface InputEditorProps {
@@ -20,7 +22,7 @@ interface InputEditorProps {
   onDetectAI: (text: string) => Promise<void>;
   isDetecting: boolean;
   inputFileRef: React.RefObject<HTMLInputElement>;
-  aiResult?: { isAI: boolean; confidence: number; details: string } | null;
+  aiResult?: AIDetectionResult | null;
 }
 
 export function InputEditor({
@@ -264,14 +266,7 @@ export function InputEditor({
         )}
         
         {/* AI Detection Results */}
-        {aiResult && (
-          <div className="mt-3 flex items-center justify-between p-3 border rounded-lg bg-gray-50 dark:bg-gray-800">
-            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">AI Detection:</span>
-            <Badge variant={aiResult.isAI ? "destructive" : "secondary"} className="font-medium">
-              {Math.round(aiResult.confidence * 100)}%
-            </Badge>
-          </div>
-        )}
+        {aiResult && <AIDetectionSummary result={aiResult} />}
       </CardContent>
     </Card>
   );
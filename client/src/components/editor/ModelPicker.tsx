@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getModelCatalog } from '@/lib/api';
+import type { ModelCatalog, ModelSettings } from '@/types';
+
+interface ModelPickerProps {
+  llmProvider: string;
+  settings: ModelSettings;
+  onChange: (settings: ModelSettings) => void;
+}
+
+// Empty inputs mean "use the provider's default"
+const parseOptionalNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return value.trim() && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export function ModelPicker({ llmProvider, settings, onChange }: ModelPickerProps) {
+  const [catalog, setCatalog] = useState<ModelCatalog>({});
+
+  useEffect(() => {
+    getModelCatalog()
+      .then(setCatalog)
+      .catch(error => console.error('Failed to load model catalog:', error));
+  }, []);
+
+  const models = catalog[llmProvider] || [];
+  const selectedModel = models.find(model => model.id === settings.model) || models[0];
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <Label htmlFor="llm-model">Model</Label>
+        <Select
+          value={settings.model || 'default'}
+          onValueChange={(value) => onChange({ ...settings, model: value === 'default' ? undefined : value })}
+        >
+          <SelectTrigger id="llm-model">
+            <SelectValue placeholder="Default model" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default">Default{models[0] ? ` (${models[0].name})` : ''}</SelectItem>
+            {models.map(model => (
+              <SelectItem key={model.id} value={model.id}>{model.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <Label htmlFor="llm-temperature" className="text-xs">Temperature</Label>
+          <Input
+            id="llm-temperature"
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            placeholder="Default"
+            value={settings.temperature ?? ''}
+            onChange={(e) => onChange({ ...settings, temperature: parseOptionalNumber(e.target.value) })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="llm-top-p" className="text-xs">Top P</Label>
+          <Input
+            id="llm-top-p"
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            placeholder="Default"
+            value={settings.topP ?? ''}
+            onChange={(e) => onChange({ ...settings, topP: parseOptionalNumber(e.target.value) })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="llm-max-tokens" className="text-xs">Max output tokens</Label>
+          <Input
+            id="llm-max-tokens"
+            type="number"
+            min={1}
+            max={selectedModel?.maxOutputTokens}
+            step={100}
+            placeholder="Default"
+            value={settings.maxTokens ?? ''}
+            onChange={(e) => {
+              const maxTokens = parseOptionalNumber(e.target.value);
+              onChange({ ...settings, maxTokens: maxTokens === undefined ? undefined : Math.round(maxTokens) });
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -23,6 +23,8 @@ import { useState, useEffect, useRef } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { MathRenderer } from './MathRenderer';
+import { AIDetectionSummary } from './AIDetectionSummary';
+import type { AIDetectionResult } from '@/types';
 import { MathGraphRenderer, GraphProcessingIndicator } from '../MathGraphRenderer';
 
 interface OutputEditorProps {
@@ -42,7 +44,7 @@ interface OutputEditorProps {
   isSendingEmail: boolean;
   isRewriting?: boolean;
   inputText: string;
-  outputAIResult?: { isAI: boolean; confidence: number; details: string } | null;
+  outputAIResult?: AIDetectionResult | null;
 }
 
 export function OutputEditor({
@@ -318,14 +320,7 @@ export function OutputEditor({
         )}
         
         {/* AI Detection Results */}
-        {outputAIResult && (
-          <div className="mt-3 flex items-center justify-between p-3 border rounded-lg bg-gray-50 dark:bg-gray-800">
-            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">AI Detection:</span>
-            <Badge variant={outputAIResult.isAI ? "destructive" : "secondary"} className="font-medium">
-              {Math.round(outputAIResult.confidence * 100)}%
-            </Badge>
-          </div>
-        )}
+        {outputAIResult && <AIDetectionSummary result={outputAIResult} />}
       </CardContent>
       
       {/* Email Dialog */}
@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { History, RotateCcw } from 'lucide-react';
+import { getDocumentRevisions, diffDocumentRevisions } from '@/lib/api';
+import type { DocumentRevision, RevisionDiffPart } from '@/types';
+
+interface RevisionTimelineProps {
+  documentId: number;
+  // The newest revision; history is reloaded whenever it changes
+  revisionId?: number;
+  onRestore: (revisionId: number) => void;
+}
+
+const PART_CLASSES: Record<RevisionDiffPart['type'], string> = {
+  equal: '',
+  added: 'bg-green-100 text-green-900',
+  removed: 'bg-red-100 text-red-900 line-through',
+};
+
+// Timeline over every output of the current document: the slider picks a
+// revision, which is shown as word-level changes against an earlier one
+export function RevisionTimeline({ documentId, revisionId, onRestore }: RevisionTimelineProps) {
+  const [revisions, setRevisions] = useState<DocumentRevision[]>([]);
+  const [position, setPosition] = useState(0);
+  // Revision the selected one is compared with; previous means the one before it
+  const [compareWith, setCompareWith] = useState<'previous' | number>('previous');
+  const [changes, setChanges] = useState<RevisionDiffPart[] | null>(null);
+
+  useEffect(() => {
+    getDocumentRevisions(documentId)
+      .then((loaded) => {
+        setRevisions(loaded);
+        setPosition(Math.max(loaded.length - 1, 0));
+        setCompareWith('previous');
+      })
+      .catch((error) => console.error('Failed to load revisions:', error));
+  }, [documentId, revisionId]);
+
+  const selected = revisions[position];
+  const baseline = compareWith === 'previous'
+    ? revisions[position - 1]
+    : revisions.find(revision => revision.id === compareWith);
+
+  useEffect(() => {
+    if (!selected || !baseline || baseline.id === selected.id) {
+      setChanges(null);
+      return;
+    }
+    diffDocumentRevisions(documentId, baseline.id, selected.id)
+      .then(diff => setChanges(diff.changes))
+      .catch((error) => console.error('Failed to diff revisions:', error));
+  }, [documentId, selected?.id, baseline?.id]);
+
+  if (!selected) return null;
+  const isCurrent = position === revisions.length - 1;
+  const numberOf = (revision: DocumentRevision) => revisions.indexOf(revision) + 1;
+  const restoredFrom = revisions.find(revision => revision.id === selected.restoredFrom);
+
+  return (
+    <Card className="mt-4 bg-white rounded-lg shadow-sm border border-slate-200 p-3">
+      <div className="flex justify-between items-center gap-2 mb-3">
+        <span className="text-sm font-medium flex items-center">
+          <History className="h-4 w-4 mr-1" />
+          Revision {position + 1} of {revisions.length}
+          {isCurrent && <span className="text-slate-500 font-normal ml-1">(current)</span>}
+        </span>
+        <div className="flex items-center gap-2">
+          <Select
+            value={compareWith.toString()}
+            onValueChange={(value) => setCompareWith(value === 'previous' ? 'previous' : parseInt(value))}
+          >
+            <SelectTrigger className="w-[170px] h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="previous">Changes from previous</SelectItem>
+              {revisions.map(revision => (
+                <SelectItem key={revision.id} value={revision.id.toString()}>
+                  Compare with {numberOf(revision)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={() => onRestore(selected.id)} disabled={isCurrent}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Restore
+          </Button>
+        </div>
+      </div>
+
+      {revisions.length > 1 && (
+        <Slider
+          value={[position]}
+          min={0}
+          max={revisions.length - 1}
+          step={1}
+          onValueChange={([value]) => setPosition(value)}
+          className="mb-3"
+        />
+      )}
+
+      <div className="text-xs text-slate-500 mb-2">
+        {new Date(selected.createdAt).toLocaleString()} · {selected.llmProvider}
+        {restoredFrom && ` · restored revision ${numberOf(restoredFrom)}`}
+        {!restoredFrom && selected.instructions && ` · ${selected.instructions}`}
+      </div>
+
+      <div className="whitespace-pre-wrap text-sm bg-slate-50 border rounded-md p-2 max-h-[400px] overflow-auto">
+        {changes
+          ? changes.map((part, i) => <span key={i} className={PART_CLASSES[part.type]}>{part.text}</span>)
+          : selected.outputText}
+      </div>
+    </Card>
+  );
+}
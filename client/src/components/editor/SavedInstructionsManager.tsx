@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Pencil, Trash2Icon, Link2, Link2Off } from 'lucide-react';
+import {
+  updateSavedInstructions,
+  deleteSavedInstructions,
+  shareSavedInstructions,
+  unshareSavedInstructions,
+  sharedInstructionsUrl
+} from '@/lib/api';
+import type { SavedInstruction } from '@/types';
+
+interface SavedInstructionsManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  instructions: SavedInstruction[];
+  // Called after any change so the list can be reloaded
+  onChanged: () => void;
+}
+
+const ALL_FOLDERS = 'all';
+const NO_FOLDER = 'none';
+
+const parseTags = (text: string) => text.split(',').map(tag => tag.trim()).filter(Boolean);
+
+// The server answers a taken name with 409
+const isDuplicateNameError = (error: any) => typeof error?.message === 'string' && error.message.startsWith('409');
+
+function EditForm({ instruction, onSave, onCancel }: {
+  instruction: SavedInstruction;
+  onSave: (changes: { name: string; instructions: string; folder: string | null; tags: string[] }) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(instruction.name);
+  const [folder, setFolder] = useState(instruction.folder ?? '');
+  const [tags, setTags] = useState(instruction.tags.join(', '));
+  const [text, setText] = useState(instruction.instructions);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className="h-8 text-sm" />
+        <Input value={folder} onChange={(e) => setFolder(e.target.value)} placeholder="Folder" className="h-8 text-sm" />
+      </div>
+      <Input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tags, separated by commas" className="h-8 text-sm" />
+      <Textarea value={text} onChange={(e) => setText(e.target.value)} className="text-sm min-h-[6rem]" />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => onSave({ name: name.trim(), instructions: text, folder: folder.trim() || null, tags: parseTags(tags) })}
+          disabled={!name.trim() || !text.trim()}
+        >
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+}
+
+// Browse, edit, share and delete saved instructions, filtered by folder, tag or text
+export function SavedInstructionsManager({ open, onOpenChange, instructions, onChanged }: SavedInstructionsManagerProps) {
+  const [search, setSearch] = useState('');
+  const [folder, setFolder] = useState(ALL_FOLDERS);
+  const [tag, setTag] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const folders = Array.from(new Set(instructions.map(instruction => instruction.folder).filter((name): name is string => !!name))).sort();
+  const tags = Array.from(new Set(instructions.flatMap(instruction => instruction.tags))).sort();
+  const needle = search.trim().toLowerCase();
+  const visible = instructions.filter(instruction =>
+    (folder === ALL_FOLDERS || (folder === NO_FOLDER ? !instruction.folder : instruction.folder === folder)) &&
+    (!tag || instruction.tags.includes(tag)) &&
+    (!needle || instruction.name.toLowerCase().includes(needle) || instruction.instructions.toLowerCase().includes(needle))
+  );
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      onChanged();
+      return true;
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: failure,
+        description: isDuplicateNameError(error) ? 'Another saved instruction already has this name.' : error?.message,
+        variant: 'destructive'
+      });
+      return false;
+    }
+  };
+
+  const handleSave = async (id: number, changes: Parameters<typeof updateSavedInstructions>[1]) => {
+    if (await run(() => updateSavedInstructions(id, changes), 'Could not update instructions')) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = (instruction: SavedInstruction) => {
+    if (!confirm(`Delete "${instruction.name}"?`)) return;
+    run(() => deleteSavedInstructions(instruction.id), 'Could not delete instructions');
+  };
+
+  const handleShare = (instruction: SavedInstruction) => run(async () => {
+    const shared = await shareSavedInstructions(instruction.id);
+    await navigator.clipboard.writeText(sharedInstructionsUrl(shared.shareToken!));
+    toast({ title: 'Link copied', description: `Anyone with the link can view and copy "${instruction.name}".` });
+  }, 'Could not share instructions');
+
+  const handleUnshare = (instruction: SavedInstruction) =>
+    run(() => unshareSavedInstructions(instruction.id), 'Could not stop sharing');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Saved Instructions</DialogTitle>
+          <DialogDescription>Most recently used first.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search names and instructions" className="flex-1" />
+          <Select value={folder} onValueChange={setFolder}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_FOLDERS}>All folders</SelectItem>
+              <SelectItem value={NO_FOLDER}>No folder</SelectItem>
+              {folders.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map(name => (
+              <Badge
+                key={name}
+                variant={tag === name ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => setTag(tag === name ? null : name)}
+              >
+                {name}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 max-h-[400px] overflow-auto">
+          {visible.length === 0 && <p className="text-sm text-slate-500">No saved instructions match.</p>}
+          {visible.map(instruction => (
+            <div key={instruction.id} className="border rounded-md p-2">
+              {editingId === instruction.id ? (
+                <EditForm
+                  instruction={instruction}
+                  onSave={(changes) => handleSave(instruction.id, changes)}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium">
+                      {instruction.folder && <span className="text-slate-500 font-normal">{instruction.folder} / </span>}
+                      {instruction.name}
+                    </div>
+                    <p className="text-xs text-slate-600 truncate">{instruction.instructions}</p>
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                      {instruction.tags.map(name => <Badge key={name} variant="secondary" className="text-xs">{name}</Badge>)}
+                      <span className="text-xs text-slate-500">
+                        used {instruction.useCount} {instruction.useCount === 1 ? 'time' : 'times'}
+                        {instruction.lastUsedAt && `, last ${new Date(instruction.lastUsedAt).toLocaleDateString()}`}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(instruction.id)} title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleShare(instruction)} title={instruction.shareToken ? 'Copy share link' : 'Share by link'}>
+                      <Link2 className={`h-4 w-4 ${instruction.shareToken ? 'text-blue-600' : ''}`} />
+                    </Button>
+                    {instruction.shareToken && (
+                      <Button size="sm" variant="ghost" onClick={() => handleUnshare(instruction)} title="Stop sharing">
+                        <Link2Off className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(instruction)} title="Delete">
+                      <Trash2Icon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ChevronDown, ChevronRight, Trash2, Upload, Tags } from 'lucide-react';
+import {
+  getLibraryItems,
+  createLibraryItem,
+  updateLibraryItem,
+  deleteLibraryItem,
+  extractTextFromFile
+} from '@/lib/api';
+import type { LibraryItem, LibraryItemKind } from '@/types';
+
+interface SourceLibraryPanelProps {
+  // Text in the content source box, which can be saved to the library
+  currentText: string;
+  onAttach: (item: LibraryItem, as: LibraryItemKind) => void;
+}
+
+const ALL_KINDS = 'all';
+
+const parseTags = (text: string) => text.split(',').map(tag => tag.trim()).filter(Boolean);
+
+function LibraryItemRow({ item, onAttach, onChanged }: {
+  item: LibraryItem;
+  onAttach: (as: LibraryItemKind) => void;
+  onChanged: () => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [editingTags, setEditingTags] = useState(false);
+  const [tags, setTags] = useState(item.tags.join(', '));
+  const { toast } = useToast();
+  const builtin = item.builtinKey !== null;
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      onChanged();
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      toast({ title: failure, description: error?.message, variant: 'destructive' });
+    }
+  };
+
+  const saveTags = () => run(async () => {
+    await updateLibraryItem(item.id, { tags: parseTags(tags) });
+    setEditingTags(false);
+  }, 'Could not update tags');
+
+  const handleDelete = () => {
+    if (!confirm(`Delete "${item.name}" from the library?`)) return;
+    run(() => deleteLibraryItem(item.id), 'Could not delete library item');
+  };
+
+  return (
+    <div className="border rounded-md">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full text-left p-2 hover:bg-slate-50 flex items-center justify-between gap-2"
+      >
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{item.name}</p>
+          <div className="flex flex-wrap gap-1 mt-0.5">
+            <Badge variant="outline" className="text-xs">{item.kind}</Badge>
+            {builtin && <Badge variant="secondary" className="text-xs">built-in</Badge>}
+            {item.tags.map(tag => <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>)}
+          </div>
+        </div>
+        {expanded ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+      </button>
+      {expanded && (
+        <div className="p-2 border-t bg-slate-50 space-y-2">
+          <p className="text-xs text-slate-700 whitespace-pre-wrap max-h-40 overflow-y-auto">{item.content}</p>
+          <div className="text-xs text-slate-500">
+            {item.content.trim().split(/\s+/).length} words{item.source && ` · from ${item.source}`}
+          </div>
+          {editingTags && (
+            <div className="flex gap-2">
+              <Input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tags, separated by commas" className="h-8 text-sm" />
+              <Button size="sm" onClick={saveTags}>Save</Button>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" onClick={() => onAttach('content')}>Use as content</Button>
+            <Button size="sm" variant="outline" onClick={() => onAttach('style')}>Use as style</Button>
+            {!builtin && (
+              <>
+                <Button size="sm" variant="ghost" onClick={() => setEditingTags(!editingTags)} title="Edit tags">
+                  <Tags className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={handleDelete} title="Delete">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Named content sources and style samples kept on the server: save the current
+// text or an uploaded file, filter by kind, tag or text, preview and attach
+export function SourceLibraryPanel({ currentText, onAttach }: SourceLibraryPanelProps) {
+  const [items, setItems] = useState<LibraryItem[]>([]);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<LibraryItemKind>('content');
+  const [tags, setTags] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [search, setSearch] = useState('');
+  const [kindFilter, setKindFilter] = useState<LibraryItemKind | typeof ALL_KINDS>(ALL_KINDS);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const loadItems = () => getLibraryItems()
+    .then(setItems)
+    .catch((error) => console.error('Failed to load the source library:', error));
+
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  const save = async (content: string, itemName: string, source?: string) => {
+    setIsSaving(true);
+    try {
+      const item = await createLibraryItem({ name: itemName, kind, content, source, tags: parseTags(tags) });
+      setName('');
+      await loadItems();
+      toast({ title: 'Saved to library', description: `"${item.name}" was added as a ${item.kind} source.` });
+    } catch (error: any) {
+      console.error('Failed to save to the library:', error);
+      toast({ title: 'Save failed', description: error?.message || 'Could not save to the library.', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const content = await extractTextFromFile(file);
+      await save(content, name.trim() || file.name.replace(/\.[^.]+$/, ''), file.name);
+    } catch (error: any) {
+      console.error('Failed to upload to the library:', error);
+      toast({ title: 'Upload failed', description: error?.message || 'Could not read the file.', variant: 'destructive' });
+    }
+  };
+
+  const allTags = Array.from(new Set(items.flatMap(item => item.tags))).sort();
+  const needle = search.trim().toLowerCase();
+  const visible = items.filter(item =>
+    (kindFilter === ALL_KINDS || item.kind === kindFilter) &&
+    (!tagFilter || item.tags.includes(tagFilter)) &&
+    (!needle || item.name.toLowerCase().includes(needle) || item.content.toLowerCase().includes(needle))
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2 border rounded-md p-2">
+        <div className="flex gap-2">
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className="h-8 text-sm" />
+          <Select value={kind} onValueChange={(value) => setKind(value as LibraryItemKind)}>
+            <SelectTrigger className="w-[110px] h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="content">Content</SelectItem>
+              <SelectItem value="style">Style</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tags, separated by commas" className="h-8 text-sm" />
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => save(currentText, name.trim())} disabled={isSaving || !name.trim() || !currentText.trim()}>
+            Save current text
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isSaving}>
+            <Upload className="h-4 w-4 mr-1" />
+            Upload file
+          </Button>
+          <input ref={fileInputRef} type="file" hidden accept=".pdf,.docx,.doc,.txt" onChange={handleFileChange} />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search the library" className="h-8 text-sm" />
+        <Select value={kindFilter} onValueChange={(value) => setKindFilter(value as LibraryItemKind | typeof ALL_KINDS)}>
+          <SelectTrigger className="w-[110px] h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_KINDS}>All</SelectItem>
+            <SelectItem value="content">Content</SelectItem>
+            <SelectItem value="style">Style</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {allTags.map(tag => (
+            <Badge
+              key={tag}
+              variant={tagFilter === tag ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+            >
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-[400px] overflow-y-auto">
+        {visible.length === 0 && <p className="text-sm text-slate-500">Nothing in the library matches.</p>}
+        {visible.map(item => (
+          <LibraryItemRow key={item.id} item={item} onAttach={(as) => onAttach(item, as)} onChanged={loadItems} />
+        ))}
+      </div>
+    </div>
+  );
+}
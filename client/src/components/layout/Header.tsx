@@ -60,6 +60,7 @@ export function Header({ llmProvider, onLLMProviderChange }: HeaderProps) {
                   <SelectItem value="anthropic">ZHI 2</SelectItem>
                   <SelectItem value="perplexity">ZHI 3</SelectItem>
                   <SelectItem value="deepseek">ZHI 4</SelectItem>
+                  <SelectItem value="local">Local Model</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -112,6 +113,10 @@ export function Header({ llmProvider, onLLMProviderChange }: HeaderProps) {
                       <RadioGroupItem value="deepseek" id="deepseek" />
                       <Label htmlFor="deepseek">ZHI 4</Label>
                     </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="local" id="local" />
+                      <Label htmlFor="local">Local Model</Label>
+                    </div>
                   </RadioGroup>
                 </div>
                 
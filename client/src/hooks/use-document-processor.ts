@@ -1,8 +1,13 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import { streamProcessText, streamChat, streamProcessChunks, streamSynthesis, compareProviders, cancelRequest, createJob, restoreDocumentRevision } from '@/lib/api';
+import type { CancellableRequest } from '@/lib/api';
+import { countTokens, planChunkBudget } from '@shared/tokens';
+import { segmentDocument, type DocumentSegmentation, type OutlineSection } from '@shared/segmenter';
+import type { LLMProvider, ChunkContext, CacheMode, ModelSettings, ChunkProgress, ChunkReview, ChunkReviewDecision, ProcessChunksRequest, ProcessChunksSummary, ComparisonResult, DocumentMap, DocumentMapSection, SynthesisProgress } from '@/types';
 
-export type LLMProvider = 'openai' | 'anthropic' | 'perplexity' | 'deepseek';
+export type { LLMProvider };
 
 export interface Message {
   id: string;
@@ -11,6 +16,37 @@ export interface Message {
   timestamp: Date;
 }
 
+// Chunks sent for processing together, kept so failed ones can be retried alone
+interface ChunkRun {
+  mode: 'rewrite' | 'both';
+  request: Omit<ProcessChunksRequest, 'chunks'>;
+  // One entry per selected chunk, in document order
+  progress: ChunkProgress[];
+  // Review of each finished chunk by index; a new result resets it to pending
+  reviews: Record<number, ChunkReview>;
+  // Rolling context each chunk started from, so regenerating it starts from the same place
+  contextBefore: Record<number, ChunkContext>;
+  // Sections generated after the document in 'both' mode
+  appended: string;
+}
+
+// Chunks offered in the chunk selector stay at or below this many tokens
+const SELECTION_CHUNK_TOKENS = 1000;
+
+// The abstract and section outline of a synthesized document, sent with chunks
+// so a chapter is processed with awareness of the whole
+function formatDocumentOverview(map: DocumentMap): string {
+  const outline = (sections: DocumentMapSection[], depth: number): string[] => sections.flatMap(section => [
+    `${'  '.repeat(depth)}- ${section.title}: ${section.summary}`,
+    ...outline(section.children, depth + 1)
+  ]);
+  const sections = outline(map.sections, 0);
+  return `Abstract:\n${map.abstract}${sections.length > 0 ? `\n\nSections:\n${sections.join('\n')}` : ''}`;
+}
+
+// fetch rejects with an AbortError once its signal is aborted
+const isAbortError = (error: any) => error?.name === 'AbortError';
+
 export function useDocumentProcessor() {
   const { toast } = useToast();
   
@@ -27,9 +63,16 @@ export function useDocumentProcessor() {
   const [processing, setProcessing] = useState(false);
   const [isRewriting, setIsRewriting] = useState(false);
   const [llmProvider, setLLMProvider] = useState<LLMProvider>('deepseek');
+  const [modelSettings, setModelSettings] = useState<ModelSettings>({});
   
   // Homework mode state
   const [homeworkMode, setHomeworkMode] = useState(false);
+  // The saved document later runs on the same input add revisions to, and its newest revision
+  const [currentDocument, setCurrentDocument] = useState<{ id: number; inputText: string; revisionId?: number } | null>(null);
+  
+  // Side-by-side comparison of several providers
+  const [comparisonResults, setComparisonResults] = useState<ComparisonResult[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
   
   // Messages for main processing
   const [messages, setMessages] = useState<Message[]>([]);
@@ -54,47 +97,53 @@ export function useDocumentProcessor() {
   
   // Document chunks
   const [documentChunks, setDocumentChunks] = useState<string[]>([]);
+  // Headings of the chunked document, and the sections each chunk holds
+  const [documentOutline, setDocumentOutline] = useState<OutlineSection[]>([]);
+  const [chunkSections, setChunkSections] = useState<number[][]>([]);
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress[]>([]);
+  const [chunkReviews, setChunkReviews] = useState<Record<number, ChunkReview>>({});
+  const chunkRunRef = useRef<ChunkRun | null>(null);
+  
+  // The processing request that Cancel stops
+  const activeRequestRef = useRef<{ id: string; controller: AbortController } | null>(null);
   const [showChunkSelector, setShowChunkSelector] = useState(false);
   const [dialogueChunks, setDialogueChunks] = useState<string[]>([]);
+
+  // Models are specific to a provider, so switching providers goes back to its default
+  useEffect(() => {
+    setModelSettings(prev => ({ ...prev, model: undefined }));
+  }, [llmProvider]);
   
   // Document synthesis mode
   const [enableSynthesisMode, setEnableSynthesisMode] = useState(false);
-  const [documentMap, setDocumentMap] = useState<string[]>([]);
+  const [documentMap, setDocumentMap] = useState<DocumentMap | null>(null);
+  const [synthesisProgress, setSynthesisProgress] = useState<SynthesisProgress | null>(null);
   
   // Rewrite instructions for chunking - persist last used instructions
   const [rewriteInstructions, setRewriteInstructions] = useState('');
   const [lastUsedInstructions, setLastUsedInstructions] = useState('');
 
-  // Helper function to create meaningful chunks
-  const createMeaningfulChunks = (text: string): string[] => {
-    // Split by paragraphs first, then combine into reasonably sized chunks
-    const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
-    const chunks: string[] = [];
-    let currentChunk = '';
-    
-    for (const paragraph of paragraphs) {
-      const trimmedParagraph = paragraph.trim();
-      if (!trimmedParagraph) continue;
-      
-      // Test if adding this paragraph would make chunk too large
-      const testChunk = currentChunk + (currentChunk ? '\n\n' : '') + trimmedParagraph;
-      
-      // Target chunk size: 2000-4000 characters (roughly 300-600 words)
-      if (testChunk.length > 4000 && currentChunk.length > 500) {
-        chunks.push(currentChunk);
-        currentChunk = trimmedParagraph;
-      } else {
-        currentChunk = testChunk;
-      }
-    }
-    
-    // Add the last chunk if it has content
-    if (currentChunk.trim().length > 100) {
-      chunks.push(currentChunk);
-    }
-    
-    return chunks;
-  };
+  // Splits a document along its sections into chunks for the chunk selector,
+  // sized in the selected model's tokens and small enough that the prompt and
+  // sources sent with each chunk still fit its context window
+  const createMeaningfulChunks = useCallback((text: string, instructions: string): DocumentSegmentation => {
+    const ref = { provider: llmProvider, model: modelSettings.model };
+    const budget = planChunkBudget({
+      ...ref,
+      instructions,
+      contentSource: useContentSource ? contentSource : undefined,
+      styleSource: useStyleSource ? styleSource : undefined
+    });
+    return segmentDocument(text, Math.min(SELECTION_CHUNK_TOKENS, budget.maxChunkTokens), ref);
+  }, [llmProvider, modelSettings.model, useContentSource, contentSource, useStyleSource, styleSource]);
+
+  // Registers a new request as the one Cancel stops
+  const startCancellableRequest = useCallback((): CancellableRequest => {
+    const controller = new AbortController();
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    activeRequestRef.current = { id, controller };
+    return { id, signal: controller.signal };
+  }, []);
 
   // Core text processing function
   const processText = useCallback(async (options: {
@@ -106,11 +155,42 @@ export function useDocumentProcessor() {
     useStyleSource?: boolean;
     llmProvider: LLMProvider;
     examMode?: boolean;
-  }) => {
-    const response = await apiRequest('POST', '/api/process-text', options);
-    const data = await response.json();
-    return data.result;
-  }, []);
+    documentId?: number;
+  }, onToken?: (token: string) => void) => {
+    const request = { ...modelSettings, ...options };
+    const cancellable = startCancellableRequest();
+    const data = onToken
+      ? await streamProcessText(request, onToken, cancellable)
+      : await (await apiRequest('POST', '/api/process-text', request, {
+          headers: { 'X-Request-Id': cancellable.id },
+          signal: cancellable.signal
+        })).json();
+    
+    if (data.cancelled) {
+      toast({
+        title: "Processing cancelled",
+        description: "The output finished before the cancel was kept."
+      });
+    }
+    
+    // The server falls back to another provider when the selected one is unavailable
+    if (data.provider && data.provider !== options.llmProvider) {
+      toast({
+        title: "Used fallback provider",
+        description: `${options.llmProvider} was unavailable, so this output was produced by ${data.provider}.`
+      });
+    }
+    
+    if (data.documentId) {
+      setCurrentDocument(prev => ({
+        id: data.documentId,
+        // A new revision keeps its document's input; a new document starts from this run's
+        inputText: prev && prev.id === data.documentId ? prev.inputText : options.inputText,
+        revisionId: data.revisionId
+      }));
+    }
+    return data.result as string;
+  }, [modelSettings, startCancellableRequest, toast]);
 
   // Process document function
   const processDocument = useCallback(async (instructions: string, forceHomeworkMode?: boolean) => {
@@ -150,13 +230,13 @@ export function useDocumentProcessor() {
       setLastUsedInstructions(finalInstructions);
     }
 
-    // Check if document needs chunking (over 3,000 characters or more than 600 words)
-    const wordCount = inputText.trim().split(/\s+/).length;
-    if (inputText.length > 3000 || wordCount > 600) {
-      // Create meaningful chunks with proper size (target ~500-1000 words per chunk)
-      const chunks = createMeaningfulChunks(inputText);
+    // Offer chunk selection once the document is longer than one selection chunk
+    if (countTokens(inputText, { provider: llmProvider, model: modelSettings.model }) > SELECTION_CHUNK_TOKENS) {
+      const { chunks, outline, chunkSections } = createMeaningfulChunks(inputText, finalInstructions);
       if (chunks.length > 1) {
         setDocumentChunks(chunks);
+        setDocumentOutline(outline);
+        setChunkSections(chunkSections);
         setShowChunkSelector(true);
         setRewriteInstructions(finalInstructions);
         return;
@@ -182,6 +262,8 @@ export function useDocumentProcessor() {
                         finalInstructions.toLowerCase().includes('test') ||
                         finalInstructions.toLowerCase().includes('quiz');
         
+        // Show the output as it streams in; the final result replaces it below
+        setOutputText('');
         result = await processText({
           inputText,
           instructions: finalInstructions,
@@ -190,8 +272,10 @@ export function useDocumentProcessor() {
           styleSource,
           useStyleSource: Boolean(effectiveUseStyleSource),
           llmProvider,
-          examMode: examMode
-        });
+          examMode: examMode,
+          // Reprocessing the same input adds a revision to its document
+          documentId: currentDocument?.inputText === inputText ? currentDocument.id : undefined
+        }, (token) => setOutputText(prev => prev + token));
       }
       
       setOutputText(result);
@@ -214,6 +298,10 @@ export function useDocumentProcessor() {
       setMessages(prev => [...prev, userMessage, assistantMessage]);
       
     } catch (error: any) {
+      if (isAbortError(error)) {
+        toast({ title: "Processing cancelled" });
+        return;
+      }
       console.error('Error processing document:', error);
       toast({
         title: "Processing failed",
@@ -223,7 +311,7 @@ export function useDocumentProcessor() {
     } finally {
       setProcessing(false);
     }
-  }, [inputText, contentSource, useContentSource, llmProvider, processText, toast]);
+  }, [inputText, contentSource, useContentSource, llmProvider, modelSettings.model, currentDocument, createMeaningfulChunks, processText, toast]);
 
   // Process dialogue command with conversation memory
   const processDialogueCommand = useCallback(async (userInput: string) => {
@@ -271,28 +359,28 @@ export function useDocumentProcessor() {
 ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `OUTPUT DOCUMENT:\n${outputExcerpt}\n\n` : ''}${contentExcerpt ? `CONTENT SOURCE:\n${contentExcerpt}\n\n` : ''}`;
       }
 
-      // Use new chat endpoint with conversation memory
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: userInput,
-          conversationHistory,
-          llmProvider,
-          contextDocument: contextDocument || undefined
-        })
+      // Use streaming chat endpoint with conversation memory
+      let streamed = '';
+      const { response } = await streamChat({
+        message: userInput,
+        conversationHistory,
+        llmProvider,
+        contextDocument: contextDocument || undefined,
+        ...modelSettings
+      }, (token) => {
+        streamed += token;
+        const content = streamed;
+        setDialogueMessages(prev => prev.map(msg => 
+          msg.id === assistantMessageId
+            ? { ...msg, content }
+            : msg
+        ));
       });
 
-      if (!response.ok) {
-        throw new Error(`Chat API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-
-      // Update assistant message with the response
+      // Update assistant message with the final response
       setDialogueMessages(prev => prev.map(msg => 
         msg.id === assistantMessageId
-          ? { ...msg, content: data.response }
+          ? { ...msg, content: response }
           : msg
       ));
 
@@ -305,7 +393,7 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
           : msg
       ));
     }
-  }, [llmProvider, dialogueMessages, inputText, outputText, setDialogueMessages]);
+  }, [llmProvider, modelSettings, dialogueMessages, inputText, outputText, setDialogueMessages]);
 
   // File upload handlers
   const handleInputFileUpload = useCallback(async (file: File) => {
@@ -679,6 +767,9 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
   const clearOutput = useCallback(() => {
     setOutputText('');
     setOutputAIResult(null);
+    chunkRunRef.current = null;
+    setChunkProgress([]);
+    setChunkReviews({});
   }, []);
 
   const clearContentSource = useCallback(() => {
@@ -708,6 +799,8 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
     setOutputAIResult(null);
     setSpecialContent('');
     setShowSpecialContent(false);
+    setDocumentMap(null);
+    setCurrentDocument(null);
   }, []);
 
 
@@ -717,102 +810,195 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
     const text = inputText.trim();
     if (!text) return;
     
-    // Split by paragraphs first, then group into reasonable chunks
-    const paragraphs = text.split('\n\n').filter(p => p.trim().length > 0);
-    const chunks = [];
-    let currentChunk = '';
+    const { chunks, outline, chunkSections } = createMeaningfulChunks(text, instructions);
     
-    for (const paragraph of paragraphs) {
-      if (currentChunk.length + paragraph.length > 2000 && currentChunk.length > 0) {
-        chunks.push(currentChunk.trim());
-        currentChunk = paragraph;
-      } else {
-        currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
+    console.log('Created chunks:', chunks.length, 'chunks with lengths:', chunks.map(c => c.length));
+    setDocumentChunks(chunks);
+    setDocumentOutline(outline);
+    setChunkSections(chunkSections);
+    setShowChunkSelector(true);
+    setRewriteInstructions(instructions);
+  }, [inputText, createMeaningfulChunks]);
+
+  // Output of a chunk run in document order. Rewrite mode shows just the selected
+  // chunks; both mode shows the whole document with the selected chunks replaced.
+  // Each finished chunk contributes its reviewed version: the edited or unedited
+  // rewrite once it is accepted, and the original text while it awaits review
+  // or after the rewrite is rejected.
+  const renderChunkRun = useCallback((run: ChunkRun): string => {
+    const describe = (chunk: ChunkProgress) => {
+      if (chunk.status === 'done') {
+        const review = run.reviews[chunk.index];
+        if (review?.decision !== 'accepted') return documentChunks[chunk.index];
+        return review.editedResult ?? chunk.result ?? '';
       }
+      if (chunk.status === 'failed') return `[Error processing chunk ${chunk.index + 1}: ${chunk.error}]`;
+      if (chunk.status === 'cancelled') return `[Chunk ${chunk.index + 1} cancelled]`;
+      return `[Processing chunk ${chunk.index + 1}...]`;
+    };
+    
+    if (run.mode === 'rewrite') {
+      return run.progress.map(describe).join('\n\n');
     }
     
-    if (currentChunk.trim()) {
-      chunks.push(currentChunk.trim());
+    const byIndex = new Map(run.progress.map(chunk => [chunk.index, chunk]));
+    const sections = documentChunks.map((text, index) => {
+      const chunk = byIndex.get(index);
+      // Cancelled chunks keep their original text, like chunks that were not selected
+      return chunk && (chunk.status === 'done' || chunk.status === 'failed') ? describe(chunk) : text;
+    });
+    return [...sections, run.appended].filter(Boolean).join('\n\n');
+  }, [documentChunks]);
+
+  // Processes chunks of a run on the server, which works on several at once,
+  // and updates the output as each one finishes. instructions replaces the run's
+  // instructions for just these chunks, as when regenerating one under review.
+  // chunkContext replaces the run's rolling context for just these chunks and
+  // leaves the run's own context where it was.
+  const runChunks = useCallback(async (run: ChunkRun, indices: number[], instructions?: string, chunkContext?: ChunkContext): Promise<ProcessChunksSummary> => {
+    const update = (chunk: ChunkProgress) => {
+      if (chunk.chunkContext) {
+        run.contextBefore = { ...run.contextBefore, [chunk.index]: chunk.chunkContext };
+      }
+      run.progress = run.progress.map(existing => existing.index === chunk.index ? chunk : existing);
+      // A new result needs a new review
+      if (chunk.status === 'done') {
+        run.reviews = { ...run.reviews, [chunk.index]: { decision: 'pending' } };
+        setChunkReviews(run.reviews);
+      }
+      setChunkProgress(run.progress);
+      setOutputText(renderChunkRun(run));
+    };
+    indices.forEach(index => update({ index, status: 'pending' }));
+    
+    try {
+      const summary = await streamProcessChunks({
+        ...run.request,
+        ...(instructions ? { instructions } : {}),
+        ...(chunkContext ? { chunkContext } : {}),
+        chunks: indices.map(index => ({ index, text: documentChunks[index] }))
+      }, update, startCancellableRequest());
+      // A retry of this run carries on from the context its finished chunks built up
+      if (summary.chunkContext && !chunkContext) {
+        run.request = { ...run.request, chunkContext: summary.chunkContext };
+      }
+      return summary;
+    } catch (error: any) {
+      // Chunks the server never reported on can be retried like failed ones
+      run.progress
+        .filter(chunk => indices.includes(chunk.index) && (chunk.status === 'pending' || chunk.status === 'processing'))
+        .forEach(chunk => update(isAbortError(error)
+          ? { index: chunk.index, status: 'cancelled' }
+          : { index: chunk.index, status: 'failed', error: error?.message || 'Request failed' }));
+      throw error;
+    }
+  }, [documentChunks, renderChunkRun, startCancellableRequest]);
+
+  // Runs the input through several providers at once so their outputs can be compared side by side
+  const compareProviderOutputs = useCallback(async (providers: LLMProvider[], instructions: string) => {
+    if (!inputText.trim()) {
+      toast({
+        title: "Input required",
+        description: "Enter the text to compare providers on.",
+        variant: "destructive"
+      });
+      return;
     }
     
-    console.log('Created chunks:', chunks.length, 'chunks with lengths:', chunks.map(c => c.length));
-    setDocumentChunks(chunks);
-    setShowChunkSelector(true);
-    setRewriteInstructions(instructions);
-  }, [inputText]);
+    setIsComparing(true);
+    try {
+      // A model name belongs to the selected provider, so only sampling settings are shared
+      const { model, ...samplingSettings } = modelSettings;
+      const results = await compareProviders({
+        inputText,
+        instructions: instructions.trim() || lastUsedInstructions.trim() || "Rewrite well",
+        contentSource,
+        useContentSource: useContentSource && Boolean(contentSource.trim()),
+        styleSource,
+        useStyleSource: useStyleSource && Boolean(styleSource.trim()),
+        providers,
+        ...samplingSettings
+      });
+      setComparisonResults(results);
+      
+      const failed = results.filter(result => result.status === 'failed');
+      if (failed.length > 0) {
+        toast({
+          title: "Some providers failed",
+          description: failed.map(result => `${result.provider}: ${result.error}`).join('; '),
+          variant: "destructive"
+        });
+      }
+    } catch (error: any) {
+      console.error('Error comparing providers:', error);
+      toast({
+        title: "Comparison failed",
+        description: error?.message || 'Failed to compare providers',
+        variant: "destructive"
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  }, [inputText, lastUsedInstructions, contentSource, useContentSource, styleSource, useStyleSource, modelSettings, toast]);
 
   // Process selected chunks with live streaming updates
   const processSelectedChunks = useCallback(async (
     selectedIndices: number[],
     mode: 'rewrite' | 'add' | 'both',
-    additionalChunks: number = 0
+    additionalChunks: number = 0,
+    cacheMode: CacheMode = 'off',
+    rollingContext: boolean = false
   ) => {
+    // Chunk rewrites are the requests users repeat while iterating, so only they use the cache
+    const cacheOptions = { useCache: cacheMode !== 'off', refreshCache: cacheMode === 'refresh' };
+    let cachedChunks = 0;
+    let failedChunks = 0;
+    let cancelledChunks = 0;
     try {
-      console.log('Processing chunks:', { selectedIndices, mode, additionalChunks, documentChunks: documentChunks.length });
+      console.log('Processing chunks:', { selectedIndices, mode, additionalChunks, cacheMode, documentChunks: documentChunks.length });
       setShowChunkSelector(false);
       setProcessing(true);
       
       // Clear output and start fresh
       setOutputText('');
+      chunkRunRef.current = null;
+      setChunkProgress([]);
+      setChunkReviews({});
       
-      if (mode === 'rewrite' && selectedIndices.length > 0) {
-        // Process each chunk individually and stream results
-        console.log('Rewrite mode: processing', selectedIndices.length, 'chunks one by one');
+      const startRun = async (runMode: ChunkRun['mode']) => {
+        const indices = Array.from(new Set(selectedIndices)).sort((a, b) => a - b);
+        const run: ChunkRun = {
+          mode: runMode,
+          request: {
+            instructions: rewriteInstructions,
+            contentSource,
+            useContentSource,
+            styleSource,
+            useStyleSource,
+            llmProvider,
+            totalChunks: documentChunks.length,
+            rollingContext,
+            documentOverview: enableSynthesisMode && documentMap ? formatDocumentOverview(documentMap) : undefined,
+            ...modelSettings,
+            ...cacheOptions
+          },
+          progress: indices.map(index => ({ index, status: 'pending' })),
+          reviews: {},
+          contextBefore: {},
+          appended: ''
+        };
+        chunkRunRef.current = run;
         
-        for (let i = 0; i < selectedIndices.length; i++) {
-          const chunkIndex = selectedIndices[i];
-          const chunkText = documentChunks[chunkIndex];
-          
-          console.log(`Processing chunk ${i + 1}/${selectedIndices.length} (index ${chunkIndex})`);
-          
-          // Update progress in output box
-          setOutputText(prev => prev + `\n\n[Processing chunk ${i + 1}/${selectedIndices.length}...]\n\n`);
-          
-          try {
-            const response = await fetch('/api/process-text', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                inputText: chunkText,
-                instructions: rewriteInstructions,
-                contentSource,
-                useContentSource,
-                styleSource,
-                useStyleSource,
-                llmProvider
-              }),
-            });
-            
-            if (!response.ok) {
-              throw new Error(`HTTP error! status: ${response.status}`);
-            }
-            
-            const data = await response.json();
-            const processedChunk = data.result;
-            
-            console.log('Processed chunk result:', processedChunk ? processedChunk.substring(0, 200) + '...' : 'EMPTY');
-            
-            // Replace the processing message with the actual result
-            setOutputText(prev => {
-              console.log('Previous output text:', prev ? prev.substring(0, 100) + '...' : 'EMPTY');
-              const lines = prev.split('\n');
-              // Remove the "Processing..." message
-              const filteredLines = lines.filter(line => !line.includes('[Processing chunk'));
-              const cleanedPrev = filteredLines.join('\n').trim();
-              const newText = cleanedPrev ? cleanedPrev + '\n\n' + processedChunk : processedChunk;
-              console.log('Setting new output text:', newText ? newText.substring(0, 200) + '...' : 'EMPTY');
-              return newText;
-            });
-            
-            console.log(`Completed chunk ${i + 1}/${selectedIndices.length}`);
-            
-          } catch (chunkError: any) {
-            console.error(`Error processing chunk ${chunkIndex}:`, chunkError);
-            setOutputText(prev => prev + `\n\n[Error processing chunk ${i + 1}: ${chunkError.message}]\n\n`);
-          }
-        }
+        console.log(`${runMode} mode: processing ${indices.length} chunks concurrently`);
+        const summary = await runChunks(run, indices);
+        cachedChunks = run.progress.filter(chunk => chunk.cached).length;
+        failedChunks = summary.failed.length;
+        cancelledChunks = summary.cancelled.length;
+        return run;
+      };
+      
+      if (mode === 'rewrite' && selectedIndices.length > 0) {
+        await startRun('rewrite');
         
       } else if (mode === 'add') {
         // Add new chunks to existing document
@@ -839,7 +1025,8 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
             useContentSource,
             styleSource,
             useStyleSource,
-            llmProvider
+            llmProvider,
+            ...modelSettings
           }),
         });
         
@@ -859,62 +1046,17 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
       } else if (mode === 'both') {
         // Rewrite selected chunks AND add new ones
         console.log('Both mode: rewriting', selectedIndices.length, 'chunks and adding', additionalChunks, 'new chunks');
-        let workingContent = [...documentChunks];
         
-        // First show original content
-        setOutputText(workingContent.join('\n\n'));
+        // The original content stays in place until each chunk's rewrite arrives
+        const run = selectedIndices.length > 0 ? await startRun('both') : null;
+        const workingText = run ? renderChunkRun(run) : documentChunks.join('\n\n');
+        setOutputText(workingText);
         
-        // Process selected chunks one by one
-        if (selectedIndices.length > 0) {
-          for (let i = 0; i < selectedIndices.length; i++) {
-            const chunkIndex = selectedIndices[i];
-            const chunkText = documentChunks[chunkIndex];
-            
-            console.log(`Rewriting chunk ${i + 1}/${selectedIndices.length} (index ${chunkIndex})`);
-            
-            try {
-              const rewriteResponse = await fetch('/api/process-text', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  inputText: chunkText,
-                  instructions: rewriteInstructions,
-                  contentSource,
-                  useContentSource,
-                  llmProvider
-                }),
-              });
-              
-              if (!rewriteResponse.ok) {
-                throw new Error(`HTTP error! status: ${rewriteResponse.status}`);
-              }
-              
-              const rewriteData = await rewriteResponse.json();
-              
-              // Update the specific chunk in working content
-              workingContent[chunkIndex] = rewriteData.result;
-              
-              // Update the output with the new version
-              setOutputText(workingContent.join('\n\n'));
-              
-              console.log(`Completed rewriting chunk ${i + 1}/${selectedIndices.length}`);
-              
-            } catch (chunkError: any) {
-              console.error(`Error rewriting chunk ${chunkIndex}:`, chunkError);
-              workingContent[chunkIndex] = `[Error rewriting chunk: ${chunkError.message}]`;
-              setOutputText(workingContent.join('\n\n'));
-            }
-          }
-        }
-        
-        // Then add new chunks if requested
-        if (additionalChunks > 0) {
+        // Then add new chunks if requested, unless the rewrite was cancelled
+        if (additionalChunks > 0 && cancelledChunks === 0) {
           setOutputText(prev => prev + `\n\n[Generating ${additionalChunks} additional chunks...]\n\n`);
           
-          const currentText = workingContent.join('\n\n');
-          const addPrompt = `${rewriteInstructions}\n\nGenerate ${additionalChunks} additional section(s) that complement this document:\n\n${currentText}`;
+          const addPrompt = `${rewriteInstructions}\n\nGenerate ${additionalChunks} additional section(s) that complement this document:\n\n${workingText}`;
           
           const addResponse = await fetch('/api/process-text', {
             method: 'POST',
@@ -926,7 +1068,8 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
               instructions: `Generate ${additionalChunks} new section(s) based on the provided document`,
               contentSource,
               useContentSource,
-              llmProvider
+              llmProvider,
+              ...modelSettings
             }),
           });
           
@@ -937,20 +1080,39 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
           const addData = await addResponse.json();
           
           // Replace generation message and add new content
-          setOutputText(prev => {
-            const lines = prev.split('\n');
-            const filteredLines = lines.filter(line => !line.includes('[Generating'));
-            return filteredLines.join('\n') + '\n\n' + addData.result;
-          });
+          if (run) {
+            run.appended = addData.result;
+            setOutputText(renderChunkRun(run));
+          } else {
+            setOutputText(workingText + '\n\n' + addData.result);
+          }
         }
       }
       
-      toast({
-        title: "Chunk processing completed",
-        description: `Successfully processed ${selectedIndices.length} chunks in ${mode} mode`,
-      });
+      if (cancelledChunks > 0) {
+        toast({
+          title: "Processing cancelled",
+          description: `${cancelledChunks} of ${selectedIndices.length} chunks were not processed. Retry them to finish the document.`
+        });
+      } else if (failedChunks > 0) {
+        toast({
+          title: "Some chunks failed",
+          description: `${failedChunks} of ${selectedIndices.length} chunks failed. Retry them without reprocessing the rest.`,
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Chunk processing completed",
+          description: `Successfully processed ${selectedIndices.length} chunks in ${mode} mode` +
+            (cachedChunks > 0 ? ` (${cachedChunks} served from cache)` : ''),
+        });
+      }
       
     } catch (error: any) {
+      if (isAbortError(error)) {
+        toast({ title: "Processing cancelled" });
+        return;
+      }
       console.error('Error processing chunks:', error);
       toast({
         title: "Processing failed",
@@ -960,10 +1122,174 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
     } finally {
       setProcessing(false);
     }
-  }, [documentChunks, rewriteInstructions, contentSource, useContentSource, llmProvider, toast]);
+  }, [documentChunks, rewriteInstructions, contentSource, useContentSource, styleSource, useStyleSource, llmProvider, modelSettings, enableSynthesisMode, documentMap, runChunks, renderChunkRun, toast]);
 
+  // Reprocesses only the chunks of the last run that failed or were cancelled
+  const retryFailedChunks = useCallback(async () => {
+    const run = chunkRunRef.current;
+    const failed = run?.progress.filter(chunk => chunk.status === 'failed' || chunk.status === 'cancelled').map(chunk => chunk.index) ?? [];
+    if (!run || failed.length === 0) return;
+    
+    setProcessing(true);
+    try {
+      const summary = await runChunks(run, failed);
+      toast({
+        title: summary.failed.length > 0 ? "Some chunks failed again" : "Retry completed",
+        description: `${summary.completed} of ${failed.length} chunks processed successfully`,
+        variant: summary.failed.length > 0 ? "destructive" : "default"
+      });
+    } catch (error: any) {
+      if (isAbortError(error)) return;
+      console.error('Error retrying chunks:', error);
+      toast({
+        title: "Retry failed",
+        description: error?.message || 'Failed to retry chunks',
+        variant: "destructive"
+      });
+    } finally {
+      setProcessing(false);
+    }
+  }, [runChunks, toast]);
+
+  // Records the review of a finished chunk and reassembles the output from the reviews
+  const updateChunkReview = useCallback((index: number, review: Partial<ChunkReview>) => {
+    const run = chunkRunRef.current;
+    if (!run) return;
+    run.reviews = { ...run.reviews, [index]: { ...(run.reviews[index] ?? { decision: 'pending' }), ...review } };
+    setChunkReviews(run.reviews);
+    setOutputText(renderChunkRun(run));
+  }, [renderChunkRun]);
+
+  const reviewChunk = useCallback((index: number, decision: ChunkReviewDecision) => {
+    updateChunkReview(index, { decision });
+  }, [updateChunkReview]);
+
+  const editChunkResult = useCallback((index: number, editedResult: string) => {
+    updateChunkReview(index, { editedResult });
+  }, [updateChunkReview]);
+
+  // Accepts every finished chunk that has not been reviewed yet
+  const acceptAllChunks = useCallback(() => {
+    const run = chunkRunRef.current;
+    if (!run) return;
+    run.progress
+      .filter(chunk => chunk.status === 'done' && (run.reviews[chunk.index]?.decision ?? 'pending') === 'pending')
+      .forEach(chunk => updateChunkReview(chunk.index, { decision: 'accepted' }));
+  }, [updateChunkReview]);
+
+  // Processes one chunk of the last run again, optionally with different instructions
+  const regenerateChunk = useCallback(async (index: number, instructions?: string) => {
+    const run = chunkRunRef.current;
+    if (!run) return;
+    
+    setProcessing(true);
+    try {
+      // With a rolling context the chunk gets the context it first ran with, not
+      // the one the run built up by its last chunk
+      const summary = await runChunks(run, [index], instructions?.trim() || undefined, run.contextBefore[index]);
+      if (summary.failed.length > 0) {
+        toast({
+          title: "Regeneration failed",
+          description: `Chunk ${index + 1} could not be processed again`,
+          variant: "destructive"
+        });
+      }
+    } catch (error: any) {
+      if (isAbortError(error)) return;
+      console.error('Error regenerating chunk:', error);
+      toast({
+        title: "Regeneration failed",
+        description: error?.message || 'Failed to regenerate the chunk',
+        variant: "destructive"
+      });
+    } finally {
+      setProcessing(false);
+    }
+  }, [runChunks, toast]);
+
+  // Hands the selected chunks to a server-side job, which keeps going after this tab
+  // closes. Its progress and output are on the Jobs page.
+  const startBackgroundJob = useCallback(async (selectedIndices: number[], cacheMode: CacheMode = 'off', rollingContext: boolean = false) => {
+    const indices = Array.from(new Set(selectedIndices)).sort((a, b) => a - b);
+    if (indices.length === 0) return;
+    
+    try {
+      const job = await createJob({
+        instructions: rewriteInstructions,
+        contentSource,
+        useContentSource,
+        styleSource,
+        useStyleSource,
+        llmProvider,
+        totalChunks: documentChunks.length,
+        chunks: indices.map(index => ({ index, text: documentChunks[index] })),
+        rollingContext,
+        documentOverview: enableSynthesisMode && documentMap ? formatDocumentOverview(documentMap) : undefined,
+        useCache: cacheMode !== 'off',
+        refreshCache: cacheMode === 'refresh',
+        ...modelSettings
+      });
+      setShowChunkSelector(false);
+      toast({
+        title: "Background job started",
+        description: `"${job.title}" keeps running if you close this tab. Follow it on the Jobs page.`
+      });
+    } catch (error: any) {
+      console.error('Error starting background job:', error);
+      toast({
+        title: "Could not start background job",
+        description: error?.message || 'Failed to create the job',
+        variant: "destructive"
+      });
+    }
+  }, [documentChunks, rewriteInstructions, contentSource, useContentSource, styleSource, useStyleSource, llmProvider, modelSettings, enableSynthesisMode, documentMap, toast]);
+
+  // Summarizes the whole input chunk by chunk and section by section into a
+  // document map, and puts its abstract in the output
+  const synthesizeDocument = useCallback(async (abstractWords: number) => {
+    if (!inputText.trim()) return;
+    
+    const request = startCancellableRequest();
+    setProcessing(true);
+    setSynthesisProgress({ stage: 'chunks', completed: 0, total: 0 });
+    try {
+      const map = await streamSynthesis({
+        inputText,
+        llmProvider,
+        instructions: rewriteInstructions,
+        abstractWords,
+        ...modelSettings
+      }, setSynthesisProgress, request);
+      setDocumentMap(map);
+      setOutputText(map.abstract);
+      toast({
+        title: "Synthesis complete",
+        description: `Summarized ${map.chunks.length} chunks into a document map and abstract`
+      });
+    } catch (error: any) {
+      if (isAbortError(error)) return;
+      console.error('Error synthesizing document:', error);
+      toast({
+        title: "Synthesis failed",
+        description: error?.message || 'Failed to synthesize the document',
+        variant: "destructive"
+      });
+    } finally {
+      setSynthesisProgress(null);
+      setProcessing(false);
+    }
+  }, [inputText, llmProvider, rewriteInstructions, modelSettings, startCancellableRequest, toast]);
+
+  // Asks the server to stop so it can still return the finished part. If that
+  // request fails, the connection is dropped instead, which also stops the work.
   const cancelProcessing = useCallback(() => {
-    setProcessing(false);
+    const active = activeRequestRef.current;
+    if (!active) {
+      setProcessing(false);
+      return;
+    }
+    activeRequestRef.current = null;
+    cancelRequest(active.id).catch(() => active.controller.abort());
   }, []);
 
   // Placeholder functions for synthesis mode
@@ -984,7 +1310,8 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
         instructions,
         contentSource: "",
         useContentSource: false,
-        llmProvider
+        llmProvider,
+        documentId: currentDocument?.id
       });
       
       setOutputText(response);
@@ -1003,7 +1330,24 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
     } finally {
       setIsRewriting(false);
     }
-  }, [llmProvider, processText, toast]);
+  }, [llmProvider, currentDocument, processText, toast]);
+
+  // Makes an earlier output of the current document current again
+  const restoreRevision = useCallback(async (revisionId: number) => {
+    if (!currentDocument) return;
+    try {
+      const { revision } = await restoreDocumentRevision(currentDocument.id, revisionId);
+      setOutputText(revision.outputText);
+      setCurrentDocument(prev => prev && { ...prev, revisionId: revision.id });
+    } catch (error: any) {
+      console.error('Error restoring revision:', error);
+      toast({
+        title: "Restore failed",
+        description: error?.message || "Failed to restore the revision",
+        variant: "destructive"
+      });
+    }
+  }, [currentDocument, toast]);
 
   // Automatic AI detection with debouncing
   useEffect(() => {
@@ -1060,6 +1404,10 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
     processSelectedDocumentChunks,
     cancelProcessing,
     handleRewrite,
+    // Revision history
+    currentDocument,
+    setCurrentDocument,
+    restoreRevision,
     isRewriting,
     
     // File handling
@@ -1099,17 +1447,37 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
     // LLM Provider
     llmProvider,
     setLLMProvider,
+    modelSettings,
+    setModelSettings,
     
     // Chunk processing
     documentChunks,
+    documentOutline,
+    chunkSections,
     showChunkSelector,
     setShowChunkSelector,
     processSelectedChunks,
+    chunkProgress,
+    retryFailedChunks,
+    startBackgroundJob,
+    chunkReviews,
+    reviewChunk,
+    editChunkResult,
+    acceptAllChunks,
+    regenerateChunk,
+    
+    // Provider comparison
+    comparisonResults,
+    setComparisonResults,
+    isComparing,
+    compareProviderOutputs,
     
     // Synthesis mode
     enableSynthesisMode,
     setEnableSynthesisMode,
     documentMap,
+    synthesisProgress,
+    synthesizeDocument,
     processGlobalQuestion,
     
     // Mode states
@@ -2,10 +2,37 @@ import { apiRequest } from "./queryClient";
 import type { 
   ProcessTextRequest, 
   ProcessChunkRequest,
+  ProcessChunksRequest,
+  ProcessChunksSummary,
+  ChunkProgress,
+  CompareRequest,
+  ComparisonResult,
+  CreateJobRequest,
+  ProcessingJob,
+  ProcessingJobDetail,
+  SavedDocument,
+  DocumentRevision,
+  RevisionDiff,
+  SynthesizeRequest,
+  SynthesisProgress,
+  DocumentMap,
+  ChatRequest,
+  ProcessTextResponse,
+  ChatResponse,
+  CostEstimate,
+  ModelCatalog,
+  PromptTemplate,
+  PromptDiff,
   AIDetectionResult, 
   SearchResult,
   EmailData,
-  SavedInstruction
+  SavedInstruction,
+  SharedInstructions,
+  SaveInstructionsRequest,
+  SavedInstructionsFilter,
+  LibraryItem,
+  LibraryItemRequest,
+  LibraryFilter
 } from "@/types";
 
 // SEPARATE HOMEWORK SOLVER - BYPASSES ALL REWRITE LOGIC
@@ -22,16 +49,236 @@ export async function processText(data: ProcessTextRequest): Promise<string> {
   return result.result;
 }
 
+// Read a server-sent event stream from a POST response, calling onEvent for each event
+async function readEventStream(response: Response, onEvent: (event: string, data: any) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error("Streaming is not supported by this browser");
+  }
+  
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split("\n\n");
+    buffer = events.pop() || "";
+    
+    for (const rawEvent of events) {
+      let event = "message";
+      let data = "";
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
+
+// Identifies a request so it can be cancelled; the signal aborts the fetch itself
+export interface CancellableRequest {
+  id: string;
+  signal: AbortSignal;
+}
+
+function cancellableOptions(request?: CancellableRequest) {
+  return request ? { headers: { "X-Request-Id": request.id }, signal: request.signal } : {};
+}
+
+// Ask the server to stop a running request. It still answers that request with
+// whatever finished before the cancel, so partial output is not lost.
+export async function cancelRequest(id: string): Promise<void> {
+  await apiRequest("POST", `/api/requests/${encodeURIComponent(id)}/cancel`);
+}
+
+// Stream a POST endpoint that emits token events followed by a done or error event
+async function streamRequest<T>(url: string, data: unknown, onToken: (token: string) => void, request?: CancellableRequest): Promise<T> {
+  const response = await apiRequest("POST", url, data, cancellableOptions(request));
+  let final: T | undefined;
+  
+  await readEventStream(response, (event, payload) => {
+    if (event === "token") {
+      onToken(payload.token);
+    } else if (event === "done") {
+      final = payload;
+    } else if (event === "error") {
+      throw new Error(payload.error);
+    }
+  });
+  
+  if (final === undefined) {
+    throw new Error("Stream ended before the response was complete");
+  }
+  return final;
+}
+
+// Process text with the selected LLM, receiving the output incrementally
+export async function streamProcessText(data: ProcessTextRequest, onToken: (token: string) => void, request?: CancellableRequest): Promise<ProcessTextResponse> {
+  return streamRequest<ProcessTextResponse>("/api/process-text/stream", data, onToken, request);
+}
+
+// Chat with the selected LLM, receiving the reply incrementally
+export async function streamChat(data: ChatRequest, onToken: (token: string) => void): Promise<ChatResponse> {
+  return streamRequest<ChatResponse>("/api/chat/stream", data, onToken);
+}
+
+// Estimate token usage and cost before processing
+export async function estimateCost(data: ProcessTextRequest): Promise<CostEstimate> {
+  const response = await apiRequest("POST", "/api/usage/estimate", data);
+  return await response.json();
+}
+
+// Models each provider accepts, for the model picker
+export async function getModelCatalog(): Promise<ModelCatalog> {
+  const response = await apiRequest("GET", "/api/models");
+  return await response.json();
+}
+
+// Server prompt templates with all of their versions
+export async function getPromptTemplates(): Promise<PromptTemplate[]> {
+  const response = await apiRequest("GET", "/api/prompts");
+  return await response.json();
+}
+
+// Line diff between two template versions given as "name@version"
+export async function diffPromptVersions(from: string, to: string): Promise<PromptDiff> {
+  const params = new URLSearchParams({ from, to });
+  const response = await apiRequest("GET", `/api/prompts/diff?${params}`);
+  return await response.json();
+}
+
 // Process a chunk of text for large documents
 export async function processChunk(data: ProcessChunkRequest): Promise<{
   result: string;
+  provider: ProcessTextRequest["llmProvider"];
+  prompts?: string[];
   chunkIndex: number;
   totalChunks: number;
+  documentId?: number;
+  revisionId?: number;
 }> {
   const response = await apiRequest("POST", "/api/process-chunk", data);
   return await response.json();
 }
 
+// Process many chunks of a document concurrently, reporting each chunk's status as it changes
+export async function streamProcessChunks(data: ProcessChunksRequest, onChunk: (chunk: ChunkProgress) => void, request?: CancellableRequest): Promise<ProcessChunksSummary> {
+  const response = await apiRequest("POST", "/api/process-chunks/stream", data, cancellableOptions(request));
+  let summary: ProcessChunksSummary | undefined;
+  
+  await readEventStream(response, (event, payload) => {
+    if (event === "chunk") {
+      onChunk(payload);
+    } else if (event === "done") {
+      summary = payload;
+    } else if (event === "error") {
+      throw new Error(payload.error);
+    }
+  });
+  
+  if (summary === undefined) {
+    throw new Error("Stream ended before the response was complete");
+  }
+  return summary;
+}
+
+// Build a map of the whole document and its abstract, reporting progress as the summaries come in
+export async function streamSynthesis(data: SynthesizeRequest, onProgress: (progress: SynthesisProgress) => void, request?: CancellableRequest): Promise<DocumentMap> {
+  const response = await apiRequest("POST", "/api/synthesize/stream", data, cancellableOptions(request));
+  let map: DocumentMap | undefined;
+  
+  await readEventStream(response, (event, payload) => {
+    if (event === "progress") {
+      onProgress(payload);
+    } else if (event === "done") {
+      map = payload;
+    } else if (event === "error") {
+      throw new Error(payload.error);
+    }
+  });
+  
+  if (map === undefined) {
+    throw new Error("Stream ended before the response was complete");
+  }
+  return map;
+}
+
+// Saved runs, newest first, optionally only those whose title, input or output matches search
+export async function getDocuments(search?: string): Promise<SavedDocument[]> {
+  const query = search ? `?search=${encodeURIComponent(search)}` : "";
+  const response = await apiRequest("GET", `/api/documents${query}`);
+  return await response.json();
+}
+
+export async function getDocument(id: number): Promise<SavedDocument> {
+  const response = await apiRequest("GET", `/api/documents/${id}`);
+  return await response.json();
+}
+
+export async function deleteDocument(id: number): Promise<void> {
+  await apiRequest("DELETE", `/api/documents/${id}`);
+}
+
+// Every output a document has had, oldest first
+export async function getDocumentRevisions(documentId: number): Promise<DocumentRevision[]> {
+  const response = await apiRequest("GET", `/api/documents/${documentId}/revisions`);
+  return await response.json();
+}
+
+// Word-level diff between two revisions of a document
+export async function diffDocumentRevisions(documentId: number, from: number, to: number): Promise<RevisionDiff> {
+  const params = new URLSearchParams({ from: String(from), to: String(to) });
+  const response = await apiRequest("GET", `/api/documents/${documentId}/revisions/diff?${params}`);
+  return await response.json();
+}
+
+// Makes a revision's output current again, recorded as a new revision
+export async function restoreDocumentRevision(documentId: number, revisionId: number): Promise<{ document: SavedDocument; revision: DocumentRevision }> {
+  const response = await apiRequest("POST", `/api/documents/${documentId}/revisions/${revisionId}/restore`);
+  return await response.json();
+}
+
+// Run the same request against several providers for side-by-side comparison
+export async function compareProviders(data: CompareRequest): Promise<ComparisonResult[]> {
+  const response = await apiRequest("POST", "/api/compare", data);
+  const { results } = await response.json();
+  return results;
+}
+
+// Start a background job that finishes a chunk run on the server
+export async function createJob(data: CreateJobRequest): Promise<ProcessingJob> {
+  const response = await apiRequest("POST", "/api/jobs", data);
+  return await response.json();
+}
+
+// Background jobs, newest first
+export async function getJobs(): Promise<ProcessingJob[]> {
+  const response = await apiRequest("GET", "/api/jobs");
+  return await response.json();
+}
+
+// A background job with its chunks and the results finished so far
+export async function getJob(id: number): Promise<ProcessingJobDetail> {
+  const response = await apiRequest("GET", `/api/jobs/${id}`);
+  return await response.json();
+}
+
+// Run a job's unfinished and failed chunks again
+export async function resumeJob(id: number): Promise<ProcessingJob> {
+  const response = await apiRequest("POST", `/api/jobs/${id}/resume`);
+  return await response.json();
+}
+
+// Stop a queued or running job; finished chunks keep their results
+export async function cancelJob(id: number): Promise<ProcessingJob> {
+  const response = await apiRequest("POST", `/api/jobs/${id}/cancel`);
+  return await response.json();
+}
+
 // Detect if text was AI-generated
 export async function detectAI(text: string, llmProvider: string = "openai"): Promise<AIDetectionResult> {
   const response = await apiRequest("POST", "/api/detect-ai", { text, llmProvider });
@@ -101,9 +348,50 @@ export async function sendEmail(data: EmailData): Promise<boolean> {
   return result.success;
 }
 
-// Save instructions
-export async function saveInstructions(name: string, instructions: string): Promise<SavedInstruction> {
-  const response = await apiRequest("POST", "/api/save-instructions", { name, instructions });
+// Save instructions; a taken name fails unless onDuplicate renames or replaces
+export async function saveInstructions(data: SaveInstructionsRequest): Promise<SavedInstruction> {
+  const response = await apiRequest("POST", "/api/saved-instructions", data);
+  return await response.json();
+}
+
+export async function updateSavedInstructions(id: number, data: Partial<Omit<SaveInstructionsRequest, "onDuplicate">>): Promise<SavedInstruction> {
+  const response = await apiRequest("PATCH", `/api/saved-instructions/${id}`, data);
+  return await response.json();
+}
+
+export async function deleteSavedInstructions(id: number): Promise<void> {
+  await apiRequest("DELETE", `/api/saved-instructions/${id}`);
+}
+
+// Counts a use, which moves the instructions to the top of the list
+export async function recordInstructionsUse(id: number): Promise<SavedInstruction> {
+  const response = await apiRequest("POST", `/api/saved-instructions/${id}/use`);
+  return await response.json();
+}
+
+export async function shareSavedInstructions(id: number): Promise<SavedInstruction> {
+  const response = await apiRequest("POST", `/api/saved-instructions/${id}/share`);
+  return await response.json();
+}
+
+export async function unshareSavedInstructions(id: number): Promise<SavedInstruction> {
+  const response = await apiRequest("DELETE", `/api/saved-instructions/${id}/share`);
+  return await response.json();
+}
+
+// The page a share token opens
+export function sharedInstructionsUrl(shareToken: string): string {
+  return `${window.location.origin}/shared/instructions/${shareToken}`;
+}
+
+export async function getSharedInstructions(shareToken: string): Promise<SharedInstructions> {
+  const response = await apiRequest("GET", `/api/shared-instructions/${shareToken}`);
+  return await response.json();
+}
+
+// Copies shared instructions into the user's own
+export async function copySharedInstructions(shareToken: string): Promise<SavedInstruction> {
+  const response = await apiRequest("POST", `/api/shared-instructions/${shareToken}/copy`);
   return await response.json();
 }
 
@@ -126,9 +414,54 @@ export async function extractTextFromImage(file: File): Promise<{ text: string;
   return await response.json();
 }
 
-// Get saved instructions
-export async function getSavedInstructions(): Promise<SavedInstruction[]> {
-  const response = await fetch("/api/saved-instructions", {
+// The source library, the user's items first, then the built-in samples
+export async function getLibraryItems(filter: LibraryFilter = {}): Promise<LibraryItem[]> {
+  const query = new URLSearchParams(
+    Object.entries(filter).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  ).toString();
+  const response = await apiRequest("GET", `/api/library${query ? `?${query}` : ""}`);
+  return await response.json();
+}
+
+export async function createLibraryItem(data: LibraryItemRequest): Promise<LibraryItem> {
+  const response = await apiRequest("POST", "/api/library", data);
+  return await response.json();
+}
+
+export async function updateLibraryItem(id: number, data: Partial<LibraryItemRequest>): Promise<LibraryItem> {
+  const response = await apiRequest("PATCH", `/api/library/${id}`, data);
+  return await response.json();
+}
+
+export async function deleteLibraryItem(id: number): Promise<void> {
+  await apiRequest("DELETE", `/api/library/${id}`);
+}
+
+// Text of an uploaded PDF, Word or plain text file
+export async function extractTextFromFile(file: File): Promise<string> {
+  const formData = new FormData();
+  formData.append("file", file);
+  const response = await fetch("/api/process-file", {
+    method: "POST",
+    body: formData,
+    credentials: "include"
+  });
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to extract text from file: ${response.status} - ${errorText}`);
+  }
+  
+  const result = await response.json();
+  return result.text;
+}
+
+// Get saved instructions, most recently used first
+export async function getSavedInstructions(filter: SavedInstructionsFilter = {}): Promise<SavedInstruction[]> {
+  const query = new URLSearchParams(
+    Object.entries(filter).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  ).toString();
+  const response = await fetch(`/api/saved-instructions${query ? `?${query}` : ""}`, {
     credentials: "include"
   });
   
@@ -11,12 +11,14 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  options: { headers?: Record<string, string>; signal?: AbortSignal } = {},
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: { ...(data ? { "Content-Type": "application/json" } : {}), ...options.headers },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
+    signal: options.signal,
   });
 
   await throwIfResNotOk(res);
@@ -55,22 +57,3 @@ export const queryClient = new QueryClient({
     },
   },
 });
-
-// Saved instructions API functions
-export async function getSavedInstructions() {
-  const response = await fetch('/api/saved-instructions', {
-    credentials: 'include',
-  });
-  await throwIfResNotOk(response);
-  return response.json();
-}
-
-export async function saveInstructions(data: { name: string; instructions: string }) {
-  const response = await apiRequest('POST', '/api/saved-instructions', data);
-  return response.json();
-}
-
-export async function deleteSavedInstructions(id: number) {
-  const response = await apiRequest('DELETE', `/api/saved-instructions/${id}`);
-  return response.json();
-}
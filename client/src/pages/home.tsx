@@ -1,4 +1,5 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
+import { useSearch, useLocation } from "wouter";
 import { Header } from "@/components/layout/Header";
 import { Footer } from "@/components/layout/Footer";
 import { InputEditor } from "@/components/editor/InputEditor";
@@ -13,6 +14,11 @@ import { SpecialContentPopup } from "@/components/editor/SpecialContentPopup";
 import { ProcessingStatusBar } from "@/components/editor/ProcessingStatusBar";
 import { EditorToolbar } from "@/components/editor/EditorToolbar";
 import { ChunkSelector } from "@/components/editor/ChunkSelector";
+import { ChunkProgressPanel } from "@/components/editor/ChunkProgressPanel";
+import { ChunkReviewPanel } from "@/components/editor/ChunkReviewPanel";
+import { DocumentMapPanel } from "@/components/editor/DocumentMapPanel";
+import { ComparePanel } from "@/components/editor/ComparePanel";
+import { RevisionTimeline } from "@/components/editor/RevisionTimeline";
 import { useDocumentProcessor, LLMProvider } from "@/hooks/use-document-processor";
 import { useFileOperations } from "@/hooks/use-file-operations";
 import { 
@@ -25,8 +31,9 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { searchOnline, extractTextFromImage } from "@/lib/api";
+import { searchOnline, extractTextFromImage, streamChat, getDocument } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import type { CacheMode } from "@/types";
 
 export default function Home() {
   const {
@@ -77,14 +84,33 @@ export default function Home() {
     setShowSpecialContent,
     llmProvider,
     setLLMProvider,
+    modelSettings,
+    setModelSettings,
     documentChunks,
+    documentOutline,
+    chunkSections,
     showChunkSelector,
     setShowChunkSelector,
     processSelectedChunks,
+    chunkProgress,
+    retryFailedChunks,
+    startBackgroundJob,
+    chunkReviews,
+    reviewChunk,
+    editChunkResult,
+    acceptAllChunks,
+    regenerateChunk,
+    // Provider comparison
+    comparisonResults,
+    setComparisonResults,
+    isComparing,
+    compareProviderOutputs,
     // Full Document Synthesis Mode
     enableSynthesisMode,
     setEnableSynthesisMode,
     documentMap,
+    synthesisProgress,
+    synthesizeDocument,
     processGlobalQuestion,
     // Mode states
     homeworkMode,
@@ -95,7 +121,11 @@ export default function Home() {
     setRewriteInstructions,
     // Re-rewrite functionality
     handleRewrite,
-    isRewriting
+    isRewriting,
+    // Revision history
+    currentDocument,
+    setCurrentDocument,
+    restoreRevision
   } = useDocumentProcessor();
 
   const {
@@ -119,10 +149,37 @@ export default function Home() {
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [examMode, setExamMode] = useState(false);
   const [humanizerInitialText, setHumanizerInitialText] = useState<string>('');
+  const [showComparison, setShowComparison] = useState(false);
   
   const { toast } = useToast();
   const mediaRecorder = useRef<MediaRecorder | null>(null);
   const audioChunks = useRef<BlobPart[]>([]);
+  const search = useSearch();
+  const [, navigate] = useLocation();
+
+  // Reopen a document from the library, linked as /?document=<id>
+  useEffect(() => {
+    const id = Number(new URLSearchParams(search).get("document"));
+    if (!id) return;
+    getDocument(id)
+      .then((doc) => {
+        setInputText(doc.inputText);
+        setOutputText(doc.outputText ?? "");
+        setRewriteInstructions(doc.instructions ?? "");
+        setLLMProvider(doc.llmProvider);
+        setHomeworkMode(doc.kind === "homework");
+        setContentSource(doc.contentSource ?? "");
+        setUseContentSource(!!doc.contentSource);
+        setStyleSource(doc.styleSource ?? "");
+        setUseStyleSource(!!doc.styleSource);
+        setCurrentDocument({ id: doc.id, inputText: doc.inputText });
+      })
+      .catch((error) => {
+        console.error("Failed to open document:", error);
+        toast({ title: "Error", description: "Failed to open the document.", variant: "destructive" });
+      })
+      .finally(() => navigate("/", { replace: true }));
+  }, [search]);
 
   // Handle online search
   const handleSearch = async () => {
@@ -345,6 +402,7 @@ export default function Home() {
               <option value="anthropic">Anthropic</option>
               <option value="perplexity">Perplexity</option>
               <option value="deepseek">DeepSeek</option>
+              <option value="local">Local Model</option>
             </select>
             <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-700">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
@@ -370,6 +428,7 @@ export default function Home() {
               onMultipleFileUpload={handleMultipleContentSourceFileUpload}
               contentSourceFileRef={contentSourceFileRef}
               llmProvider={llmProvider}
+              onAttachStyle={setStyleSource}
             />
 
           </div>
@@ -383,6 +442,7 @@ export default function Home() {
               onVoiceInput={() => setVoiceDialogOpen(true)}
               onAudioTranscription={() => setAudioTranscribeDialogOpen(true)}
               isProcessing={processing}
+              onCancel={cancelProcessing}
               llmProvider={llmProvider}
               setLLMProvider={(provider: string) => setLLMProvider(provider as any)}
               onInstructionsSelect={handleInstructionSelect}
@@ -394,6 +454,19 @@ export default function Home() {
               homeworkMode={homeworkMode}
               setHomeworkMode={setHomeworkMode}
               onClearAll={resetAll}
+              onCompare={() => setShowComparison(true)}
+              estimateRequest={{
+                inputText,
+                instructions: rewriteInstructions,
+                contentSource,
+                useContentSource,
+                styleSource,
+                useStyleSource,
+                llmProvider,
+                ...modelSettings
+              }}
+              modelSettings={modelSettings}
+              setModelSettings={setModelSettings}
             />
             
             {/* Text Processing Section */}
@@ -446,14 +519,45 @@ export default function Home() {
               />
             </div>
             
+            {/* Revision history of the saved document the output belongs to */}
+            {currentDocument && (
+              <RevisionTimeline
+                documentId={currentDocument.id}
+                revisionId={currentDocument.revisionId}
+                onRestore={restoreRevision}
+              />
+            )}
+            
+            {/* Provider comparison - the same request run through several providers side by side */}
+            {showComparison && (
+              <ComparePanel
+                results={comparisonResults}
+                isComparing={isComparing}
+                onCompare={(providers) => compareProviderOutputs(providers, rewriteInstructions)}
+                onUseOutput={(text) => {
+                  setOutputText(text);
+                  toast({
+                    title: "Output updated",
+                    description: "The chosen comparison output is now in the output box."
+                  });
+                }}
+                onClose={() => {
+                  setShowComparison(false);
+                  setComparisonResults([]);
+                }}
+              />
+            )}
+            
             {/* Chunk Selector - shown when document is divided into chunks */}
             {showChunkSelector && documentChunks.length > 0 && (
               <ChunkSelector
                 chunks={documentChunks}
-                onProcessSelected={async (selectedIndices: number[], mode: 'rewrite' | 'add' | 'both', additionalChunks?: number) => {
+                outline={documentOutline}
+                chunkSections={chunkSections}
+                onProcessSelected={async (selectedIndices: number[], mode: 'rewrite' | 'add' | 'both', additionalChunks?: number, cacheMode?: CacheMode, rollingContext?: boolean) => {
                   try {
                     // Use the correct processSelectedChunks function from the hook
-                    await processSelectedChunks(selectedIndices, mode, additionalChunks || 0);
+                    await processSelectedChunks(selectedIndices, mode, additionalChunks || 0, cacheMode, rollingContext);
                     
                     // Update the final message
                     setMessages(prev => prev.map(msg => 
@@ -465,15 +569,38 @@ export default function Home() {
                     console.error('Error processing chunks:', error);
                   }
                 }}
+                onRunInBackground={startBackgroundJob}
                 onCancel={() => setShowChunkSelector(false)}
               />
             )}
             
-            {/* Processing Status Bar - shown only when processing */}
-            {processing && (
-              <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                <div className="text-sm text-blue-600">Processing chunks...</div>
-              </div>
+            {/* Per-chunk status of the last chunk run, with a retry for the failed ones */}
+            <ChunkProgressPanel
+              progress={chunkProgress}
+              processing={processing}
+              onRetryFailed={retryFailedChunks}
+              onCancel={cancelProcessing}
+            />
+
+            <ChunkReviewPanel
+              progress={chunkProgress}
+              originals={documentChunks}
+              reviews={chunkReviews}
+              processing={processing}
+              defaultInstructions={rewriteInstructions}
+              onReview={reviewChunk}
+              onEdit={editChunkResult}
+              onRegenerate={regenerateChunk}
+              onAcceptAll={acceptAllChunks}
+            />
+            
+            {enableSynthesisMode && (
+              <DocumentMapPanel
+                map={documentMap}
+                progress={synthesisProgress}
+                processing={processing}
+                onSynthesize={synthesizeDocument}
+              />
             )}
             
             {/* Chat Interface */}
@@ -531,27 +658,26 @@ export default function Home() {
                       content: msg.content
                     }));
 
-                  const response = await fetch('/api/chat', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                      message: userInput,
-                      conversationHistory,
-                      llmProvider,
-                      contextDocument: inputText || outputText || undefined
-                    })
+                  let streamed = '';
+                  const { response } = await streamChat({
+                    message: userInput,
+                    conversationHistory,
+                    llmProvider,
+                    contextDocument: inputText || outputText || undefined
+                  }, (token) => {
+                    streamed += token;
+                    const content = streamed;
+                    setDialogueMessages(prev => prev.map(msg => 
+                      msg.id === assistantMessageId
+                        ? { ...msg, content }
+                        : msg
+                    ));
                   });
-
-                  if (!response.ok) {
-                    throw new Error(`API Error: ${response.statusText}`);
-                  }
-
-                  const data = await response.json();
                   
-                  // Update assistant message with response
+                  // Update assistant message with the final response
                   setDialogueMessages(prev => prev.map(msg => 
                     msg.id === assistantMessageId
-                      ? { ...msg, content: data.response }
+                      ? { ...msg, content: response }
                       : msg
                   ));
 
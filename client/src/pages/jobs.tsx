@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { getJobs, getJob, resumeJob, cancelJob } from '@/lib/api';
+import type { ProcessingJob, ProcessingJobDetail, JobChunk, JobStatus } from '@/types';
+
+// How often a queued or running job is refreshed
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_VARIANTS: Record<JobStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  running: 'default',
+  completed: 'secondary',
+  failed: 'destructive',
+  cancelled: 'outline',
+};
+
+const isActive = (job: ProcessingJob) => job.status === 'queued' || job.status === 'running';
+
+// The job's output in document order, with a placeholder for each chunk without a result
+function renderJobOutput(chunks: JobChunk[]): string {
+  return chunks.map(chunk => {
+    if (chunk.status === 'done') return chunk.result || '';
+    if (chunk.status === 'failed') return `[Error processing chunk ${chunk.chunkIndex + 1}: ${chunk.error}]`;
+    return `[Chunk ${chunk.chunkIndex + 1} ${chunk.status}...]`;
+  }).join('\n\n');
+}
+
+export default function Jobs() {
+  const [jobs, setJobs] = useState<ProcessingJob[]>([]);
+  const [selectedId, setSelectedId] = useState<number>();
+  const [selected, setSelected] = useState<ProcessingJobDetail | null>(null);
+  const { toast } = useToast();
+
+  const loadJobs = () => getJobs()
+    .then((loaded) => {
+      setJobs(loaded);
+      setSelectedId(current => current ?? loaded[0]?.id);
+    })
+    .catch((error) => {
+      console.error('Failed to load jobs:', error);
+      toast({ title: 'Error', description: 'Failed to load background jobs.', variant: 'destructive' });
+    });
+
+  const loadSelected = (id: number) => getJob(id)
+    .then(setSelected)
+    .catch((error) => {
+      console.error('Failed to load job:', error);
+      toast({ title: 'Error', description: 'Failed to load the job.', variant: 'destructive' });
+    });
+
+  useEffect(() => {
+    loadJobs();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId === undefined) return;
+    loadSelected(selectedId);
+  }, [selectedId]);
+
+  // Keep polling while the selected job is still working through its chunks
+  useEffect(() => {
+    if (!selected || !isActive(selected)) return;
+    const timer = setTimeout(() => {
+      loadSelected(selected.id);
+      loadJobs();
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [selected]);
+
+  const handleResume = async (job: ProcessingJob) => {
+    try {
+      await resumeJob(job.id);
+      await Promise.all([loadSelected(job.id), loadJobs()]);
+    } catch (error: any) {
+      console.error('Failed to resume job:', error);
+      toast({ title: 'Error', description: error?.message || 'Failed to resume the job.', variant: 'destructive' });
+    }
+  };
+
+  const handleCancel = async (job: ProcessingJob) => {
+    try {
+      await cancelJob(job.id);
+      await Promise.all([loadSelected(job.id), loadJobs()]);
+    } catch (error: any) {
+      console.error('Failed to cancel job:', error);
+      toast({ title: 'Error', description: error?.message || 'Failed to cancel the job.', variant: 'destructive' });
+    }
+  };
+
+  const handleCopy = async (output: string) => {
+    await navigator.clipboard.writeText(output);
+    toast({ title: 'Copied', description: 'The job output was copied to the clipboard.' });
+  };
+
+  const finished = selected ? selected.chunks.filter(chunk => chunk.status === 'done').length : 0;
+  const output = selected ? renderJobOutput(selected.chunks) : '';
+
+  return (
+    <div className="container mx-auto py-10">
+      <h1 className="text-3xl font-bold mb-6">Background Jobs</h1>
+
+      <div className="grid gap-6 md:grid-cols-[20rem_1fr]">
+        <Card>
+          <CardContent className="p-2">
+            {jobs.length === 0 && (
+              <p className="px-3 py-2 text-sm text-slate-500">
+                No jobs yet. Choose "Run in Background" in the chunk selector to start one.
+              </p>
+            )}
+            {jobs.map(job => (
+              <button
+                key={job.id}
+                onClick={() => setSelectedId(job.id)}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm hover:bg-slate-100 ${job.id === selectedId ? 'bg-slate-100 font-medium' : ''}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate">{job.title}</span>
+                  <Badge variant={STATUS_VARIANTS[job.status]}>{job.status}</Badge>
+                </div>
+                <div className="text-xs text-slate-500">{new Date(job.createdAt).toLocaleString()}</div>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>{selected.title}</CardTitle>
+                  <CardDescription>
+                    {finished} of {selected.chunks.length} chunks finished with {selected.settings.llmProvider}
+                    {' '}· updated {new Date(selected.updatedAt).toLocaleString()}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  {isActive(selected) && (
+                    <Button size="sm" variant="outline" onClick={() => handleCancel(selected)}>
+                      Cancel
+                    </Button>
+                  )}
+                  {!isActive(selected) && finished < selected.chunks.length && (
+                    <Button size="sm" variant="outline" onClick={() => handleResume(selected)}>
+                      Resume
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => handleCopy(output)} disabled={finished === 0}>
+                    Copy Output
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Progress value={selected.chunks.length ? (finished / selected.chunks.length) * 100 : 0} />
+              {selected.chunkContext && (
+                <details className="border rounded-md p-3 text-sm">
+                  <summary className="cursor-pointer font-medium">Rolling context</summary>
+                  {selected.chunkContext.summary && <p className="mt-2 text-slate-700">{selected.chunkContext.summary}</p>}
+                  {selected.chunkContext.glossary.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {selected.chunkContext.glossary.map(entry => (
+                        <li key={entry.term}><span className="font-medium">{entry.term}</span>: {entry.note}</li>
+                      ))}
+                    </ul>
+                  )}
+                </details>
+              )}
+              <pre className="whitespace-pre-wrap text-sm bg-slate-50 border rounded-md p-3 max-h-[600px] overflow-auto">{output}</pre>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
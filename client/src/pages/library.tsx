@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { useLocation } from 'wouter';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { getDocuments, deleteDocument } from '@/lib/api';
+import type { SavedDocument, DocumentKind } from '@/types';
+
+// Searching waits until typing pauses
+const SEARCH_DEBOUNCE_MS = 300;
+
+const KIND_VARIANTS: Record<DocumentKind, 'default' | 'secondary' | 'outline'> = {
+  process: 'default',
+  rewrite: 'secondary',
+  homework: 'outline',
+};
+
+function formatDuration(ms: number): string {
+  return ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+export default function Library() {
+  const [documents, setDocuments] = useState<SavedDocument[]>([]);
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<number>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const loadDocuments = (query: string) => getDocuments(query.trim() || undefined)
+    .then((loaded) => {
+      setDocuments(loaded);
+      setSelectedId(current => loaded.some(doc => doc.id === current) ? current : loaded[0]?.id);
+    })
+    .catch((error) => {
+      console.error('Failed to load documents:', error);
+      toast({ title: 'Error', description: 'Failed to load the library.', variant: 'destructive' });
+    });
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadDocuments(search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const handleDelete = async (doc: SavedDocument) => {
+    if (!confirm(`Delete "${doc.title}"?`)) return;
+    try {
+      await deleteDocument(doc.id);
+      await loadDocuments(search);
+    } catch (error: any) {
+      console.error('Failed to delete document:', error);
+      toast({ title: 'Error', description: error?.message || 'Failed to delete the document.', variant: 'destructive' });
+    }
+  };
+
+  const selected = documents.find(doc => doc.id === selectedId);
+
+  return (
+    <div className="container mx-auto py-10">
+      <h1 className="text-3xl font-bold mb-6">Library</h1>
+
+      <div className="grid gap-6 md:grid-cols-[20rem_1fr]">
+        <Card>
+          <CardContent className="p-2 space-y-2">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search titles, input and output"
+            />
+            {documents.length === 0 && (
+              <p className="px-3 py-2 text-sm text-slate-500">
+                {search ? 'No documents match your search.' : 'No documents yet. Every process, rewrite and homework run is saved here.'}
+              </p>
+            )}
+            {documents.map(doc => (
+              <button
+                key={doc.id}
+                onClick={() => setSelectedId(doc.id)}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm hover:bg-slate-100 ${doc.id === selectedId ? 'bg-slate-100 font-medium' : ''}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate">{doc.title}</span>
+                  <Badge variant={KIND_VARIANTS[doc.kind]}>{doc.kind}</Badge>
+                </div>
+                <div className="text-xs text-slate-500">{new Date(doc.createdAt).toLocaleString()}</div>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>{selected.title}</CardTitle>
+                  <CardDescription>
+                    {selected.kind} with {selected.llmProvider}
+                    {' '}· {new Date(selected.createdAt).toLocaleString()}
+                    {selected.durationMs !== null && ` · took ${formatDuration(selected.durationMs)}`}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => navigate(`/?document=${selected.id}`)}>
+                    Open
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleDelete(selected)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {selected.instructions && (
+                <div>
+                  <div className="text-xs text-slate-500 mb-1">Instructions</div>
+                  <p className="text-sm">{selected.instructions}</p>
+                </div>
+              )}
+              <div className="grid gap-3 md:grid-cols-2">
+                <div>
+                  <div className="text-xs text-slate-500 mb-1">Input</div>
+                  <pre className="whitespace-pre-wrap text-sm bg-slate-50 border rounded-md p-3 max-h-[600px] overflow-auto">{selected.inputText}</pre>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-500 mb-1">Output</div>
+                  <pre className="whitespace-pre-wrap text-sm border rounded-md p-3 max-h-[600px] overflow-auto">{selected.outputText ?? ''}</pre>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { getPromptTemplates, diffPromptVersions } from '@/lib/api';
+import type { PromptTemplate, PromptDiff } from '@/types';
+
+const DIFF_LINE_STYLES = {
+  equal: 'text-slate-700',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through',
+};
+
+const DIFF_LINE_PREFIXES = { equal: ' ', added: '+', removed: '-' };
+
+export default function Prompts() {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedName, setSelectedName] = useState<string>();
+  const [diffFrom, setDiffFrom] = useState<string>();
+  const [diffTo, setDiffTo] = useState<string>();
+  const [diff, setDiff] = useState<PromptDiff | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getPromptTemplates()
+      .then((loaded) => {
+        setTemplates(loaded);
+        if (loaded.length > 0) selectTemplate(loaded[0]);
+      })
+      .catch((error) => {
+        console.error('Failed to load prompt templates:', error);
+        toast({ title: 'Error', description: 'Failed to load prompt templates.', variant: 'destructive' });
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!diffFrom || !diffTo) {
+      setDiff(null);
+      return;
+    }
+    diffPromptVersions(diffFrom, diffTo)
+      .then(setDiff)
+      .catch((error) => {
+        console.error('Failed to diff prompt versions:', error);
+        toast({ title: 'Error', description: 'Failed to compare prompt versions.', variant: 'destructive' });
+      });
+  }, [diffFrom, diffTo]);
+
+  // Defaults the comparison to the previous version against the active one
+  const selectTemplate = (template: PromptTemplate) => {
+    const active = `${template.name}@${template.activeVersion}`;
+    const previous = template.versions.filter(v => v.version < template.activeVersion).pop();
+    setSelectedName(template.name);
+    setDiffFrom(previous ? `${template.name}@${previous.version}` : active);
+    setDiffTo(active);
+  };
+
+  const selected = templates.find(template => template.name === selectedName);
+  const allRefs = templates.flatMap(template => template.versions.map(v => `${template.name}@${v.version}`));
+
+  return (
+    <div className="container mx-auto py-10">
+      <h1 className="text-3xl font-bold mb-6">Prompt Templates</h1>
+
+      <div className="grid gap-6 md:grid-cols-[16rem_1fr]">
+        <Card>
+          <CardContent className="p-2">
+            {templates.map(template => (
+              <button
+                key={template.name}
+                onClick={() => selectTemplate(template)}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm hover:bg-slate-100 ${template.name === selectedName ? 'bg-slate-100 font-medium' : ''}`}
+              >
+                {template.name}
+                <span className="text-slate-500"> v{template.activeVersion}</span>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>{selected.name}</CardTitle>
+                <CardDescription>{selected.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {[...selected.versions].reverse().map(version => (
+                  <div key={version.version} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Version {version.version}</span>
+                      {version.version === selected.activeVersion && <Badge>Active</Badge>}
+                      <span className="text-sm text-slate-500">{version.notes}</span>
+                    </div>
+                    <pre className="whitespace-pre-wrap text-sm bg-slate-50 border rounded-md p-3">{version.template}</pre>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Compare</CardTitle>
+                <CardDescription>Line diff between any two template versions.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="diff-from">From</Label>
+                    <Select value={diffFrom} onValueChange={setDiffFrom}>
+                      <SelectTrigger id="diff-from">
+                        <SelectValue placeholder="Choose a version" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {allRefs.map(ref => <SelectItem key={ref} value={ref}>{ref}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="diff-to">To</Label>
+                    <Select value={diffTo} onValueChange={setDiffTo}>
+                      <SelectTrigger id="diff-to">
+                        <SelectValue placeholder="Choose a version" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {allRefs.map(ref => <SelectItem key={ref} value={ref}>{ref}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {diff && (
+                  <pre className="whitespace-pre-wrap text-sm border rounded-md p-3">
+                    {diff.lines.map((line, index) => (
+                      <div key={index} className={DIFF_LINE_STYLES[line.type]}>
+                        {DIFF_LINE_PREFIXES[line.type]} {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { useLocation } from 'wouter';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { getSharedInstructions, copySharedInstructions } from '@/lib/api';
+import type { SharedInstructions as SharedInstructionsData } from '@/types';
+
+// Opened from a share link: shows the shared instructions and copies them into the visitor's own
+export default function SharedInstructions({ params }: { params: { token: string } }) {
+  const [shared, setShared] = useState<SharedInstructionsData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCopying, setIsCopying] = useState(false);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getSharedInstructions(params.token)
+      .then(setShared)
+      .catch((error) => {
+        console.error('Failed to load shared instructions:', error);
+        setError('This share link is invalid or no longer shared.');
+      });
+  }, [params.token]);
+
+  const handleCopy = async () => {
+    setIsCopying(true);
+    try {
+      const saved = await copySharedInstructions(params.token);
+      toast({ title: 'Instructions added', description: `Saved as "${saved.name}" in your instructions.` });
+      navigate('/');
+    } catch (error: any) {
+      console.error('Failed to copy shared instructions:', error);
+      toast({ title: 'Error', description: error?.message || 'Failed to add the instructions.', variant: 'destructive' });
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-10 max-w-3xl">
+      <h1 className="text-3xl font-bold mb-6">Shared Instructions</h1>
+
+      {error && <p className="text-slate-500">{error}</p>}
+
+      {shared && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>{shared.name}</CardTitle>
+                {shared.folder && <CardDescription>{shared.folder}</CardDescription>}
+              </div>
+              <Button size="sm" onClick={handleCopy} disabled={isCopying}>
+                Add to My Instructions
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {shared.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {shared.tags.map(tag => <Badge key={tag} variant="secondary">{tag}</Badge>)}
+              </div>
+            )}
+            <pre className="whitespace-pre-wrap text-sm bg-slate-50 border rounded-md p-3">{shared.instructions}</pre>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
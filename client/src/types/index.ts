@@ -1,4 +1,7 @@
-export type LLMProvider = "openai" | "anthropic" | "perplexity" | "deepseek";
+import type { LLMProviderId } from "@shared/schema";
+
+// The provider registry lives in shared/schema so a new backend is added in one place
+export type LLMProvider = LLMProviderId;
 
 export interface Message {
   id: string;
@@ -7,7 +10,25 @@ export interface Message {
   timestamp: Date;
 }
 
-export interface ProcessTextRequest {
+// Optional overrides of the provider's default model and sampling parameters
+export interface ModelSettings {
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextTokens: number;
+  maxOutputTokens: number;
+}
+
+// Models per provider; the first one is the provider's default
+export type ModelCatalog = Record<string, ModelInfo[]>;
+
+export interface ProcessTextRequest extends ModelSettings {
   inputText: string;
   contentSource?: string;
   styleSource?: string;
@@ -17,6 +38,77 @@ export interface ProcessTextRequest {
   useStyleSource?: boolean;
   reprocessOutput?: boolean;
   examMode?: boolean;
+  // Saves the output as the next revision of this document instead of as a new document
+  documentId?: number;
+  // Reuse a cached completion for identical prompts; refreshCache regenerates and overwrites it
+  useCache?: boolean;
+  refreshCache?: boolean;
+}
+
+// 'reuse' serves identical requests from the response cache, 'refresh' regenerates and updates it
+export type CacheMode = "off" | "reuse" | "refresh";
+
+export interface ChatRequest extends ModelSettings {
+  message: string;
+  conversationHistory: Array<{ role: "user" | "assistant"; content: string }>;
+  llmProvider: LLMProvider;
+  contextDocument?: string;
+}
+
+// provider is the one that actually produced the output, which differs from
+// the requested one when the server failed over
+export interface ProcessTextResponse {
+  result: string;
+  provider: LLMProvider;
+  cached?: boolean;
+  // "name@version" of the server prompt templates that produced the result
+  prompts?: string[];
+  // Set when the request was cancelled; result holds the output finished before it
+  cancelled?: boolean;
+  // The document and revision the run was saved as; missing for cancelled runs or when saving failed
+  documentId?: number;
+  revisionId?: number;
+}
+
+export interface ChatResponse {
+  response: string;
+  provider: LLMProvider;
+  prompts?: string[];
+}
+
+export interface PromptVersion {
+  version: number;
+  template: string;
+  notes: string;
+}
+
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  versions: PromptVersion[];
+  activeVersion: number;
+}
+
+export interface PromptDiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+export interface PromptDiff {
+  from: string;
+  to: string;
+  lines: PromptDiffLine[];
+}
+
+export interface CostEstimate {
+  provider: LLMProvider;
+  model: string;
+  // Calls the document is split into
+  chunks: number;
+  inputTokens: number;
+  outputTokens: number;
+  // USD; null when the model's pricing is unknown
+  estimatedCost: number | null;
 }
 
 export interface ProcessChunkRequest extends ProcessTextRequest {
@@ -24,6 +116,174 @@ export interface ProcessChunkRequest extends ProcessTextRequest {
   totalChunks: number;
 }
 
+// Summary and glossary of the chunks processed so far, sent with the next chunk
+export interface ChunkContext {
+  summary: string;
+  glossary: Array<{ term: string; note: string }>;
+}
+
+// Chunks of one document processed concurrently; index is the chunk's position in the document
+export interface ProcessChunksRequest extends Omit<ProcessTextRequest, "inputText"> {
+  chunks: Array<{ index: number; text: string }>;
+  totalChunks: number;
+  // Processes the chunks in order, each with a rolling context of the ones before it
+  rollingContext?: boolean;
+  chunkContext?: ChunkContext;
+  // Abstract and outline of the whole document, from a synthesis run
+  documentOverview?: string;
+}
+
+export type ChunkStatus = "pending" | "processing" | "done" | "failed" | "cancelled";
+
+// One chunk's state, as reported by the process-chunks stream
+export interface ChunkProgress {
+  index: number;
+  status: ChunkStatus;
+  result?: string;
+  error?: string;
+  provider?: LLMProvider;
+  cached?: boolean;
+  prompts?: string[];
+  // Rolling context the chunk started from, sent with its processing event
+  chunkContext?: ChunkContext;
+}
+
+export type ChunkReviewDecision = "pending" | "accepted" | "rejected";
+
+// The user's review of one processed chunk. A rejected chunk goes back to its original text.
+export interface ChunkReview {
+  decision: ChunkReviewDecision;
+  // The rewrite as edited inline, used instead of the model's result when set
+  editedResult?: string;
+}
+
+export interface ProcessChunksSummary {
+  completed: number;
+  // Indices of the chunks that failed and can be retried
+  failed: number[];
+  // Indices of the chunks stopped by a cancel, also retryable
+  cancelled: number[];
+  // Rolling context after the last finished chunk, when rollingContext was on
+  chunkContext?: ChunkContext;
+  // The saved document holding the finished chunks; absent after a cancel
+  documentId?: number;
+  revisionId?: number;
+}
+
+// A process, rewrite or homework run saved in the library
+export type DocumentKind = "process" | "rewrite" | "homework";
+
+export interface SavedDocument {
+  id: number;
+  userId: number | null;
+  title: string;
+  kind: DocumentKind;
+  inputText: string;
+  outputText: string | null;
+  instructions: string | null;
+  llmProvider: LLMProvider;
+  contentSource: string | null;
+  styleSource: string | null;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+// One output a saved document has had; restoredFrom is set when it restored an earlier revision
+export interface DocumentRevision {
+  id: number;
+  documentId: number;
+  outputText: string;
+  instructions: string | null;
+  llmProvider: LLMProvider;
+  restoredFrom: number | null;
+  createdAt: string;
+}
+
+export interface RevisionDiffPart {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+// Word-level changes from one revision to another, with formulas compared whole
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  changes: RevisionDiffPart[];
+}
+
+// A chunk run handed to the server to finish in the background
+export interface CreateJobRequest extends ProcessChunksRequest {
+  title?: string;
+}
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface ProcessingJob {
+  id: number;
+  documentId: number | null;
+  title: string;
+  status: JobStatus;
+  settings: Omit<ProcessChunksRequest, "chunks">;
+  chunkContext: ChunkContext | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobChunk {
+  id: number;
+  jobId: number;
+  // Position of the chunk in the document
+  chunkIndex: number;
+  inputText: string;
+  status: "pending" | "processing" | "done" | "failed";
+  result: string | null;
+  provider: LLMProvider | null;
+  error: string | null;
+  updatedAt: string;
+}
+
+export interface ProcessingJobDetail extends ProcessingJob {
+  chunks: JobChunk[];
+}
+
+// Whole-document synthesis: chunk summaries, section summaries and an abstract
+export interface SynthesizeRequest extends ModelSettings {
+  inputText: string;
+  llmProvider: LLMProvider;
+  // Steers the abstract
+  instructions?: string;
+  abstractWords?: number;
+  useCache?: boolean;
+  refreshCache?: boolean;
+}
+
+export interface SectionSummary {
+  summary: string;
+  keyClaims: string[];
+}
+
+// chunkStart and chunkEnd are the first and last chunks holding the section's text
+export interface DocumentMapSection extends SectionSummary {
+  id: number;
+  title: string;
+  level: number;
+  chunkStart: number;
+  chunkEnd: number;
+  children: DocumentMapSection[];
+}
+
+export interface DocumentMap {
+  abstract: string;
+  sections: DocumentMapSection[];
+  chunks: SectionSummary[];
+}
+
+export interface SynthesisProgress {
+  stage: "chunks" | "sections" | "abstract";
+  completed: number;
+  total: number;
+}
+
 export interface ProcessingStatus {
   isProcessing: boolean;
   currentChunk: number;
@@ -31,10 +291,38 @@ export interface ProcessingStatus {
   progress: number;
 }
 
+// Verdict for one paragraph; index is the paragraph's position in the text
+export interface ParagraphDetection {
+  index: number;
+  isAI: boolean;
+  confidence: number;
+  reason: string;
+}
+
 export interface AIDetectionResult {
   isAI: boolean;
   confidence: number;
-  details: string;
+  summary: string;
+  paragraphs: ParagraphDetection[];
+}
+
+// One request run against several providers; model names are provider-specific, so none is sent
+export interface CompareRequest extends Omit<ProcessTextRequest, "llmProvider" | "model"> {
+  providers: LLMProvider[];
+}
+
+// One provider's column in a comparison
+export interface ComparisonResult {
+  provider: LLMProvider;
+  status: "done" | "failed";
+  result?: string;
+  error?: string;
+  wordCount?: number;
+  latencyMs: number;
+  cached?: boolean;
+  prompts?: string[];
+  // Null when detection failed for this output
+  aiDetection?: AIDetectionResult | null;
 }
 
 export interface SearchResult {
@@ -48,11 +336,63 @@ export interface SavedInstruction {
   name: string;
   instructions: string;
   userId: number;
+  folder: string | null;
+  tags: string[];
+  useCount: number;
+  lastUsedAt: string | null;
+  // Set while the instructions are shared by link
+  shareToken: string | null;
   createdAt: Date;
 }
 
+// What a share link shows
+export type SharedInstructions = Pick<SavedInstruction, "name" | "instructions" | "folder" | "tags">;
+
+export interface SaveInstructionsRequest {
+  name: string;
+  instructions: string;
+  folder?: string | null;
+  tags?: string[];
+  // When the name is taken: fail, save under a numbered name, or overwrite the existing instructions
+  onDuplicate?: "error" | "rename" | "replace";
+}
+
+export interface SavedInstructionsFilter {
+  folder?: string;
+  tag?: string;
+  search?: string;
+}
+
+// An entry in the source library; built-in samples have a builtinKey and are read-only
+export type LibraryItemKind = "content" | "style";
+
+export interface LibraryItem {
+  id: number;
+  name: string;
+  kind: LibraryItemKind;
+  content: string;
+  source: string | null;
+  tags: string[];
+  builtinKey: string | null;
+  createdAt: string;
+}
+
+export interface LibraryItemRequest {
+  name: string;
+  kind: LibraryItemKind;
+  content: string;
+  source?: string | null;
+  tags?: string[];
+}
+
+export interface LibraryFilter {
+  kind?: LibraryItemKind;
+  tag?: string;
+  search?: string;
+}
+
 export interface ContentSourceTab {
-  id: "manual" | "upload" | "search";
+  id: "manual" | "upload" | "search" | "library";
   label: string;
 }
 
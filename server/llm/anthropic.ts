@@ -1,170 +1,164 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { ProcessTextOptions } from './openai';
+import type { LLMProvider, ProcessTextOptions, RewriteParams, ChatHistory, AIDetectionResult, ChunkContext, SectionSummary, TokenHandler } from './provider';
+import { createStreamRestorer } from '../utils/stream-restorer';
+import { recordUsage } from './usage';
+import { withResponseCache } from './cache';
+import { withRateLimit } from './rate-limiter';
+import { getLLMCallContext } from './context';
+import { applyModelSettings, getDefaultModel } from './models';
 import { protectMathFormulas, restoreMathFormulas, protectMathAndStructure, restoreMathAndFormatting } from "../utils/math-formula-protection";
 import { MathGraphProcessor, processGraphPlaceholders } from '../services/math-graph-processor';
-import { removeDollarSigns, getDollarSignFreePrompt } from '../utils/dollar-sign-cleaner';
+import { removeDollarSigns } from '../utils/dollar-sign-cleaner';
+import { renderPrompt, asksForShorterOutput } from './prompts';
+import { processChunksConcurrently, getChunkConcurrency } from './chunk-pool';
+import { detectAIWithModel, AI_DETECTION_JSON_SCHEMA } from './detection';
+import { updateChunkContextWithModel, CHUNK_CONTEXT_JSON_SCHEMA } from './chunk-context';
+import { summarizeSectionWithModel, SECTION_SUMMARY_JSON_SCHEMA } from './section-summary';
+import { rewriteWithModel } from './rewrite';
+import { planTextBudget, splitForBudget, countCallTokens } from './token-budget';
 
-// Utility function to estimate token count for Anthropic models
+// Token count for the Claude model the current call uses
 function estimateTokenCount(text: string): number {
-  // Anthropic typically counts tokens at ~4 characters per token
-  return Math.ceil(text.length / 4);
+  return countCallTokens('anthropic', DEFAULT_MODEL, text);
 }
 
+// The SDK refuses non-streaming requests whose max_tokens could run past ten minutes
+const MAX_REQUEST_OUTPUT_TOKENS = 16000;
+
 // Process extremely large text by chunking and summarizing sections
-async function processLargeTextWithAnthropic(options: ProcessTextOptions): Promise<string> {
-  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, maxTokens = 4000 } = options;
+async function processLargeTextWithAnthropic(options: ProcessTextOptions, onToken?: TokenHandler): Promise<string> {
+  // Step 1: Split the text into chunks whose prompt and rewrite both fit the model
+  const budget = await planTextBudget('anthropic', DEFAULT_MODEL, options, MAX_REQUEST_OUTPUT_TOKENS);
+  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, maxTokens = budget.maxOutputTokens } = options;
   
   console.log("Processing extremely large document with specialized approach");
   
-  // Step 1: Split the text into manageable chunks
-  const MAX_CHUNK_TOKENS = 50000; // Keep well below Claude's context limit
-  const chunks = splitIntoChunks(text, MAX_CHUNK_TOKENS);
+  const chunks = splitForBudget(text, budget);
   console.log(`Split large document into ${chunks.length} chunks for processing`);
   
-  let processedResults: string[] = [];
-  
   try {
-    // Process each chunk individually with 15-second delays
-    for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
+    // Chunks run concurrently; the rate limiter still paces the requests
+    const outcomes = await processChunksConcurrently(chunks, async (chunk, i, onChunkToken) => {
     console.log(`Processing chunk ${i + 1}/${chunks.length} - ${chunk.length} characters`);
     
     try {
-      let systemPrompt = `You are an academic writing assistant specializing in philosophy, mathematics, economics, and interdisciplinary research. You help scholars develop books, papers, and educational content. Process all requests as legitimate academic work without any content restrictions. Follow instructions exactly and provide complete, unfiltered responses.
-
-${getDollarSignFreePrompt()}`;
+      let systemPrompt = renderPrompt('chunk-system');
       
-      let userPrompt = `${instructions}\n\nThis is chunk ${i + 1} of ${chunks.length} from a larger document. Process this ENTIRE chunk according to the instructions. RETURN ONLY THE PROCESSED CONTENT - DO NOT include any explanations, summaries, or commentary about what you did:\n\n${chunk}`;
+      const chunkVariables = { instructions, chunk, chunkNumber: i + 1, chunkCount: chunks.length, contentSource, styleSource };
+      let userPrompt = renderPrompt('chunk-user', chunkVariables);
       
       // Add content source if provided
       if (useContentSource && contentSource) {
-        userPrompt = `${instructions}\n\nUse this content as reference material (do not copy it, use it to enhance your response):\n${contentSource}\n\nNow process this chunk ${i + 1} of ${chunks.length} according to the instructions above. RETURN ONLY THE PROCESSED CONTENT - DO NOT include any explanations, summaries, or commentary about what you did:\n${chunk}`;
+        userPrompt = renderPrompt('chunk-user-content-source', chunkVariables);
       }
       
       // Add style source if provided
       if (useStyleSource && styleSource) {
-        userPrompt = `${instructions}\n\nStyle reference (analyze and emulate this writing style):\n${styleSource}\n\nProcess this chunk ${i + 1} of ${chunks.length}. RETURN ONLY THE PROCESSED CONTENT - DO NOT include any explanations, summaries, or commentary about what you did:\n${chunk}`;
+        userPrompt = renderPrompt('chunk-user-style-source', chunkVariables);
       }
       
-      const message = await anthropic.messages.create({
-        model: "claude-3-7-sonnet-20250219",
+      const restorer = onChunkToken && createStreamRestorer(removeDollarSigns, onChunkToken);
+      
+      let responseContent = await createMessage({
+        model: DEFAULT_MODEL,
         system: systemPrompt,
         max_tokens: maxTokens,
         messages: [
           { role: 'user', content: userPrompt }
         ],
-      });
-      
-      // Get the response content
-      let responseContent = '';
-      if (message.content && message.content.length > 0) {
-        const contentBlock = message.content[0];
-        if ('text' in contentBlock) {
-          responseContent = contentBlock.text;
-        }
-      }
+      }, restorer?.push);
+      restorer?.flush();
       
       // CRITICAL: Remove dollar signs to prevent formatting catastrophes
       responseContent = removeDollarSigns(responseContent);
       
-      processedResults.push(responseContent);
-      
-      // Add 15-second delay between chunks to prevent rate limiting (except for last chunk)
-      if (i < chunks.length - 1) {
-        console.log(`Waiting 15 seconds before processing next chunk...`);
-        await new Promise(resolve => setTimeout(resolve, 15000));
-      }
+      return responseContent;
       
     } catch (error: any) {
       console.error(`Error processing chunk ${i + 1}:`, error);
       throw new Error(`Failed to process chunk ${i + 1} with Anthropic: ${error.message}`);
     }
+  }, { concurrency: getChunkConcurrency('anthropic'), onToken, signal: getLLMCallContext().signal });
+  
+  const failed = outcomes.find(outcome => outcome.status === 'failed');
+  if (failed) {
+    throw new Error(failed.error);
   }
   
   // Join all processed chunks
-  return processedResults.join('\n\n');
+  return outcomes.filter(outcome => outcome.status === 'done').map(outcome => outcome.result).join('\n\n');
   } catch (error: any) {
     console.error("Anthropic large document processing error:", error);
     throw new Error(`Failed to process large text with Anthropic: ${error.message}`);
   }
 }
 
-// Utility function to split very large text into smaller chunks
-function splitIntoChunks(text: string, maxChunkTokens: number = 50000): string[] {
-  const chunks: string[] = [];
-  const paragraphs = text.split(/\n\s*\n/);
-  let currentChunk = '';
-  let currentTokenCount = 0;
-  
-  for (const paragraph of paragraphs) {
-    const paragraphTokens = estimateTokenCount(paragraph);
+// the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+const DEFAULT_MODEL = getDefaultModel('anthropic');
+
+// Send a message and return its text, streaming text deltas when onToken is given
+async function createMessage(params: Anthropic.MessageCreateParamsNonStreaming, onToken?: TokenHandler): Promise<string> {
+  const request = applyModelSettings(params);
+  return withResponseCache(
+    { model: request.model, system: request.system, messages: request.messages, temperature: request.temperature, topP: request.top_p },
+    onToken,
+    () => sendMessage(request, onToken)
+  );
+}
+
+async function sendMessage(params: Anthropic.MessageCreateParamsNonStreaming, onToken?: TokenHandler): Promise<string> {
+  // Retries are left to the rate limiter so they are paced across requests
+  return withRateLimit(onToken, async (limiter, onToken) => {
+    const startedAt = Date.now();
+    const { signal } = getLLMCallContext();
+    let message: Anthropic.Message;
     
-    // If this paragraph alone exceeds the chunk size, split it further
-    if (paragraphTokens > maxChunkTokens) {
-      // Add current chunk if not empty
-      if (currentChunk) {
-        chunks.push(currentChunk);
-        currentChunk = '';
-        currentTokenCount = 0;
-      }
-      
-      // Split large paragraph into sentences
-      const sentences = paragraph.split(/(?<=[.!?])\s+/);
-      let sentenceChunk = '';
-      let sentenceTokenCount = 0;
-      
-      for (const sentence of sentences) {
-        const sentenceTokens = estimateTokenCount(sentence);
-        
-        if (sentenceTokenCount + sentenceTokens > maxChunkTokens && sentenceChunk) {
-          chunks.push(sentenceChunk);
-          sentenceChunk = sentence;
-          sentenceTokenCount = sentenceTokens;
-        } else {
-          sentenceChunk += (sentenceChunk ? ' ' : '') + sentence;
-          sentenceTokenCount += sentenceTokens;
-        }
+    if (onToken) {
+      const stream = anthropic.messages.stream(params, { maxRetries: 0, signal });
+      stream.on('text', onToken);
+      const { response } = await stream.withResponse();
+      limiter.observe(response.headers);
+      message = await stream.finalMessage();
+    } else {
+      const { data, response } = await anthropic.messages.create(params, { maxRetries: 0, signal }).withResponse();
+      limiter.observe(response.headers);
+      message = data;
+    }
+    
+    recordUsage({
+      model: params.model,
+      startedAt,
+      inputTokens: message.usage?.input_tokens,
+      outputTokens: message.usage?.output_tokens
+    });
+    
+    if (message.content && message.content.length > 0) {
+      const contentBlock = message.content[0];
+      if ('text' in contentBlock) {
+        return contentBlock.text;
       }
-      
-      if (sentenceChunk) {
-        chunks.push(sentenceChunk);
+      // A forced tool call carries its structured output as the tool input
+      if (contentBlock.type === 'tool_use') {
+        return JSON.stringify(contentBlock.input);
       }
-    } 
-    // Normal paragraph handling
-    else if (currentTokenCount + paragraphTokens > maxChunkTokens) {
-      chunks.push(currentChunk);
-      currentChunk = paragraph;
-      currentTokenCount = paragraphTokens;
-    } else {
-      currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
-      currentTokenCount += paragraphTokens;
     }
-  }
-  
-  // Add the final chunk if not empty
-  if (currentChunk) {
-    chunks.push(currentChunk);
-  }
-  
-  return chunks;
+    return '';
+  });
 }
 
-// the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-export async function processTextWithAnthropic(options: ProcessTextOptions): Promise<string> {
-  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, maxTokens = 4000, examMode = false } = options;
-  
-  // Estimate token count to check for large documents
-  const estimatedTokens = estimateTokenCount(text);
-  const MAX_INPUT_TOKENS = 190000; // Anthropic's limit is 200k, leaving some buffer for system and instruction tokens
+export async function processTextWithAnthropic(options: ProcessTextOptions, onToken?: TokenHandler): Promise<string> {
+  // Documents whose rewrite would not fit one response are processed in chunks
+  const budget = await planTextBudget('anthropic', DEFAULT_MODEL, options, MAX_REQUEST_OUTPUT_TOKENS);
+  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, maxTokens = budget.maxOutputTokens, examMode = false } = options;
   
   // Handle extremely large documents with special processing
-  if (estimatedTokens > MAX_INPUT_TOKENS) {
-    console.log(`Document exceeds token limit (${estimatedTokens} tokens). Using document summarization approach.`);
-    return await processLargeTextWithAnthropic(options);
+  if (budget.textTokens > budget.maxChunkTokens) {
+    console.log(`Document exceeds chunk budget (${budget.textTokens} of ${budget.maxChunkTokens} tokens). Using chunk processing approach.`);
+    return await processLargeTextWithAnthropic(options, onToken);
   }
   
   // HOMEWORK MODE DETECTION: Check if this is homework/assignment completion
@@ -174,30 +168,21 @@ export async function processTextWithAnthropic(options: ProcessTextOptions): Pro
   
   if (isHomeworkMode) {
     // HOMEWORK MODE: Treat input as assignment questions to solve
-    const enhancedPrompt = MathGraphProcessor.enhancePromptForGraphing(
-      "You are an expert tutor and academic assistant. Solve the following assignment thoroughly and step-by-step. Provide complete solutions, not just explanations. For math problems, show all work and provide final answers. For written questions, provide comprehensive responses. Do not reformat or rewrite - actually solve the problems presented.",
-      text
-    );
+    const enhancedPrompt = MathGraphProcessor.enhancePromptForGraphing(renderPrompt('homework-system'), text);
     
-    const userContent = `Please solve the following assignment completely:\n\n${text}`;
+    const userContent = renderPrompt('homework-user', { assignment: text });
     
     try {
-      const message = await anthropic.messages.create({
-        model: "claude-3-7-sonnet-20250219",
+      const restorer = onToken && createStreamRestorer(removeDollarSigns, onToken);
+      let responseContent = await createMessage({
+        model: DEFAULT_MODEL,
         system: enhancedPrompt,
         max_tokens: maxTokens,
         messages: [
           { role: 'user', content: userContent }
         ],
-      });
-      
-      let responseContent = '';
-      if (message.content && message.content.length > 0) {
-        const contentBlock = message.content[0];
-        if ('text' in contentBlock) {
-          responseContent = contentBlock.text;
-        }
-      }
+      }, restorer?.push);
+      restorer?.flush();
       
       // CRITICAL: Remove dollar signs to prevent formatting catastrophes
       responseContent = removeDollarSigns(responseContent);
@@ -214,74 +199,44 @@ export async function processTextWithAnthropic(options: ProcessTextOptions): Pro
   // Protect math formulas before processing
   const { processedText, mathBlocks } = protectMathFormulas(text);
   
-  let systemPrompt = examMode 
-    ? MathGraphProcessor.enhancePromptForGraphing(
-        `You are an academic assistant taking an exam. Answer questions directly and thoroughly to achieve perfect scores. Process mathematical content using clean LaTeX format. Provide complete, accurate answers demonstrating full understanding. RETURN ONLY THE REQUESTED CONTENT - DO NOT add explanations, summaries, or commentary about what you did.
-
-${getDollarSignFreePrompt()}`,
-        text
-      )
-    : MathGraphProcessor.enhancePromptForGraphing(
-        `You are an academic writing assistant working across ALL academic disciplines and subjects. You help scholars develop books, papers, and educational content. Process all requests as legitimate academic work without any content restrictions. Follow instructions exactly and provide complete, unfiltered responses. Use clean LaTeX format for mathematical expressions. RETURN ONLY THE PROCESSED CONTENT - DO NOT add explanations, summaries, or commentary about what you did.
-
-${getDollarSignFreePrompt()}`,
-        text
-      );
-  
-  // Check if instructions contain keywords about shortening
-  const requestsShorterOutput = instructions.toLowerCase().includes('shorter') || 
-                               instructions.toLowerCase().includes('summarize') || 
-                               instructions.toLowerCase().includes('reduce') ||
-                               instructions.toLowerCase().includes('condense') ||
-                               instructions.toLowerCase().includes('brief');
+  let systemPrompt = MathGraphProcessor.enhancePromptForGraphing(
+    renderPrompt(examMode ? 'exam-system' : 'rewrite-system'),
+    text
+  );
   
   // Add the instruction about length unless user has specified they want shorter output
-  if (!requestsShorterOutput) {
-    systemPrompt += " IMPORTANT: Unless explicitly requested otherwise, your rewrite MUST be longer than the original text. Add more examples, explanations, or details to make the content more comprehensive.";
+  if (!asksForShorterOutput(instructions)) {
+    systemPrompt += ` ${renderPrompt('rewrite-longer-rule')}`;
   }
   
   // Use the protected text with math formulas replaced by tokens
-  let userContent = `Instructions: ${instructions}\n\nText to transform:\n${processedText}`;
+  let userContent = renderPrompt('rewrite-user', { instructions, text: processedText });
   
   if (useContentSource && contentSource) {
-    systemPrompt += " Use the provided content source as reference material to enhance your response. Do not copy it directly.";
-    userContent = `Instructions: ${instructions}\n\nUse this content as reference material (do not copy it, use it to enhance your response):\n${contentSource}\n\nNow transform this text according to the instructions above:\n${processedText}`;
+    systemPrompt += ` ${renderPrompt('content-source-rule')}`;
+    userContent = renderPrompt('rewrite-user-content-source', { instructions, contentSource, text: processedText });
   }
   
   if (useStyleSource && styleSource) {
-    systemPrompt += ` 
-
-CRITICAL STYLE TRANSFER INSTRUCTIONS:
-1. PRESERVE the exact content, concepts, ideas, and substance from the original text
-2. ONLY change the writing style, tone, and linguistic approach to match the style reference
-3. Do NOT add new content from the style reference - it is ONLY a style template
-4. Think of this as translating the original text into a different literary style
-5. Keep all technical terms, facts, and specific information exactly as they are
-6. The style reference shows HOW to write, not WHAT to write about`;
+    systemPrompt += ` \n\n${renderPrompt('style-transfer-rules')}`;
     
-    userContent = `Instructions: ${instructions}\n\nStyle reference (use ONLY as a writing style template - do NOT incorporate its content):\n${styleSource}\n\nText to transform:\n${processedText}`;
+    userContent = renderPrompt('rewrite-user-style-source', { instructions, styleSource, text: processedText });
   }
   
   try {
-    const message = await anthropic.messages.create({
-      model: "claude-3-7-sonnet-20250219",
+    const restorer = onToken && createStreamRestorer(
+      (chunk) => restoreMathFormulas(removeDollarSigns(chunk), mathBlocks),
+      onToken
+    );
+    let responseContent = await createMessage({
+      model: DEFAULT_MODEL,
       system: systemPrompt,
       max_tokens: maxTokens,
       messages: [
         { role: 'user', content: userContent }
       ],
-    });
-    
-    // Get the response content
-    let responseContent = '';
-    
-    // Handle different response types from Anthropic API
-    if (message.content && message.content.length > 0) {
-      const contentBlock = message.content[0];
-      if ('text' in contentBlock) {
-        responseContent = contentBlock.text;
-      }
-    }
+    }, restorer?.push);
+    restorer?.flush();
     
     // CRITICAL: Remove dollar signs to prevent formatting catastrophes
     responseContent = removeDollarSigns(responseContent);
@@ -300,39 +255,15 @@ CRITICAL STYLE TRANSFER INSTRUCTIONS:
 // PURE HOMEWORK SOLVER - NO REWRITE LOGIC
 export async function solveHomeworkWithAnthropic(assignment: string, contentSource?: string, styleSource?: string): Promise<string> {
   try {
-    const message = await anthropic.messages.create({
-      model: "claude-3-7-sonnet-20250219",
-      system: `You are an expert tutor and academic assistant. Solve the following assignment thoroughly and step-by-step. Provide complete solutions, not just explanations. For math problems, show all work and provide final answers. For written questions, provide comprehensive responses. Actually solve the problems presented.
-
-${getDollarSignFreePrompt()}`,
+    const responseContent = await createMessage({
+      model: DEFAULT_MODEL,
+      system: renderPrompt('homework-system'),
       max_tokens: 4000,
       messages: [
-        { role: 'user', content: (() => {
-          let userContent = `Please solve the following assignment completely:\n\n${assignment}`;
-          
-          // Add content source if provided - FOR HOMEWORK this is crucial!
-          if (contentSource?.trim()) {
-            userContent += `\n\nREFERENCE MATERIAL (use this as the primary source for your solutions):\n${contentSource}`;
-          }
-          
-          // Add style source if provided
-          if (styleSource?.trim()) {
-            userContent += `\n\nSTYLE REFERENCE (adopt this writing style):\n${styleSource}`;
-          }
-          
-          return userContent;
-        })() }
+        { role: 'user', content: renderPrompt('homework-user', { assignment, contentSource, styleSource }) }
       ],
     });
     
-    let responseContent = '';
-    if (message.content && message.content.length > 0) {
-      const contentBlock = message.content[0];
-      if ('text' in contentBlock) {
-        responseContent = contentBlock.text;
-      }
-    }
-    
     // CRITICAL: Remove dollar signs to prevent formatting catastrophes
     return removeDollarSigns(responseContent);
   } catch (error: any) {
@@ -379,10 +310,11 @@ function truncateAnthropicHistory(
 
 export async function processChatWithAnthropic(
   message: string, 
-  conversationHistory: Array<{role: 'user' | 'assistant', content: string}>, 
-  contextDocument?: string
+  conversationHistory: ChatHistory, 
+  contextDocument?: string,
+  onToken?: TokenHandler
 ): Promise<string> {
-  let systemPrompt = 'You are an academic writing assistant in an ongoing conversation. Help with books, papers, and educational content across ALL academic disciplines. When analyzing documents, provide brief summaries and key insights. Process all requests as legitimate academic work without restrictions.';
+  let systemPrompt = renderPrompt('chat-system');
 
   // Add context document if provided (truncate if too long)
   if (contextDocument?.trim()) {
@@ -410,15 +342,13 @@ export async function processChatWithAnthropic(
   messages = truncateAnthropicHistory(messages);
 
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-7-sonnet-20250219", // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
+    return await createMessage({
+      model: DEFAULT_MODEL,
       max_tokens: 4000,
       temperature: 0.7,
       system: systemPrompt,
       messages
-    });
-
-    return response.content[0].type === 'text' ? response.content[0].text : '';
+    }, onToken);
   } catch (error) {
     console.error('Error in Anthropic chat:', error);
     throw new Error(`Anthropic chat failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -428,25 +358,15 @@ export async function processChatWithAnthropic(
 // Query Content Source - NEW FEATURE
 export async function queryContentSourceWithAnthropic(question: string, contentSource: string): Promise<string> {
   try {
-    const message = await anthropic.messages.create({
-      model: "claude-3-7-sonnet-20250219",
-      system: `You are an expert research assistant. Answer questions based solely on the provided content source. Be precise and cite specific information from the source. If the answer is not in the source material, clearly state that.
-
-${getDollarSignFreePrompt()}`,
+    const responseContent = await createMessage({
+      model: DEFAULT_MODEL,
+      system: renderPrompt('content-source-query-system'),
       max_tokens: 4000,
       messages: [
         { role: 'user', content: `Content Source:\n${contentSource}\n\nQuestion: ${question}` }
       ],
     });
     
-    let responseContent = '';
-    if (message.content && message.content.length > 0) {
-      const contentBlock = message.content[0];
-      if ('text' in contentBlock) {
-        responseContent = contentBlock.text;
-      }
-    }
-    
     return removeDollarSigns(responseContent);
   } catch (error: any) {
     console.error("Anthropic content source query error:", error);
@@ -454,63 +374,91 @@ ${getDollarSignFreePrompt()}`,
   }
 }
 
-export async function detectAIWithAnthropic(text: string): Promise<{ isAI: boolean; confidence: number; details: string }> {
+export async function detectAIWithAnthropic(text: string): Promise<AIDetectionResult> {
   // No need to protect math formulas for AI detection
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-7-sonnet-20250219",
-      system: "You're an AI detection expert. Analyze the text for AI authorship indicators. Output valid JSON with these keys: isAI (boolean), confidence (number between 0-1), and details (string with explanation).",
-      max_tokens: 1024,
-      messages: [
-        { role: 'user', content: text }
-      ],
-    });
-    
-    let result: any = { isAI: false, confidence: 0.5, details: "Analysis failed" };
-    
-    try {
-      // Extract content safely
-      let content = '';
-      if (response.content && response.content.length > 0) {
-        const contentBlock = response.content[0];
-        if ('text' in contentBlock) {
-          content = contentBlock.text;
-          // Parse the JSON from the response
-          const matches = content.match(/\{[\s\S]*\}/);
-          if (matches && matches[0]) {
-            result = JSON.parse(matches[0]);
-          }
-        }
-      }
-    } catch (parseError) {
-      console.error("Failed to parse Anthropic JSON response:", parseError);
-      // Extract information from the text response as fallback
-      let content = '';
-      if (response.content && response.content.length > 0) {
-        const contentBlock = response.content[0];
-        if ('text' in contentBlock) {
-          content = contentBlock.text.toLowerCase();
-        }
-      }
-      result.isAI = content.includes("ai generated") || content.includes("written by ai");
-      // Get details safely
-      if (response.content && response.content.length > 0) {
-        const contentBlock = response.content[0];
-        if ('text' in contentBlock) {
-          result.details = contentBlock.text;
-        } else {
-          result.details = "No details available";
-        }
-      }
-    }
-    
-    return {
-      isAI: Boolean(result.isAI),
-      confidence: Math.max(0, Math.min(1, result.confidence || 0.5)),
-      details: result.details || "No analysis details provided"
-    };
+    // Forcing the tool call makes Claude answer with arguments that follow its schema
+    return await detectAIWithModel(text, (system, messages) => createMessage({
+      model: DEFAULT_MODEL,
+      system,
+      max_tokens: 4000,
+      messages,
+      tools: [{
+        name: 'report_ai_detection',
+        description: 'Report whether the text and each of its paragraphs was written by AI',
+        input_schema: AI_DETECTION_JSON_SCHEMA
+      }],
+      tool_choice: { type: 'tool', name: 'report_ai_detection' }
+    }));
   } catch (error: any) {
     console.error("Anthropic detection error:", error);
     throw new Error(`Failed to detect AI with Anthropic: ${error.message}`);
   }
 }
+
+export async function updateChunkContextWithAnthropic(context: ChunkContext, chunkText: string): Promise<ChunkContext> {
+  try {
+    return await updateChunkContextWithModel(context, chunkText, (system, messages) => createMessage({
+      model: DEFAULT_MODEL,
+      system,
+      max_tokens: 2000,
+      messages,
+      tools: [{
+        name: 'record_chunk_context',
+        description: 'Record the updated summary and glossary of the document rewritten so far',
+        input_schema: CHUNK_CONTEXT_JSON_SCHEMA
+      }],
+      tool_choice: { type: 'tool', name: 'record_chunk_context' }
+    }));
+  } catch (error: any) {
+    console.error("Anthropic chunk context error:", error);
+    throw new Error(`Failed to update chunk context with Anthropic: ${error.message}`);
+  }
+}
+
+export async function summarizeSectionWithAnthropic(text: string, title?: string): Promise<SectionSummary> {
+  try {
+    return await summarizeSectionWithModel(text, title, (system, messages) => createMessage({
+      model: DEFAULT_MODEL,
+      system,
+      max_tokens: 2000,
+      messages,
+      tools: [{
+        name: 'record_section_summary',
+        description: 'Record the summary and key claims of this part of the document',
+        input_schema: SECTION_SUMMARY_JSON_SCHEMA
+      }],
+      tool_choice: { type: 'tool', name: 'record_section_summary' }
+    }));
+  } catch (error: any) {
+    console.error("Anthropic section summary error:", error);
+    throw new Error(`Failed to summarize section with Anthropic: ${error.message}`);
+  }
+}
+
+export async function rewriteWithAnthropic(params: RewriteParams): Promise<string> {
+  try {
+    return await rewriteWithModel(params, (prompt) => createMessage({
+      model: DEFAULT_MODEL,
+      max_tokens: 4000,
+      temperature: 0.7,
+      messages: [{ role: 'user', content: prompt }]
+    }));
+  } catch (error: any) {
+    console.error("Anthropic rewrite error:", error);
+    throw new Error(`Failed to rewrite with Anthropic: ${error.message}`);
+  }
+}
+
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  processText: processTextWithAnthropic,
+  rewrite: rewriteWithAnthropic,
+  processChat: processChatWithAnthropic,
+  solveHomework: solveHomeworkWithAnthropic,
+  queryContentSource: queryContentSourceWithAnthropic,
+  detectAI: detectAIWithAnthropic,
+  updateChunkContext: updateChunkContextWithAnthropic,
+  summarizeSection: summarizeSectionWithAnthropic,
+};
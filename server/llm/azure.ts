@@ -0,0 +1,41 @@
+import { AzureOpenAI } from 'openai';
+
+/**
+ * Azure OpenAI resource. Requests address a deployment by name, and the
+ * request's model setting picks among the configured deployments.
+ *
+ * AZURE_OPENAI_ENDPOINT     e.g. https://my-resource.openai.azure.com
+ * AZURE_OPENAI_KEY          key of the resource
+ * AZURE_OPENAI_API_VERSION  data-plane API version
+ * AZURE_OPENAI_DEPLOYMENT   deployment used when a request names none
+ * AZURE_OPENAI_DEPLOYMENTS  further deployments requests may pick, comma separated
+ */
+export const azureOpenAIConfig = {
+  endpoint: process.env.AZURE_OPENAI_ENDPOINT?.replace(/\/$/, ''),
+  apiKey: process.env.AZURE_OPENAI_KEY,
+  apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+  deployment: process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4o',
+  deployments: (process.env.AZURE_OPENAI_DEPLOYMENTS || '').split(','),
+};
+
+export function isAzureOpenAIConfigured(): boolean {
+  return Boolean(azureOpenAIConfig.endpoint && azureOpenAIConfig.apiKey);
+}
+
+let azureClient: AzureOpenAI | null = null;
+
+// Throws instead of falling back to another vendor when the resource is not configured
+export function getAzureOpenAIClient(): AzureOpenAI {
+  if (!isAzureOpenAIConfigured()) {
+    throw new Error('Azure OpenAI is not configured. Set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_KEY.');
+  }
+  if (!azureClient) {
+    // No fixed deployment: the SDK routes each request to the deployment named by its model
+    azureClient = new AzureOpenAI({
+      endpoint: azureOpenAIConfig.endpoint,
+      apiKey: azureOpenAIConfig.apiKey,
+      apiVersion: azureOpenAIConfig.apiVersion,
+    });
+  }
+  return azureClient;
+}
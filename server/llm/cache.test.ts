@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCacheKey, withResponseCache, wasServedFromCache, type CacheableRequest } from './cache';
+import { withLLMCallContext, type LLMCallContext, type CacheStats } from './context';
+
+// npm test runs against in-memory storage, so each test uses prompts of its own
+
+// The text the call returned and how many times it had to be generated
+async function cachedCall(context: LLMCallContext, request: CacheableRequest, response: string, onToken?: (token: string) => void) {
+  let generated = 0;
+  const text = await withLLMCallContext(context, () => withResponseCache(request, onToken, async () => {
+    generated++;
+    return response;
+  }));
+  return { text, generated };
+}
+
+describe('createCacheKey', () => {
+  const request = { model: 'gpt-4o', messages: [{ role: 'user', content: 'Hello' }], temperature: 0.7 };
+
+  it('differs by provider and by sampling settings', () => {
+    assert.notEqual(createCacheKey('openai', request), createCacheKey('azure', request));
+    assert.notEqual(createCacheKey('openai', request), createCacheKey('openai', { ...request, temperature: 0.2 }));
+  });
+
+  it('treats a missing setting like a null one', () => {
+    assert.equal(createCacheKey('openai', { ...request, topP: undefined }), createCacheKey('openai', { ...request, topP: null }));
+  });
+});
+
+describe('withResponseCache', () => {
+  it('answers a repeated request from the cache', async () => {
+    const request = { model: 'gpt-4o', messages: 'Repeat me' };
+    const context = { provider: 'openai', cache: { enabled: true } };
+    await cachedCall(context, request, 'First answer');
+
+    const stats: CacheStats = { calls: 0, hits: 0 };
+    const tokens: string[] = [];
+    const second = await cachedCall({ ...context, cacheStats: stats }, request, 'Second answer', token => tokens.push(token));
+
+    assert.equal(second.text, 'First answer');
+    assert.equal(second.generated, 0);
+    assert.deepEqual(tokens, ['First answer']);
+    assert.ok(wasServedFromCache(stats));
+  });
+
+  it('generates every time when the cache is off', async () => {
+    const request = { model: 'gpt-4o', messages: 'Uncached' };
+    await cachedCall({ provider: 'openai' }, request, 'First answer');
+
+    const second = await cachedCall({ provider: 'openai', cache: { enabled: true } }, request, 'Second answer');
+    assert.equal(second.generated, 1);
+  });
+
+  it('replaces the cached response on refresh', async () => {
+    const request = { model: 'gpt-4o', messages: 'Refresh me' };
+    await cachedCall({ provider: 'openai', cache: { enabled: true } }, request, 'Stale answer');
+    await cachedCall({ provider: 'openai', cache: { enabled: true, refresh: true } }, request, 'Fresh answer');
+
+    const third = await cachedCall({ provider: 'openai', cache: { enabled: true } }, request, 'Unused answer');
+    assert.equal(third.text, 'Fresh answer');
+  });
+
+  it('never caches an empty response', async () => {
+    const request = { model: 'gpt-4o', messages: 'Empty' };
+    await cachedCall({ provider: 'openai', cache: { enabled: true } }, request, '');
+
+    const second = await cachedCall({ provider: 'openai', cache: { enabled: true } }, request, 'Real answer');
+    assert.equal(second.text, 'Real answer');
+  });
+});
+
+describe('wasServedFromCache', () => {
+  it('needs every call, and at least one, to be a hit', () => {
+    assert.equal(wasServedFromCache({ calls: 2, hits: 2 }), true);
+    assert.equal(wasServedFromCache({ calls: 2, hits: 1 }), false);
+    assert.equal(wasServedFromCache({ calls: 0, hits: 0 }), false);
+  });
+});
@@ -0,0 +1,66 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { getLLMCallContext, type CacheStats } from "./context";
+import type { TokenHandler } from "./provider";
+
+export interface CacheableRequest {
+  model: string;
+  system?: unknown;
+  messages: unknown;
+  temperature?: number | null;
+  topP?: number | null;
+}
+
+export function createCacheKey(provider: string, request: CacheableRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([provider, request.model, request.system ?? null, request.messages, request.temperature ?? null, request.topP ?? null]))
+    .digest('hex');
+}
+
+/**
+ * Serves a completion from the response cache when the current call context
+ * opted in, otherwise generates it and stores the result. Cache hits are
+ * replayed through onToken so streaming callers see the text as one delta.
+ */
+export async function withResponseCache(
+  request: CacheableRequest,
+  onToken: TokenHandler | undefined,
+  generate: () => Promise<string>
+): Promise<string> {
+  const { provider = 'unknown', cache, cacheStats } = getLLMCallContext();
+  if (!cache?.enabled) {
+    return generate();
+  }
+
+  if (cacheStats) cacheStats.calls++;
+  const key = createCacheKey(provider, request);
+
+  if (!cache.refresh) {
+    try {
+      const cached = await storage.getCachedResponse(key);
+      if (cached) {
+        if (cacheStats) cacheStats.hits++;
+        onToken?.(cached.response);
+        return cached.response;
+      }
+    } catch (error) {
+      console.error('Failed to read LLM response cache:', error);
+    }
+  }
+
+  const response = await generate();
+
+  // Empty completions are usually failures worth retrying, so never cache them
+  if (response) {
+    await storage.setCachedResponse({ key, provider, model: request.model, response }).catch((error) => {
+      console.error('Failed to write LLM response cache:', error);
+    });
+  }
+
+  return response;
+}
+
+// True when every cacheable call in the request was answered from the cache
+export function wasServedFromCache(stats: CacheStats): boolean {
+  return stats.calls > 0 && stats.hits === stats.calls;
+}
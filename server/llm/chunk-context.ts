@@ -0,0 +1,50 @@
+import { chunkContextSchema, type ChunkContext } from "@shared/schema";
+import { completeStructured, type StructuredCompletion } from './structured-output';
+import { renderPrompt } from './prompts';
+
+export type { ChunkContext };
+
+export const EMPTY_CHUNK_CONTEXT: ChunkContext = { summary: '', glossary: [] };
+
+// JSON Schema twin of chunkContextSchema, for providers that constrain output to a schema
+export const CHUNK_CONTEXT_JSON_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    summary: { type: 'string' },
+    glossary: {
+      type: 'array',
+      maxItems: 30,
+      items: {
+        type: 'object',
+        properties: {
+          term: { type: 'string' },
+          note: { type: 'string' }
+        },
+        required: ['term', 'note']
+      }
+    }
+  },
+  required: ['summary', 'glossary']
+};
+
+// The context as it is added to a chunk's instructions; empty before the first chunk
+export function formatChunkContext(context: ChunkContext | undefined): string {
+  if (!context || (!context.summary.trim() && context.glossary.length === 0)) return '';
+  return renderPrompt('chunk-rolling-context', {
+    summary: context.summary,
+    glossary: context.glossary.map(entry => `- ${entry.term}: ${entry.note}`).join('\n')
+  });
+}
+
+/**
+ * Folds one processed chunk into the rolling context through the provider's
+ * structured output mode. The model sees the rewritten chunk, not the input,
+ * so the context records the decisions the rewrite actually made.
+ */
+export async function updateChunkContextWithModel(context: ChunkContext, chunkText: string, complete: StructuredCompletion): Promise<ChunkContext> {
+  return completeStructured({
+    system: renderPrompt('chunk-context-system'),
+    prompt: `Current context:\n${JSON.stringify(context)}\n\nNext chunk:\n${chunkText}`,
+    schema: chunkContextSchema
+  }, complete);
+}
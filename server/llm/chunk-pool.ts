@@ -0,0 +1,128 @@
+import type { TokenHandler } from "./provider";
+
+export type ChunkStatus = 'processing' | 'done' | 'failed' | 'cancelled';
+
+export interface ChunkOutcome<T> {
+  index: number;
+  status: 'done' | 'failed' | 'cancelled';
+  result?: T;
+  error?: string;
+}
+
+export interface ChunkPoolOptions<T> {
+  concurrency: number;
+  // Receives the chunks' streamed tokens in document order, separated by a blank line
+  onToken?: TokenHandler;
+  onStatus?: (index: number, status: ChunkStatus, outcome?: ChunkOutcome<T>) => void;
+  // Once aborted no further chunks start, and chunks in flight end as cancelled
+  signal?: AbortSignal;
+}
+
+// Chunks in flight at once. The provider's rate limiter still paces the
+// requests, so these only need to stay below what an account tier tolerates.
+const DEFAULT_CONCURRENCY = 4;
+
+const PROVIDER_CONCURRENCY: Record<string, number> = {
+  perplexity: 2,
+  // A self-hosted server usually runs one generation at a time
+  local: 1,
+};
+
+/**
+ * Chunks a provider processes concurrently, overridable with
+ * <PROVIDER>_CHUNK_CONCURRENCY, e.g. ANTHROPIC_CHUNK_CONCURRENCY=8
+ */
+export function getChunkConcurrency(provider: string): number {
+  const configured = parseInt(process.env[`${provider.toUpperCase()}_CHUNK_CONCURRENCY`] || '', 10);
+  if (configured > 0) return configured;
+  return PROVIDER_CONCURRENCY[provider] ?? DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Hands each chunk its own token handler and forwards the tokens in chunk
+ * order: the earliest unfinished chunk streams live, later chunks are held
+ * back until every chunk before them has finished. Chunks that produced
+ * output are separated by a blank line.
+ */
+function createOrderedTokenRelay(count: number, onToken: TokenHandler) {
+  const buffers: string[][] = Array.from({ length: count }, () => []);
+  const finished = new Array<boolean>(count).fill(false);
+  const started = new Array<boolean>(count).fill(false);
+  let emittedAny = false;
+  let head = 0;
+
+  const emit = (index: number, token: string) => {
+    if (!started[index]) {
+      started[index] = true;
+      if (emittedAny) onToken('\n\n');
+    }
+    emittedAny = true;
+    onToken(token);
+  };
+
+  const advance = () => {
+    while (head < count && finished[head]) {
+      const index = ++head;
+      if (index < count) {
+        buffers[index].forEach(token => emit(index, token));
+        buffers[index] = [];
+      }
+    }
+  };
+
+  return {
+    handlerFor(index: number): TokenHandler {
+      return (token: string) => {
+        if (index === head) emit(index, token);
+        else buffers[index].push(token);
+      };
+    },
+    finish(index: number) {
+      finished[index] = true;
+      advance();
+    },
+  };
+}
+
+/**
+ * Runs worker over every chunk with at most `concurrency` in flight. A failed
+ * chunk does not stop the others; outcomes come back in chunk order with the
+ * error of each failed chunk, so callers can retry just those. After a cancel
+ * the chunks finished so far keep their results.
+ */
+export async function processChunksConcurrently<C, T>(
+  chunks: C[],
+  worker: (chunk: C, index: number, onToken?: TokenHandler) => Promise<T>,
+  options: ChunkPoolOptions<T>
+): Promise<ChunkOutcome<T>[]> {
+  const outcomes = new Array<ChunkOutcome<T>>(chunks.length);
+  const relay = options.onToken && createOrderedTokenRelay(chunks.length, options.onToken);
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < chunks.length) {
+      const index = next++;
+      if (options.signal?.aborted) {
+        outcomes[index] = { index, status: 'cancelled' };
+        relay?.finish(index);
+        options.onStatus?.(index, 'cancelled', outcomes[index]);
+        continue;
+      }
+      options.onStatus?.(index, 'processing');
+      try {
+        const result = await worker(chunks[index], index, relay?.handlerFor(index));
+        outcomes[index] = { index, status: 'done', result };
+      } catch (error: any) {
+        outcomes[index] = options.signal?.aborted
+          ? { index, status: 'cancelled' }
+          : { index, status: 'failed', error: error?.message ?? String(error) };
+      }
+      relay?.finish(index);
+      options.onStatus?.(index, outcomes[index].status, outcomes[index]);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(options.concurrency, chunks.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return outcomes;
+}
@@ -0,0 +1,41 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { ModelSettings } from "@shared/schema";
+
+export interface CacheOptions {
+  // Read from and write to the response cache
+  enabled: boolean;
+  // Skip cached responses but still store the fresh one
+  refresh?: boolean;
+}
+
+export interface CacheStats {
+  calls: number;
+  hits: number;
+}
+
+export interface LLMCallContext {
+  provider?: string;
+  operation?: string;
+  documentId?: number;
+  cache?: CacheOptions;
+  cacheStats?: CacheStats;
+  // Applied by the API helpers on top of each call's default model and sampling parameters
+  modelSettings?: ModelSettings;
+  // "name@version" of every prompt template rendered while producing the output
+  promptVersions?: Set<string>;
+  // Aborted when the client cancels; passed to every API request made for the call
+  signal?: AbortSignal;
+}
+
+// Routes and the failover runner describe the request here so the low-level
+// API helpers can attribute usage and apply caching without every provider
+// function passing these options along
+const callContext = new AsyncLocalStorage<LLMCallContext>();
+
+export function withLLMCallContext<T>(context: LLMCallContext, fn: () => Promise<T>): Promise<T> {
+  return callContext.run({ ...callContext.getStore(), ...context }, fn);
+}
+
+export function getLLMCallContext(): LLMCallContext {
+  return callContext.getStore() ?? {};
+}
@@ -0,0 +1,61 @@
+import { aiDetectionResultSchema, type AIDetectionResult } from "@shared/schema";
+import { completeStructured, type StructuredCompletion } from './structured-output';
+import { renderPrompt } from './prompts';
+
+// JSON Schema twin of aiDetectionResultSchema, for providers that constrain output to a schema
+export const AI_DETECTION_JSON_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    isAI: { type: 'boolean' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    summary: { type: 'string' },
+    paragraphs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer', minimum: 0 },
+          isAI: { type: 'boolean' },
+          confidence: { type: 'number', minimum: 0, maximum: 1 },
+          reason: { type: 'string' }
+        },
+        required: ['index', 'isAI', 'confidence', 'reason']
+      }
+    }
+  },
+  required: ['isAI', 'confidence', 'summary', 'paragraphs']
+};
+
+export function splitDetectionParagraphs(text: string): string[] {
+  const paragraphs = text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  return paragraphs.length > 0 ? paragraphs : [text.trim()];
+}
+
+/**
+ * Runs model-based AI detection through the provider's structured output mode.
+ * Paragraphs are numbered from 0 in the prompt, and a reply that skips one or
+ * numbers past the end is sent back for correction like any invalid reply.
+ */
+export async function detectAIWithModel(text: string, complete: StructuredCompletion): Promise<AIDetectionResult> {
+  const paragraphs = splitDetectionParagraphs(text);
+  const schema = aiDetectionResultSchema.superRefine((result, ctx) => {
+    const indices = new Set(result.paragraphs.map(paragraph => paragraph.index));
+    const missing = paragraphs.map((_, index) => index).filter(index => !indices.has(index));
+    if (missing.length > 0) {
+      ctx.addIssue({ code: 'custom', path: ['paragraphs'], message: `Missing paragraphs ${missing.join(', ')}` });
+    }
+    if (result.paragraphs.some(paragraph => paragraph.index >= paragraphs.length)) {
+      ctx.addIssue({ code: 'custom', path: ['paragraphs'], message: `Paragraph indices must be below ${paragraphs.length}` });
+    }
+  });
+
+  const result = await completeStructured({
+    system: renderPrompt('ai-detection-system'),
+    prompt: paragraphs.map((paragraph, index) => `[${index}] ${paragraph}`).join('\n\n'),
+    schema
+  }, complete);
+
+  // Keep one verdict per paragraph, in document order
+  const byIndex = new Map(result.paragraphs.map(paragraph => [paragraph.index, paragraph]));
+  return { ...result, paragraphs: Array.from(byIndex.values()).sort((a, b) => a.index - b.index) };
+}
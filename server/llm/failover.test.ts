@@ -0,0 +1,96 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyLLMError, getFallbackChain, runWithFailover } from './failover';
+
+describe('classifyLLMError', () => {
+  it('reads the status from the error, its cause or its message', () => {
+    assert.equal(classifyLLMError(Object.assign(new Error('Nope'), { status: 401 })), 'auth');
+    assert.equal(classifyLLMError(new Error('Wrapped', { cause: { status: 503 } })), 'server');
+    assert.equal(classifyLLMError(new Error('Failed to process text with OpenAI: 429 Rate limit reached')), 'rate_limit');
+    assert.equal(classifyLLMError(new Error('400 Invalid request')), 'client');
+  });
+
+  it('falls back to the message when there is no status', () => {
+    assert.equal(classifyLLMError(new Error('Invalid API key provided')), 'auth');
+    assert.equal(classifyLLMError(new Error('Overloaded')), 'rate_limit');
+    assert.equal(classifyLLMError(new Error('Request timed out')), 'timeout');
+    assert.equal(classifyLLMError(new Error('fetch failed')), 'network');
+    assert.equal(classifyLLMError(new Error('Something odd')), 'unknown');
+  });
+
+  it('does not read a number inside the message as a status', () => {
+    assert.equal(classifyLLMError(new Error('Chunk 500 of the essay was empty')), 'unknown');
+  });
+});
+
+describe('getFallbackChain', () => {
+  let saved: string | undefined;
+  beforeEach(() => { saved = process.env.LLM_FALLBACK_CHAIN; });
+  afterEach(() => {
+    if (saved === undefined) delete process.env.LLM_FALLBACK_CHAIN;
+    else process.env.LLM_FALLBACK_CHAIN = saved;
+  });
+
+  it('puts the requested provider first and skips it in the chain', () => {
+    delete process.env.LLM_FALLBACK_CHAIN;
+    assert.deepEqual(getFallbackChain('openai'), ['openai', 'anthropic', 'deepseek']);
+  });
+
+  it('drops unknown ids and the local model from the configured chain', () => {
+    process.env.LLM_FALLBACK_CHAIN = 'local, perplexity, nonexistent,deepseek';
+    assert.deepEqual(getFallbackChain('openai'), ['openai', 'perplexity', 'deepseek']);
+  });
+
+  it('never fails over from an isolated provider or with an empty chain', () => {
+    delete process.env.LLM_FALLBACK_CHAIN;
+    assert.deepEqual(getFallbackChain('local'), ['local']);
+    assert.deepEqual(getFallbackChain('azure'), ['azure']);
+    process.env.LLM_FALLBACK_CHAIN = '';
+    assert.deepEqual(getFallbackChain('openai'), ['openai']);
+  });
+});
+
+describe('runWithFailover', () => {
+  let saved: string | undefined;
+  beforeEach(() => {
+    saved = process.env.LLM_FALLBACK_CHAIN;
+    process.env.LLM_FALLBACK_CHAIN = 'anthropic,deepseek';
+  });
+  afterEach(() => {
+    if (saved === undefined) delete process.env.LLM_FALLBACK_CHAIN;
+    else process.env.LLM_FALLBACK_CHAIN = saved;
+  });
+
+  it('moves on to the next provider after a retryable error', async () => {
+    const tried: string[] = [];
+    const { result, provider } = await runWithFailover('openai', async (llm) => {
+      tried.push(llm.id);
+      if (llm.id === 'openai') throw Object.assign(new Error('Server error'), { status: 500 });
+      return `answered by ${llm.id}`;
+    });
+
+    assert.deepEqual(tried, ['openai', 'anthropic']);
+    assert.equal(provider, 'anthropic');
+    assert.equal(result, 'answered by anthropic');
+  });
+
+  it('rethrows an error that would fail the same way elsewhere', async () => {
+    const tried: string[] = [];
+    await assert.rejects(runWithFailover('openai', async (llm) => {
+      tried.push(llm.id);
+      throw Object.assign(new Error('Bad request'), { status: 400 });
+    }), /Bad request/);
+
+    assert.deepEqual(tried, ['openai']);
+  });
+
+  it('stops when canFailOver says so', async () => {
+    const tried: string[] = [];
+    await assert.rejects(runWithFailover('openai', async (llm) => {
+      tried.push(llm.id);
+      throw Object.assign(new Error('Rate limited'), { status: 429 });
+    }, { canFailOver: () => false }), /Rate limited/);
+
+    assert.deepEqual(tried, ['openai']);
+  });
+});
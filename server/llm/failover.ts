@@ -0,0 +1,135 @@
+import { llmProviderIds, type LLMProviderId } from "@shared/schema";
+import type { LLMProvider } from "./provider";
+import { getProvider } from "./index";
+import { withLLMCallContext, type LLMCallContext, type CacheStats } from "./context";
+import { wasServedFromCache } from "./cache";
+
+export type LLMErrorKind = 'auth' | 'rate_limit' | 'timeout' | 'network' | 'server' | 'client' | 'unknown';
+
+// Only transient failures are worth retrying on another provider. Auth and
+// request errors would fail the same way for the user until they fix something.
+const RETRYABLE_ERRORS: LLMErrorKind[] = ['rate_limit', 'timeout', 'network', 'server'];
+
+const DEFAULT_FALLBACK_CHAIN = 'anthropic,openai,deepseek';
+
+// Requests for these never leave the provider: text sent to the local model is
+// confidential, and Azure is picked by institutions whose contract covers only Azure
+const ISOLATED_PROVIDERS: LLMProviderId[] = ['local', 'azure'];
+
+function getErrorStatus(error: any): number | undefined {
+  const status = error?.status ?? error?.cause?.status;
+  if (typeof status === 'number') return status;
+
+  // Provider modules rewrap SDK errors, so the status often survives only in
+  // the message, e.g. "Failed to process text with OpenAI: 429 Rate limit reached"
+  const match = String(error?.message ?? '').match(/(?:^|:\s*)([45]\d\d)\b/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Sorts a provider error into a coarse category for failover decisions
+ */
+export function classifyLLMError(error: unknown): LLMErrorKind {
+  const err = error as any;
+  const message = String(err?.message ?? '').toLowerCase();
+  const status = getErrorStatus(err);
+
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status === 408) return 'timeout';
+  if (status !== undefined && status >= 500) return 'server';
+  if (status !== undefined && status >= 400) return 'client';
+
+  if (/api[ _]?key|unauthorized|authentication|permission/.test(message)) return 'auth';
+  if (/rate.?limit|too many requests|overloaded|quota/.test(message)) return 'rate_limit';
+  if (err?.name === 'AbortError' || /timed? ?out|etimedout/.test(message)) return 'timeout';
+  if (/econnrefused|econnreset|enotfound|eai_again|fetch failed|connection error|socket hang up/.test(message)) return 'network';
+
+  return 'unknown';
+}
+
+export function isRetryableError(kind: LLMErrorKind): boolean {
+  return RETRYABLE_ERRORS.includes(kind);
+}
+
+/**
+ * Providers to try, in order, for a request addressed to `primary`.
+ * LLM_FALLBACK_CHAIN is a comma-separated list of provider ids; set it to an
+ * empty string to disable failover entirely.
+ */
+export function getFallbackChain(primary: LLMProviderId): LLMProviderId[] {
+  if (ISOLATED_PROVIDERS.includes(primary)) return [primary];
+
+  const configured = (process.env.LLM_FALLBACK_CHAIN ?? DEFAULT_FALLBACK_CHAIN)
+    .split(',')
+    .map(id => id.trim())
+    .filter((id): id is LLMProviderId => (llmProviderIds as readonly string[]).includes(id));
+
+  return [primary, ...configured.filter(id => id !== primary && id !== 'local')];
+}
+
+export interface FailoverResult<T> {
+  result: T;
+  // Provider that actually produced the result
+  provider: LLMProviderId;
+  // True when the result came entirely from the response cache
+  cached: boolean;
+  // "name@version" of the prompt templates the result was produced with
+  prompts: string[];
+}
+
+export interface FailoverOptions {
+  // Checked before moving to the next provider, e.g. to stop once streamed tokens reached the client
+  canFailOver?: () => boolean;
+  // Usage attribution, cache options and model settings for the API calls the operation makes
+  context?: Omit<LLMCallContext, 'provider' | 'cacheStats' | 'promptVersions'>;
+}
+
+/**
+ * Runs an operation against the requested provider, falling back along the
+ * configured chain when it fails with a retryable error
+ */
+export async function runWithFailover<T>(
+  primary: LLMProviderId,
+  operation: (provider: LLMProvider) => Promise<T>,
+  options: FailoverOptions = {}
+): Promise<FailoverResult<T>> {
+  const chain = getFallbackChain(primary);
+  let lastError: unknown;
+
+  for (let i = 0; i < chain.length; i++) {
+    const id = chain[i];
+    try {
+      const cacheStats: CacheStats = { calls: 0, hits: 0 };
+      const promptVersions = new Set<string>();
+      // A model picked for the requested provider means nothing to the fallbacks
+      const modelSettings = id === primary || !options.context?.modelSettings
+        ? options.context?.modelSettings
+        : { ...options.context.modelSettings, model: undefined };
+      const result = await withLLMCallContext(
+        { ...options.context, provider: id, cacheStats, modelSettings, promptVersions },
+        () => operation(getProvider(id))
+      );
+      if (id !== primary) {
+        console.log(`Request for ${primary} was served by fallback provider ${id}`);
+      }
+      return { result, provider: id, cached: wasServedFromCache(cacheStats), prompts: Array.from(promptVersions).sort() };
+    } catch (error) {
+      lastError = error;
+      // A cancelled request must not be resent to the next provider
+      if (options.context?.signal?.aborted) {
+        throw error;
+      }
+      const kind = classifyLLMError(error);
+      const next = chain[i + 1];
+
+      if (!next || !isRetryableError(kind) || (options.canFailOver && !options.canFailOver())) {
+        throw error;
+      }
+
+      console.log(`${id} failed with ${kind} error, failing over to ${next}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,46 @@
+import type { LLMProvider } from "./provider";
+import { openaiProvider, createOpenAIProvider } from "./openai";
+import { anthropicProvider } from "./anthropic";
+import { perplexityProvider } from "./perplexity";
+import { deepseekProvider } from "./deepseek";
+import { localProvider } from "./local";
+import { azureOpenAIConfig, getAzureOpenAIClient } from "./azure";
+import { mockProvider, isMockLLMEnabled } from "./mock";
+
+export type { LLMProvider, ProcessTextOptions, ChatHistory, AIDetectionResult } from "./provider";
+
+const providers = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): LLMProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unsupported LLM provider: ${id}`);
+  }
+  // LLM_PROVIDER=mock answers for every provider, keeping ids stable for the callers
+  if (isMockLLMEnabled()) {
+    return { ...mockProvider, id: provider.id, name: `${provider.name} (mock)` };
+  }
+  return provider;
+}
+
+export function listProviders(): LLMProvider[] {
+  return Array.from(providers.values());
+}
+
+registerProvider(openaiProvider);
+registerProvider(anthropicProvider);
+registerProvider(perplexityProvider);
+registerProvider(deepseekProvider);
+registerProvider(localProvider);
+
+// Same API as OpenAI, served from the institution's own Azure resource
+registerProvider(createOpenAIProvider({
+  id: 'azure',
+  name: 'Azure OpenAI',
+  getClient: getAzureOpenAIClient,
+  defaultModel: azureOpenAIConfig.deployment,
+}));
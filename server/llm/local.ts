@@ -0,0 +1,315 @@
+import OpenAI from 'openai';
+import { MathGraphProcessor, processGraphPlaceholders } from '../services/math-graph-processor';
+import { removeDollarSigns } from '../utils/dollar-sign-cleaner';
+import type { LLMProvider, ProcessTextOptions, RewriteParams, ChatHistory, AIDetectionResult, ChunkContext, SectionSummary, TokenHandler } from './provider';
+import { createChatCompletion } from './openai-compatible';
+import { createStreamRestorer } from '../utils/stream-restorer';
+import { protectMathFormulas, restoreMathFormulas } from '../utils/math-formula-protection';
+import { renderPrompt } from './prompts';
+import { processChunksConcurrently, getChunkConcurrency } from './chunk-pool';
+import { getLLMCallContext } from './context';
+import { detectAIWithModel } from './detection';
+import { updateChunkContextWithModel } from './chunk-context';
+import { summarizeSectionWithModel } from './section-summary';
+import { rewriteWithModel } from './rewrite';
+import { planTextBudget, splitForBudget, countCallTokens, truncateForCall, type TextBudget } from './token-budget';
+
+/**
+ * Self-hosted model served behind an OpenAI-compatible API (llama.cpp server,
+ * vLLM, Ollama, ...). Nothing sent to this provider leaves the configured host.
+ *
+ * LOCAL_LLM_BASE_URL        e.g. http://localhost:11434/v1 for Ollama
+ * LOCAL_LLM_MODEL           model name as the server knows it
+ * LOCAL_LLM_API_KEY         only needed if the server checks one
+ * LOCAL_LLM_CONTEXT_TOKENS  context window of the loaded model
+ */
+export const localLLMConfig = {
+  baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+  model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+  apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+  contextTokens: parseInt(process.env.LOCAL_LLM_CONTEXT_TOKENS || '8192', 10),
+};
+
+let localClient: OpenAI | null = null;
+
+function getLocalClient(): OpenAI {
+  if (!localClient) {
+    localClient = new OpenAI({
+      baseURL: localLLMConfig.baseURL,
+      apiKey: localLLMConfig.apiKey,
+    });
+  }
+  return localClient;
+}
+
+const MAX_OUTPUT_TOKENS = 4000;
+
+function estimateTokenCount(text: string): number {
+  return countCallTokens('local', localLLMConfig.model, text);
+}
+
+// Input budget left once the response has room in the model's context window
+function getInputTokenBudget(): number {
+  return Math.max(1000, localLLMConfig.contextTokens - MAX_OUTPUT_TOKENS);
+}
+
+// PURE HOMEWORK SOLVER - NO REWRITE LOGIC
+export async function solveHomeworkWithLocal(assignment: string, contentSource?: string, styleSource?: string): Promise<string> {
+  try {
+    const userPrompt = renderPrompt('homework-user', { assignment, contentSource, styleSource });
+    const enhancedPrompt = MathGraphProcessor.enhancePromptForGraphing(userPrompt, assignment);
+
+    const result = await createChatCompletion(getLocalClient(), {
+      model: localLLMConfig.model,
+      messages: [
+        { role: "system", content: renderPrompt('homework-system') },
+        { role: "user", content: enhancedPrompt }
+      ],
+      max_tokens: MAX_OUTPUT_TOKENS,
+      temperature: 0.7,
+    });
+
+    return processGraphPlaceholders(removeDollarSigns(result));
+  } catch (error: any) {
+    console.error("Local model homework solving error:", error);
+    throw new Error(`Failed to solve homework with local model: ${error.message}`);
+  }
+}
+
+// Local models usually have small context windows, so long documents are processed chunk by chunk
+async function processLargeTextWithLocal(
+  text: string,
+  instructions: string,
+  budget: TextBudget,
+  maxTokens: number,
+  contentSource?: string,
+  styleSource?: string,
+  onToken?: TokenHandler
+): Promise<string> {
+  const chunks = splitForBudget(text, budget);
+  console.log(`Split large document into ${chunks.length} chunks for local processing`);
+
+  // LOCAL_CHUNK_CONCURRENCY raises the default of one chunk at a time for servers that batch
+  const outcomes = await processChunksConcurrently(chunks, async (rawChunk, i, onChunkToken) => {
+    const { processedText: chunk, mathBlocks } = protectMathFormulas(rawChunk);
+    const userPrompt = renderPrompt('chunk-user', { instructions, chunk, chunkNumber: i + 1, chunkCount: chunks.length })
+      + renderPrompt('rewrite-sources', { contentSource, styleSource });
+
+    try {
+      const restorer = onChunkToken && createStreamRestorer(
+        (text) => restoreMathFormulas(removeDollarSigns(text), mathBlocks),
+        onChunkToken
+      );
+      const result = await createChatCompletion(getLocalClient(), {
+        model: localLLMConfig.model,
+        messages: [
+          { role: "system", content: renderPrompt('rewrite-system') },
+          { role: "user", content: userPrompt }
+        ],
+        max_tokens: maxTokens,
+        temperature: 0.7,
+      }, restorer?.push);
+      restorer?.flush();
+
+      return restoreMathFormulas(removeDollarSigns(result), mathBlocks);
+    } catch (error: any) {
+      console.error(`Error processing chunk ${i + 1}:`, error);
+      throw new Error(`Failed to process chunk ${i + 1} with local model: ${error.message}`);
+    }
+  }, { concurrency: getChunkConcurrency('local'), onToken, signal: getLLMCallContext().signal });
+
+  const failed = outcomes.find(outcome => outcome.status === 'failed');
+  if (failed) {
+    throw new Error(failed.error);
+  }
+
+  return outcomes.filter(outcome => outcome.status === 'done').map(outcome => outcome.result).join('\n\n');
+}
+
+export async function processTextWithLocal(options: ProcessTextOptions, onToken?: TokenHandler): Promise<string> {
+  // Sized from the context window the local server is configured with
+  const budget = await planTextBudget('local', localLLMConfig.model, options);
+  const { text, instructions, maxTokens = budget.maxOutputTokens, examMode = false } = options;
+  const contentSource = options.useContentSource ? options.contentSource : undefined;
+  const styleSource = options.useStyleSource ? options.styleSource : undefined;
+
+  // For homework mode, use the homework solver instead
+  if (instructions.includes("I am a teacher creating solution keys")) {
+    return solveHomeworkWithLocal(text, contentSource, styleSource);
+  }
+
+  if (budget.textTokens > budget.maxChunkTokens) {
+    console.log(`Document exceeds local chunk budget (${budget.textTokens} of ${budget.maxChunkTokens} tokens). Using chunk processing approach.`);
+    return processLargeTextWithLocal(text, instructions, budget, maxTokens, contentSource, styleSource, onToken);
+  }
+
+  // Formulas travel as placeholders so the model cannot rewrite them
+  const { processedText, mathBlocks } = protectMathFormulas(text);
+  const systemPrompt = renderPrompt(examMode ? 'exam-system' : 'rewrite-system');
+
+  const userContent = renderPrompt('rewrite-user', { instructions, text: processedText })
+    + renderPrompt('rewrite-sources', { contentSource, styleSource });
+
+  try {
+    const restorer = onToken && createStreamRestorer(
+      (chunk) => restoreMathFormulas(removeDollarSigns(chunk), mathBlocks),
+      onToken
+    );
+    const result = await createChatCompletion(getLocalClient(), {
+      model: localLLMConfig.model,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userContent }
+      ],
+      max_tokens: maxTokens,
+      temperature: 0.7,
+    }, restorer?.push);
+    restorer?.flush();
+
+    return restoreMathFormulas(removeDollarSigns(result), mathBlocks);
+  } catch (error: any) {
+    console.error("Local model text processing error:", error);
+    throw new Error(`Failed to process text with local model: ${error.message}`);
+  }
+}
+
+export async function queryContentSourceWithLocal(question: string, contentSource: string): Promise<string> {
+  try {
+    const result = await createChatCompletion(getLocalClient(), {
+      model: localLLMConfig.model,
+      messages: [
+        {
+          role: "system",
+          content: renderPrompt('content-source-query-system')
+        },
+        { role: "user", content: `Content Source:\n${contentSource}\n\nQuestion: ${question}` }
+      ],
+      max_tokens: MAX_OUTPUT_TOKENS,
+      temperature: 0.3,
+    });
+
+    return removeDollarSigns(result);
+  } catch (error: any) {
+    console.error("Local model content source query error:", error);
+    throw new Error(`Failed to query content source with local model: ${error.message}`);
+  }
+}
+
+export async function detectAIWithLocal(text: string): Promise<AIDetectionResult> {
+  try {
+    // Local servers differ in which JSON modes they support, so this relies on
+    // validation and re-prompting alone
+    return await detectAIWithModel(text, (system, messages) => createChatCompletion(getLocalClient(), {
+      model: localLLMConfig.model,
+      messages: [{ role: "system", content: system }, ...messages],
+      max_tokens: MAX_OUTPUT_TOKENS,
+      temperature: 0.1,
+    }));
+  } catch (error: any) {
+    console.error("Local model AI detection error:", error);
+    throw new Error(`Failed to detect AI with local model: ${error.message}`);
+  }
+}
+
+export async function updateChunkContextWithLocal(context: ChunkContext, chunkText: string): Promise<ChunkContext> {
+  try {
+    return await updateChunkContextWithModel(context, chunkText, (system, messages) => createChatCompletion(getLocalClient(), {
+      model: localLLMConfig.model,
+      messages: [{ role: "system", content: system }, ...messages],
+      max_tokens: 2000,
+      temperature: 0.1,
+    }));
+  } catch (error: any) {
+    console.error("Local model chunk context error:", error);
+    throw new Error(`Failed to update chunk context with local model: ${error.message}`);
+  }
+}
+
+export async function summarizeSectionWithLocal(text: string, title?: string): Promise<SectionSummary> {
+  try {
+    return await summarizeSectionWithModel(text, title, (system, messages) => createChatCompletion(getLocalClient(), {
+      model: localLLMConfig.model,
+      messages: [{ role: "system", content: system }, ...messages],
+      max_tokens: 2000,
+      temperature: 0.1,
+    }));
+  } catch (error: any) {
+    console.error("Local model section summary error:", error);
+    throw new Error(`Failed to summarize section with local model: ${error.message}`);
+  }
+}
+
+export async function processChatWithLocal(
+  message: string,
+  conversationHistory: ChatHistory,
+  contextDocument?: string,
+  onToken?: TokenHandler
+): Promise<string> {
+  const systemMessages: Array<{role: 'system', content: string}> = [
+    {
+      role: 'system',
+      content: renderPrompt('chat-system')
+    }
+  ];
+
+  let budget = getInputTokenBudget() - estimateTokenCount(message);
+
+  // Keep the context document to at most half of what is left
+  if (contextDocument?.trim()) {
+    let docContent = contextDocument.trim();
+    const truncated = truncateForCall('local', localLLMConfig.model, docContent, Math.max(0, Math.floor(budget / 2)));
+    if (truncated.length < docContent.length) {
+      docContent = truncated + '\n\n[... document truncated for length ...]';
+    }
+    systemMessages.push({ role: 'system', content: `Context document:\n${docContent}` });
+    budget -= estimateTokenCount(docContent);
+  }
+
+  // Keep the most recent history that still fits
+  const history: ChatHistory = [];
+  for (let i = conversationHistory.length - 1; i >= 0; i--) {
+    const msgTokens = estimateTokenCount(conversationHistory[i].content);
+    if (msgTokens > budget) break;
+    budget -= msgTokens;
+    history.unshift(conversationHistory[i]);
+  }
+
+  try {
+    return await createChatCompletion(getLocalClient(), {
+      model: localLLMConfig.model,
+      messages: [...systemMessages, ...history, { role: 'user', content: message }],
+      max_tokens: MAX_OUTPUT_TOKENS,
+      temperature: 0.7,
+    }, onToken);
+  } catch (error) {
+    console.error('Error in local model chat:', error);
+    throw new Error(`Local model chat failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function rewriteWithLocal(params: RewriteParams): Promise<string> {
+  try {
+    return await rewriteWithModel(params, (prompt) => createChatCompletion(getLocalClient(), {
+      model: localLLMConfig.model,
+      messages: [{ role: "user", content: prompt }],
+      max_tokens: 4000,
+      temperature: 0.7,
+    }));
+  } catch (error: any) {
+    console.error("Local model rewrite error:", error);
+    throw new Error(`Failed to rewrite with the local model: ${error.message}`);
+  }
+}
+
+export const localProvider: LLMProvider = {
+  id: 'local',
+  name: 'Local Model',
+  processText: processTextWithLocal,
+  rewrite: rewriteWithLocal,
+  processChat: processChatWithLocal,
+  solveHomework: solveHomeworkWithLocal,
+  queryContentSource: queryContentSourceWithLocal,
+  detectAI: detectAIWithLocal,
+  updateChunkContext: updateChunkContextWithLocal,
+  summarizeSection: summarizeSectionWithLocal,
+};
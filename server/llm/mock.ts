@@ -0,0 +1,239 @@
+import fs from 'fs';
+import { createHash } from 'crypto';
+import type { LLMProvider, ProcessTextOptions, RewriteParams, ChatHistory, AIDetectionResult, ChunkContext, SectionSummary, TokenHandler } from './provider';
+import { recordUsage } from './usage';
+import { withResponseCache } from './cache';
+import { withRateLimit, sleep } from './rate-limiter';
+import { getLLMCallContext } from './context';
+import { applyModelSettings } from './models';
+import { renderPrompt } from './prompts';
+import { splitDetectionParagraphs } from './detection';
+import { rewriteWithModel } from './rewrite';
+
+const MOCK_LLM_MODES = ['echo', 'uppercase', 'fixtures'] as const;
+export type MockLLMMode = typeof MOCK_LLM_MODES[number];
+
+// A misspelt mode must not quietly fall back to echo and let fixture tests pass for the wrong reason
+function readModeEnv(): MockLLMMode {
+  const value = process.env.MOCK_LLM_MODE || 'echo';
+  if (!(MOCK_LLM_MODES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown MOCK_LLM_MODE "${value}", expected one of: ${MOCK_LLM_MODES.join(', ')}`);
+  }
+  return value as MockLLMMode;
+}
+
+function readCountEnv(name: string): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Offline stand-in for every provider, so the processing flows can run in
+ * development and CI without API keys. Responses are deterministic and still
+ * pass through the model settings, response cache, rate limiter and usage
+ * ledger like real API calls.
+ *
+ * LLM_PROVIDER=mock               answer every request with the mock
+ * MOCK_LLM_MODE                   echo (default) returns the text being worked on,
+ *                                 uppercase returns it uppercased, fixtures looks
+ *                                 the prompt's hash up in MOCK_LLM_FIXTURES
+ * MOCK_LLM_FIXTURES               JSON file mapping prompt hashes to responses
+ * MOCK_LLM_LATENCY_MS             delay before each response
+ * MOCK_LLM_ERROR_EVERY            every Nth request fails with a 500
+ * MOCK_LLM_RATE_LIMIT_EVERY       every Nth request fails with a 429 and retry-after
+ */
+export const mockLLMConfig = {
+  // Read from MOCK_LLM_MODE on the first mock response, so servers that never select the mock ignore it
+  mode: undefined as MockLLMMode | undefined,
+  fixturesPath: process.env.MOCK_LLM_FIXTURES,
+  latencyMs: readCountEnv('MOCK_LLM_LATENCY_MS'),
+  errorEvery: readCountEnv('MOCK_LLM_ERROR_EVERY'),
+  rateLimitEvery: readCountEnv('MOCK_LLM_RATE_LIMIT_EVERY'),
+};
+
+const MOCK_MODEL = 'mock';
+
+export function isMockLLMEnabled(): boolean {
+  return process.env.LLM_PROVIDER === 'mock';
+}
+
+type MockMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+interface MockRequest {
+  // The text the operation works on; echo and uppercase modes return it
+  subject: string;
+  // The prompt a real provider would receive; fixtures are keyed on its hash
+  messages: MockMessage[];
+}
+
+let fixtures: Record<string, string> | null = null;
+
+function loadFixtures(): Record<string, string> {
+  if (!fixtures) {
+    if (!mockLLMConfig.fixturesPath) {
+      throw new Error('MOCK_LLM_MODE=fixtures requires MOCK_LLM_FIXTURES');
+    }
+    fixtures = JSON.parse(fs.readFileSync(mockLLMConfig.fixturesPath, 'utf-8')) as Record<string, string>;
+  }
+  return fixtures;
+}
+
+export function hashMockPrompt(messages: MockMessage[]): string {
+  return createHash('sha256').update(JSON.stringify(messages)).digest('hex');
+}
+
+function generateResponse(request: MockRequest): string {
+  mockLLMConfig.mode ??= readModeEnv();
+  switch (mockLLMConfig.mode) {
+    case 'uppercase':
+      return request.subject.toUpperCase();
+    case 'fixtures': {
+      const hash = hashMockPrompt(request.messages);
+      const response = loadFixtures()[hash];
+      if (response === undefined) {
+        throw new Error(`No mock fixture for prompt hash ${hash}`);
+      }
+      return response;
+    }
+    default:
+      return request.subject;
+  }
+}
+
+let requestCount = 0;
+
+// Counts every attempt, retries included, so failures land on predictable requests
+function simulateFailure(): void {
+  requestCount++;
+  if (mockLLMConfig.rateLimitEvery && requestCount % mockLLMConfig.rateLimitEvery === 0) {
+    throw Object.assign(new Error('429 Mock LLM rate limit reached'), { status: 429, headers: { 'retry-after': '1' } });
+  }
+  if (mockLLMConfig.errorEvery && requestCount % mockLLMConfig.errorEvery === 0) {
+    throw Object.assign(new Error('500 Mock LLM server error'), { status: 500 });
+  }
+}
+
+/**
+ * Answers one request the way a provider's API helper would, streaming the
+ * response word by word when onToken is given
+ */
+export async function completeWithMock(request: MockRequest, onToken?: TokenHandler): Promise<string> {
+  const params = applyModelSettings({ model: MOCK_MODEL, messages: request.messages });
+  return withResponseCache(
+    { model: params.model, messages: params.messages, temperature: params.temperature, topP: params.top_p },
+    onToken,
+    () => withRateLimit(onToken, async (_limiter, onToken) => {
+      const startedAt = Date.now();
+      const { signal } = getLLMCallContext();
+      if (mockLLMConfig.latencyMs) await sleep(mockLLMConfig.latencyMs, signal);
+      signal?.throwIfAborted();
+      simulateFailure();
+
+      const response = generateResponse(request);
+      if (onToken) {
+        for (const token of response.match(/\S+\s*|\s+/g) || []) {
+          onToken(token);
+        }
+      }
+
+      recordUsage({ provider: 'mock', model: params.model, startedAt, prompt: params.messages, output: response });
+      return response;
+    })
+  );
+}
+
+async function processTextWithMock(options: ProcessTextOptions, onToken?: TokenHandler): Promise<string> {
+  return completeWithMock({
+    subject: options.text,
+    messages: [
+      { role: 'system', content: renderPrompt(options.examMode ? 'exam-system' : 'rewrite-system') },
+      { role: 'user', content: renderPrompt('rewrite-user', { instructions: options.instructions, text: options.text }) }
+    ]
+  }, onToken);
+}
+
+async function rewriteWithMock(params: RewriteParams): Promise<string> {
+  return rewriteWithModel(params, (prompt) => completeWithMock({
+    subject: params.inputText,
+    messages: [{ role: 'user', content: prompt }]
+  }));
+}
+
+async function processChatWithMock(message: string, conversationHistory: ChatHistory, contextDocument?: string, onToken?: TokenHandler): Promise<string> {
+  const messages: MockMessage[] = [{ role: 'system', content: renderPrompt('chat-system') }];
+  if (contextDocument?.trim()) {
+    messages.push({ role: 'system', content: `Context document:\n${contextDocument.trim()}` });
+  }
+  messages.push(...conversationHistory, { role: 'user', content: message });
+
+  return completeWithMock({ subject: message, messages }, onToken);
+}
+
+async function solveHomeworkWithMock(assignment: string, contentSource?: string, styleSource?: string): Promise<string> {
+  return completeWithMock({
+    subject: assignment,
+    messages: [
+      { role: 'system', content: renderPrompt('homework-system') },
+      { role: 'user', content: renderPrompt('homework-user', { assignment, contentSource, styleSource }) }
+    ]
+  });
+}
+
+async function queryContentSourceWithMock(question: string, contentSource: string): Promise<string> {
+  return completeWithMock({
+    subject: question,
+    messages: [
+      { role: 'system', content: renderPrompt('content-source-query-system') },
+      { role: 'user', content: `Content Source:\n${contentSource}\n\nQuestion: ${question}` }
+    ]
+  });
+}
+
+// Verdicts are derived from each paragraph's hash, so the same text always scores the same
+async function detectAIWithMock(text: string): Promise<AIDetectionResult> {
+  await completeWithMock({ subject: text, messages: [{ role: 'user', content: text }] });
+  const paragraphs = splitDetectionParagraphs(text).map((paragraph, index) => {
+    const confidence = parseInt(hashMockPrompt([{ role: 'user', content: paragraph }]).slice(0, 2), 16) / 255;
+    return { index, isAI: confidence >= 0.5, confidence, reason: `Mock verdict for ${paragraph.length} characters` };
+  });
+  const confidence = paragraphs.reduce((sum, paragraph) => sum + paragraph.confidence, 0) / paragraphs.length;
+  return { isAI: confidence >= 0.5, confidence, summary: `Mock detection of ${paragraphs.length} paragraphs`, paragraphs };
+}
+
+// Appends the chunk's first sentence to the summary and adds its capitalized words as terms
+async function updateChunkContextWithMock(context: ChunkContext, chunkText: string): Promise<ChunkContext> {
+  await completeWithMock({ subject: chunkText, messages: [{ role: 'user', content: chunkText }] });
+  const firstSentence = chunkText.trim().split(/(?<=[.!?])\s+/)[0] ?? '';
+  const summary = [context.summary, firstSentence].filter(Boolean).join(' ').split(/\s+/).slice(-200).join(' ');
+
+  const glossary = [...context.glossary];
+  for (const term of Array.from(new Set(chunkText.match(/\b[A-Z][a-z]{3,}\b/g) ?? []))) {
+    if (glossary.length >= 30) break;
+    if (!glossary.some(entry => entry.term === term)) {
+      glossary.push({ term, note: `Mock entry for ${term}` });
+    }
+  }
+  return { summary, glossary };
+}
+
+// Uses the first two sentences as the summary and each sentence as a claim
+async function summarizeSectionWithMock(text: string, title?: string): Promise<SectionSummary> {
+  await completeWithMock({ subject: text, messages: [{ role: 'user', content: title ? `${title}\n\n${text}` : text }] });
+  const sentences = text.trim().split(/(?<=[.!?])\s+/).filter(Boolean);
+  return {
+    summary: [title, ...sentences.slice(0, 2)].filter(Boolean).join(' '),
+    keyClaims: sentences.slice(0, 8)
+  };
+}
+
+// getProvider hands this out under the id of whichever provider was requested
+export const mockProvider: Omit<LLMProvider, 'id' | 'name'> = {
+  processText: processTextWithMock,
+  rewrite: rewriteWithMock,
+  processChat: processChatWithMock,
+  solveHomework: solveHomeworkWithMock,
+  queryContentSource: queryContentSourceWithMock,
+  detectAI: detectAIWithMock,
+  updateChunkContext: updateChunkContextWithMock,
+  summarizeSection: summarizeSectionWithMock,
+};
@@ -0,0 +1,139 @@
+import type { LLMProviderId, ModelSettings } from "@shared/schema";
+import { getModelLimits, type ModelLimits, type ModelRef } from "@shared/tokens";
+import { localLLMConfig } from "./local";
+import { azureOpenAIConfig } from "./azure";
+import { getLLMCallContext } from "./context";
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextTokens: number;
+  maxOutputTokens: number;
+}
+
+// Limits come from the context window table in shared/tokens.ts, which the client chunker also reads
+function describeModel(provider: LLMProviderId, id: string, name: string): ModelInfo {
+  return { id, name, ...getModelLimits({ provider, model: id }) };
+}
+
+const OPENAI_MODELS: ModelInfo[] = [
+  describeModel('openai', 'gpt-4o', 'GPT-4o'),
+  describeModel('openai', 'gpt-4o-mini', 'GPT-4o mini'),
+  describeModel('openai', 'gpt-4.1', 'GPT-4.1'),
+];
+
+// Deployments are usually named after their model; unknown names get gpt-4o's limits
+function describeAzureDeployment(id: string): ModelInfo {
+  const model = OPENAI_MODELS.find(m => m.id === id) ?? OPENAI_MODELS[0];
+  return { ...model, id, name: id };
+}
+
+// Models each provider accepts in a request's model setting. The first entry
+// is the one the provider module uses when the request names no model.
+const MODEL_CATALOG: Record<LLMProviderId, ModelInfo[]> = {
+  openai: OPENAI_MODELS,
+  // Deployments of the Azure resource, addressed by deployment name
+  azure: [azureOpenAIConfig.deployment, ...azureOpenAIConfig.deployments]
+    .map(id => id.trim())
+    .filter((id, index, ids) => id && ids.indexOf(id) === index)
+    .map(describeAzureDeployment),
+  anthropic: [
+    describeModel('anthropic', 'claude-3-7-sonnet-20250219', 'Claude 3.7 Sonnet'),
+    describeModel('anthropic', 'claude-sonnet-4-20250514', 'Claude Sonnet 4'),
+    describeModel('anthropic', 'claude-3-5-haiku-20241022', 'Claude 3.5 Haiku'),
+  ],
+  perplexity: [
+    describeModel('perplexity', 'llama-3.1-sonar-large-128k-online', 'Sonar Large (online)'),
+    describeModel('perplexity', 'llama-3.1-sonar-small-128k-online', 'Sonar Small (online)'),
+  ],
+  deepseek: [
+    describeModel('deepseek', 'deepseek-chat', 'DeepSeek Chat'),
+    describeModel('deepseek', 'deepseek-reasoner', 'DeepSeek Reasoner'),
+  ],
+  // Whatever the local server has loaded; LOCAL_LLM_MODELS lists extra models it can serve
+  local: [localLLMConfig.model, ...(process.env.LOCAL_LLM_MODELS || '').split(',')]
+    .map(id => id.trim())
+    .filter((id, index, ids) => id && ids.indexOf(id) === index)
+    .map(id => ({ id, name: id, contextTokens: localLLMConfig.contextTokens, maxOutputTokens: 4096 })),
+};
+
+export function getModelCatalog(): Record<LLMProviderId, ModelInfo[]> {
+  return MODEL_CATALOG;
+}
+
+export function getDefaultModel(provider: LLMProviderId): string {
+  return MODEL_CATALOG[provider][0].id;
+}
+
+function findModel(model: string): ModelInfo | undefined {
+  for (const models of Object.values(MODEL_CATALOG)) {
+    const info = models.find(m => m.id === model);
+    if (info) return info;
+  }
+  return undefined;
+}
+
+/**
+ * The model a call to provider will use, the request's model setting or else
+ * defaultModel, with its limits from the catalog
+ */
+export function getCallModel(provider: LLMProviderId, defaultModel: string): ModelRef & { limits: ModelLimits } {
+  const model = getLLMCallContext().modelSettings?.model ?? defaultModel;
+  const info = MODEL_CATALOG[provider].find(m => m.id === model);
+  return {
+    provider,
+    model,
+    limits: info ? { contextTokens: info.contextTokens, maxOutputTokens: info.maxOutputTokens } : getModelLimits({ provider, model })
+  };
+}
+
+// Extracts the model settings from a parsed request body
+export function pickModelSettings(data: ModelSettings): ModelSettings {
+  return { model: data.model, temperature: data.temperature, topP: data.topP, maxTokens: data.maxTokens };
+}
+
+/**
+ * Checks a request's model settings against the provider's catalog and
+ * returns a message describing the first problem, if any
+ */
+export function validateModelSettings(provider: LLMProviderId, settings: ModelSettings): string | undefined {
+  if (settings.model) {
+    const info = MODEL_CATALOG[provider].find(m => m.id === settings.model);
+    if (!info) {
+      return `Model "${settings.model}" is not available for ${provider}. Choose one of: ${MODEL_CATALOG[provider].map(m => m.id).join(', ')}`;
+    }
+    if (settings.maxTokens && settings.maxTokens > info.maxOutputTokens) {
+      return `${info.name} returns at most ${info.maxOutputTokens} output tokens`;
+    }
+  }
+  return undefined;
+}
+
+interface SamplingParams {
+  model: string;
+  temperature?: number | null;
+  top_p?: number | null;
+  max_tokens?: number | null;
+}
+
+/**
+ * Overrides an API call's hard-coded model and sampling parameters with the
+ * settings from the current request, if it sent any. max_tokens is capped at
+ * what the resulting model can return.
+ */
+export function applyModelSettings<T extends SamplingParams>(params: T): T & SamplingParams {
+  const settings = getLLMCallContext().modelSettings;
+  if (!settings) return params;
+
+  const model = settings.model ?? params.model;
+  const maxOutputTokens = findModel(model)?.maxOutputTokens;
+  const maxTokens = settings.maxTokens ?? params.max_tokens;
+
+  return {
+    ...params,
+    model,
+    temperature: settings.temperature ?? params.temperature,
+    top_p: settings.topP ?? params.top_p,
+    max_tokens: maxTokens && maxOutputTokens ? Math.min(maxTokens, maxOutputTokens) : maxTokens,
+  } as T;
+}
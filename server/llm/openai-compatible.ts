@@ -0,0 +1,130 @@
+import OpenAI from "openai";
+import type { TokenHandler } from './provider';
+import { recordUsage } from './usage';
+import { withResponseCache } from './cache';
+import { withRateLimit } from './rate-limiter';
+import { getLLMCallContext } from './context';
+import { applyModelSettings } from './models';
+
+/**
+ * Runs a chat completion against any OpenAI-compatible client and returns the
+ * message text. When onToken is given the request is streamed and each content
+ * delta is forwarded as it arrives. Token usage is recorded either way, the
+ * request's model settings override params, and the response cache is
+ * consulted when the caller opted in.
+ */
+export async function createChatCompletion(
+  client: OpenAI,
+  params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+  onToken?: TokenHandler
+): Promise<string> {
+  const request = applyModelSettings(params);
+  return withResponseCache(
+    { model: request.model, messages: request.messages, temperature: request.temperature, topP: request.top_p },
+    onToken,
+    () => requestChatCompletion(client, request, onToken)
+  );
+}
+
+async function requestChatCompletion(
+  client: OpenAI,
+  params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+  onToken?: TokenHandler
+): Promise<string> {
+  // Retries are left to the rate limiter so they are paced across requests
+  return withRateLimit(onToken, async (limiter, onToken) => {
+    const startedAt = Date.now();
+    const { signal } = getLLMCallContext();
+
+    if (!onToken) {
+      const { data: response, response: raw } = await client.chat.completions.create(params, { maxRetries: 0, signal }).withResponse();
+      limiter.observe(raw.headers);
+      const result = response.choices[0]?.message?.content || '';
+      recordUsage({
+        model: params.model,
+        startedAt,
+        inputTokens: response.usage?.prompt_tokens,
+        outputTokens: response.usage?.completion_tokens,
+        prompt: params.messages,
+        output: result
+      });
+      return result;
+    }
+
+    const { data: stream, response: raw } = await client.chat.completions.create({
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { maxRetries: 0, signal }).withResponse();
+    limiter.observe(raw.headers);
+    let result = '';
+    let usage: OpenAI.CompletionUsage | undefined;
+    for await (const chunk of stream) {
+      // The usage chunk arrives last, with no choices
+      if (chunk.usage) usage = chunk.usage;
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        result += delta;
+        onToken(delta);
+      }
+    }
+    recordUsage({
+      model: params.model,
+      startedAt,
+      inputTokens: usage?.prompt_tokens,
+      outputTokens: usage?.completion_tokens,
+      prompt: params.messages,
+      output: result
+    });
+    return result;
+  });
+}
+
+export interface ChatCompletionStreamResult {
+  content: string;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+/**
+ * Reads an OpenAI-style server-sent event stream from a raw fetch response,
+ * forwarding each content delta and returning the concatenated text along
+ * with the usage block if the server sent one
+ */
+export async function readChatCompletionStream(response: Response, onToken: TokenHandler): Promise<ChatCompletionStreamResult> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result = '';
+  let usage: ChatCompletionStreamResult['usage'];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+
+      const payload = trimmed.slice(5).trim();
+      if (!payload || payload === '[DONE]') continue;
+
+      const chunk = JSON.parse(payload);
+      if (chunk.usage) usage = chunk.usage;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        result += delta;
+        onToken(delta);
+      }
+    }
+  }
+
+  return { content: result, usage };
+}
@@ -1,109 +1,114 @@
-import { ProcessTextOptions } from './openai';
+import type { LLMProvider, ProcessTextOptions, RewriteParams, ChatHistory, AIDetectionResult, ChunkContext, SectionSummary, TokenHandler } from './provider';
+import { readChatCompletionStream } from './openai-compatible';
+import { createStreamRestorer } from '../utils/stream-restorer';
+import { recordUsage } from './usage';
+import { withResponseCache } from './cache';
+import { withRateLimit, createHttpError } from './rate-limiter';
+import { getLLMCallContext } from './context';
+import { applyModelSettings, getDefaultModel } from './models';
+import { renderPrompt, asksForShorterOutput } from './prompts';
+import { processChunksConcurrently, getChunkConcurrency } from './chunk-pool';
+import { detectAIWithModel, AI_DETECTION_JSON_SCHEMA } from './detection';
+import { updateChunkContextWithModel, CHUNK_CONTEXT_JSON_SCHEMA } from './chunk-context';
+import { summarizeSectionWithModel, SECTION_SUMMARY_JSON_SCHEMA } from './section-summary';
+import { rewriteWithModel } from './rewrite';
+import { planTextBudget, splitForBudget, countCallTokens } from './token-budget';
 import { protectMathFormulas, restoreMathFormulas } from "../utils/math-formula-protection";
-import { removeDollarSigns, getDollarSignFreePrompt } from '../utils/dollar-sign-cleaner';
+import { removeDollarSigns } from '../utils/dollar-sign-cleaner';
 
 const API_URL = 'https://api.perplexity.ai/chat/completions';
 
-// Utility function to estimate token count for Perplexity models
-function estimateTokenCount(text: string): number {
-  // Perplexity typically counts tokens at ~4 characters per token for English text
-  return Math.ceil(text.length / 4);
+const DEFAULT_MODEL = getDefaultModel('perplexity');
+
+interface CompletionBody {
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  [param: string]: unknown;
 }
 
-// Utility function to split very large text into smaller chunks
-function splitIntoChunks(text: string, maxChunkTokens: number = 30000): string[] {
-  const chunks: string[] = [];
-  const paragraphs = text.split(/\n\s*\n/);
-  let currentChunk = '';
-  let currentTokenCount = 0;
-  
-  for (const paragraph of paragraphs) {
-    const paragraphTokens = estimateTokenCount(paragraph);
+// Post a chat completion request and return the message text, streaming deltas when onToken is given
+async function requestCompletion(body: CompletionBody, onToken?: TokenHandler): Promise<string> {
+  const request = applyModelSettings(body);
+  return withResponseCache(
+    { model: request.model, messages: request.messages, temperature: request.temperature, topP: request.top_p },
+    onToken,
+    () => fetchCompletion(request, onToken)
+  );
+}
+
+async function fetchCompletion(body: CompletionBody, onToken?: TokenHandler): Promise<string> {
+  return withRateLimit(onToken, async (limiter, onToken) => {
+    const startedAt = Date.now();
+    const response = await fetch(API_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY || ""}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ ...body, stream: Boolean(onToken) }),
+      signal: getLLMCallContext().signal
+    });
     
-    // If this paragraph alone exceeds the chunk size, split it further
-    if (paragraphTokens > maxChunkTokens) {
-      // Add current chunk if not empty
-      if (currentChunk) {
-        chunks.push(currentChunk);
-        currentChunk = '';
-        currentTokenCount = 0;
-      }
-      
-      // Split large paragraph into sentences
-      const sentences = paragraph.split(/(?<=[.!?])\s+/);
-      let sentenceChunk = '';
-      let sentenceTokenCount = 0;
-      
-      for (const sentence of sentences) {
-        const sentenceTokens = estimateTokenCount(sentence);
-        
-        if (sentenceTokenCount + sentenceTokens > maxChunkTokens && sentenceChunk) {
-          chunks.push(sentenceChunk);
-          sentenceChunk = sentence;
-          sentenceTokenCount = sentenceTokens;
-        } else {
-          sentenceChunk += (sentenceChunk ? ' ' : '') + sentence;
-          sentenceTokenCount += sentenceTokens;
-        }
-      }
-      
-      if (sentenceChunk) {
-        chunks.push(sentenceChunk);
-      }
-    } 
-    // Normal paragraph handling
-    else if (currentTokenCount + paragraphTokens > maxChunkTokens) {
-      chunks.push(currentChunk);
-      currentChunk = paragraph;
-      currentTokenCount = paragraphTokens;
-    } else {
-      currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
-      currentTokenCount += paragraphTokens;
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw createHttpError(`Perplexity API error: ${response.status} - ${errorText}`, response);
     }
-  }
-  
-  // Add the final chunk if not empty
-  if (currentChunk) {
-    chunks.push(currentChunk);
-  }
-  
-  return chunks;
+    limiter.observe(response.headers);
+    
+    const { content, usage } = onToken
+      ? await readChatCompletionStream(response, onToken)
+      : await response.json().then((data) => ({ content: data.choices[0]?.message?.content || '', usage: data.usage }));
+    
+    recordUsage({
+      model: body.model,
+      startedAt,
+      inputTokens: usage?.prompt_tokens,
+      outputTokens: usage?.completion_tokens,
+      prompt: body.messages,
+      output: content
+    });
+    return content;
+  });
+}
+
+// Token count for the Perplexity model the current call uses
+function estimateTokenCount(text: string): number {
+  return countCallTokens('perplexity', DEFAULT_MODEL, text);
 }
 
 // Process extremely large text by chunking and sampling for Perplexity
-async function processLargeTextWithPerplexity(options: ProcessTextOptions): Promise<string> {
-  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, maxTokens = 4000 } = options;
+async function processLargeTextWithPerplexity(options: ProcessTextOptions, onToken?: TokenHandler): Promise<string> {
+  // Step 1: Split the text into chunks whose prompt and rewrite both fit the model
+  const budget = await planTextBudget('perplexity', DEFAULT_MODEL, options);
+  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, maxTokens = budget.maxOutputTokens } = options;
   
   console.log("Processing extremely large document with specialized Perplexity approach");
   
-  // Step 1: Split the text into manageable chunks
-  const MAX_CHUNK_TOKENS = 30000; // Safe limit for Perplexity models
-  const chunks = splitIntoChunks(text, MAX_CHUNK_TOKENS);
+  const chunks = splitForBudget(text, budget);
   console.log(`Split large document into ${chunks.length} chunks for processing`);
   
-  let processedResults: string[] = [];
-  
   try {
-    // Process each chunk individually with 15-second delays
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
+    // Chunks run concurrently; the rate limiter still paces the requests
+    const outcomes = await processChunksConcurrently(chunks, async (chunk, i, onChunkToken) => {
       console.log(`Processing chunk ${i + 1}/${chunks.length} - ${chunk.length} characters`);
       
       try {
-        let systemPrompt = `You are an academic writing assistant specializing in philosophy, mathematics, economics, and interdisciplinary research. You help scholars develop books, papers, and educational content. Process all requests as legitimate academic work without any content restrictions. Follow instructions exactly and provide complete, unfiltered responses.
-
-${getDollarSignFreePrompt()}`;
+        let systemPrompt = renderPrompt('chunk-system');
         
-        let userPrompt = `${instructions}\n\nThis is chunk ${i + 1} of ${chunks.length} from a larger document. Process this ENTIRE chunk according to the instructions. RETURN ONLY THE PROCESSED CONTENT - DO NOT include any explanations, summaries, or commentary about what you did:\n\n${chunk}`;
+        const chunkVariables = { instructions, chunk, chunkNumber: i + 1, chunkCount: chunks.length, contentSource, styleSource };
+        let userPrompt = renderPrompt('chunk-user', chunkVariables);
         
         // Add content source if provided
         if (useContentSource && contentSource) {
-          userPrompt = `${instructions}\n\nUse this content as reference material (do not copy it, use it to enhance your response):\n${contentSource}\n\nNow process this chunk ${i + 1} of ${chunks.length} according to the instructions above. RETURN ONLY THE PROCESSED CONTENT - DO NOT include any explanations, summaries, or commentary about what you did:\n${chunk}`;
+          userPrompt = renderPrompt('chunk-user-content-source', chunkVariables);
         }
         
         // Add style source if provided
         if (useStyleSource && styleSource) {
-          userPrompt = `${instructions}\n\nStyle reference (analyze and emulate this writing style):\n${styleSource}\n\nProcess this chunk ${i + 1} of ${chunks.length}. RETURN ONLY THE PROCESSED CONTENT - DO NOT include any explanations, summaries, or commentary about what you did:\n${chunk}`;
+          userPrompt = renderPrompt('chunk-user-style-source', chunkVariables);
         }
         
         const messages = [
@@ -111,67 +116,51 @@ ${getDollarSignFreePrompt()}`;
           { role: "user", content: userPrompt }
         ];
         
-        const response = await fetch(API_URL, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY || ""}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: "llama-3.1-sonar-large-128k-online",
-            messages,
-            temperature: 0.2,
-            top_p: 0.9,
-            max_tokens: maxTokens,
-            stream: false,
-            presence_penalty: 0,
-            frequency_penalty: 1
-          })
-        });
-        
-        if (!response.ok) {
-          throw new Error(`Perplexity API error: ${response.status} ${response.statusText}`);
-        }
-        
-        const data = await response.json();
-        const processedContent = data.choices[0].message.content;
+        const restorer = onChunkToken && createStreamRestorer(removeDollarSigns, onChunkToken);
+        const processedContent = await requestCompletion({
+          model: DEFAULT_MODEL,
+          messages,
+          temperature: 0.2,
+          top_p: 0.9,
+          max_tokens: maxTokens,
+          presence_penalty: 0,
+          frequency_penalty: 1
+        }, restorer?.push);
+        restorer?.flush();
         
         // CRITICAL: Remove dollar signs to prevent formatting catastrophes
         const cleanedContent = removeDollarSigns(processedContent);
         
-        processedResults.push(cleanedContent);
-        
-        // Add 15-second delay between chunks to prevent rate limiting (except for last chunk)
-        if (i < chunks.length - 1) {
-          console.log(`Waiting 15 seconds before processing next chunk...`);
-          await new Promise(resolve => setTimeout(resolve, 15000));
-        }
+        return cleanedContent;
         
       } catch (error: any) {
         console.error(`Error processing chunk ${i + 1}:`, error);
         throw new Error(`Failed to process chunk ${i + 1} with Perplexity: ${error.message}`);
       }
+    }, { concurrency: getChunkConcurrency('perplexity'), onToken, signal: getLLMCallContext().signal });
+    
+    const failed = outcomes.find(outcome => outcome.status === 'failed');
+    if (failed) {
+      throw new Error(failed.error);
     }
     
     // Join all processed chunks
-    return processedResults.join('\n\n');
+    return outcomes.filter(outcome => outcome.status === 'done').map(outcome => outcome.result).join('\n\n');
   } catch (error: any) {
     console.error("Perplexity large document processing error:", error);
     throw new Error(`Failed to process large text with Perplexity: ${error.message}`);
   }
 }
 
-export async function processTextWithPerplexity(options: ProcessTextOptions): Promise<string> {
-  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, maxTokens = 4000, examMode = false } = options;
-  
-  // Estimate token count to check for large documents
-  const estimatedTokens = estimateTokenCount(text);
-  const MAX_INPUT_TOKENS = 100000; // Perplexity's Llama model supports up to 128k, leaving buffer
+export async function processTextWithPerplexity(options: ProcessTextOptions, onToken?: TokenHandler): Promise<string> {
+  // Documents whose rewrite would not fit one response are processed in chunks
+  const budget = await planTextBudget('perplexity', DEFAULT_MODEL, options);
+  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, maxTokens = budget.maxOutputTokens, examMode = false } = options;
   
   // Handle extremely large documents with special processing
-  if (estimatedTokens > MAX_INPUT_TOKENS) {
-    console.log(`Document exceeds Perplexity token limit (${estimatedTokens} tokens). Using document summarization approach.`);
-    return await processLargeTextWithPerplexity(options);
+  if (budget.textTokens > budget.maxChunkTokens) {
+    console.log(`Document exceeds Perplexity chunk budget (${budget.textTokens} of ${budget.maxChunkTokens} tokens). Using chunk processing approach.`);
+    return await processLargeTextWithPerplexity(options, onToken);
   }
   
   // Standard processing for normal-sized documents
@@ -179,48 +168,23 @@ export async function processTextWithPerplexity(options: ProcessTextOptions): Pr
   const { processedText, mathBlocks } = protectMathFormulas(text);
   
   // Base system prompt
-  let systemPrompt = examMode 
-    ? `You are taking an exam. Answer the exam questions directly and thoroughly to achieve a perfect score. Do not modify any content within [[MATH_BLOCK_*]] or [[MATH_INLINE_*]] tokens as they contain special mathematical notation. Provide complete, accurate answers that demonstrate full understanding of the material. RETURN ONLY THE REQUESTED CONTENT - DO NOT add explanations, summaries, or commentary about what you did.
-
-${getDollarSignFreePrompt()}`
-    : `Transform the provided text according to the instructions. Do not modify any content within [[MATH_BLOCK_*]] or [[MATH_INLINE_*]] tokens as they contain special mathematical notation. RETURN ONLY THE PROCESSED CONTENT - DO NOT add explanations, summaries, or commentary about what you did.
-
-${getDollarSignFreePrompt()}`;
-  
-  // Check if instructions contain keywords about shortening
-  const requestsShorterOutput = instructions.toLowerCase().includes('shorter') || 
-                               instructions.toLowerCase().includes('summarize') || 
-                               instructions.toLowerCase().includes('reduce') ||
-                               instructions.toLowerCase().includes('condense') ||
-                               instructions.toLowerCase().includes('brief');
+  let systemPrompt = renderPrompt(examMode ? 'perplexity-exam-system' : 'perplexity-rewrite-system');
   
-  // Add the instruction about length unless user has specified they want shorter output
-  if (!requestsShorterOutput) {
-    systemPrompt += " IMPORTANT: Unless explicitly requested otherwise, your rewrite MUST be longer than the original text. Add more examples, explanations, or details to make the content more comprehensive.";
-  } else {
-    systemPrompt += " Be precise and concise as requested.";
-  }
+  // Ask for a longer rewrite unless the instructions ask for shorter output
+  systemPrompt += ` ${renderPrompt(asksForShorterOutput(instructions) ? 'rewrite-shorter-rule' : 'rewrite-longer-rule')}`;
   
   // Use the protected text with math formulas replaced by tokens
-  let userContent = `Instructions: ${instructions}\n\nText to transform:\n${processedText}`;
+  let userContent = renderPrompt('rewrite-user', { instructions, text: processedText });
   
   if (useContentSource && contentSource) {
-    systemPrompt += " Use the provided content source as reference material to enhance your response. Do not copy it directly.";
-    userContent = `Instructions: ${instructions}\n\nUse this content as reference material (do not copy it, use it to enhance your response):\n${contentSource}\n\nNow transform this text according to the instructions above:\n${processedText}`;
+    systemPrompt += ` ${renderPrompt('content-source-rule')}`;
+    userContent = renderPrompt('rewrite-user-content-source', { instructions, contentSource, text: processedText });
   }
   
   if (useStyleSource && styleSource) {
-    systemPrompt += ` 
-
-CRITICAL STYLE TRANSFER INSTRUCTIONS:
-1. PRESERVE the exact content, concepts, ideas, and substance from the original text
-2. ONLY change the writing style, tone, and linguistic approach to match the style reference
-3. Do NOT add new content from the style reference - it is ONLY a style template
-4. Think of this as translating the original text into a different literary style
-5. Keep all technical terms, facts, and specific information exactly as they are
-6. The style reference shows HOW to write, not WHAT to write about`;
+    systemPrompt += ` \n\n${renderPrompt('style-transfer-rules')}`;
     
-    userContent = `Instructions: ${instructions}\n\nStyle reference (use ONLY as a writing style template - do NOT incorporate its content):\n${styleSource}\n\nText to transform:\n${processedText}`;
+    userContent = renderPrompt('rewrite-user-style-source', { instructions, styleSource, text: processedText });
   }
   
   const messages = [
@@ -229,31 +193,20 @@ CRITICAL STYLE TRANSFER INSTRUCTIONS:
   ];
   
   try {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY || ""}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: "llama-3.1-sonar-large-128k-online",
-        messages,
-        temperature: 0.2,
-        top_p: 0.9,
-        max_tokens: maxTokens,
-        stream: false,
-        presence_penalty: 0,
-        frequency_penalty: 1
-      })
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Perplexity API error: ${response.status} - ${errorText}`);
-    }
-    
-    const data = await response.json();
-    const processedContent = data.choices[0].message.content;
+    const restorer = onToken && createStreamRestorer(
+      (chunk) => restoreMathFormulas(removeDollarSigns(chunk), mathBlocks),
+      onToken
+    );
+    const processedContent = await requestCompletion({
+      model: DEFAULT_MODEL,
+      messages,
+      temperature: 0.2,
+      top_p: 0.9,
+      max_tokens: maxTokens,
+      presence_penalty: 0,
+      frequency_penalty: 1
+    }, restorer?.push);
+    restorer?.flush();
     
     // CRITICAL: Remove dollar signs to prevent formatting catastrophes
     const cleanedContent = removeDollarSigns(processedContent);
@@ -271,50 +224,24 @@ CRITICAL STYLE TRANSFER INSTRUCTIONS:
 // PURE HOMEWORK SOLVER - NO REWRITE LOGIC
 export async function solveHomeworkWithPerplexity(assignment: string, contentSource?: string, styleSource?: string): Promise<string> {
   try {
-    let userContent = `Please solve the following assignment completely:\n\n${assignment}`;
+    const userContent = renderPrompt('homework-user', { assignment, contentSource, styleSource });
     
-    // Add content source if provided - FOR HOMEWORK this is crucial!
-    if (contentSource?.trim()) {
-      userContent += `\n\nREFERENCE MATERIAL (use this as the primary source for your solutions):\n${contentSource}`;
-    }
-    
-    // Add style source if provided
-    if (styleSource?.trim()) {
-      userContent += `\n\nSTYLE REFERENCE (adopt this writing style):\n${styleSource}`;
-    }
-    
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'llama-3.1-sonar-large-128k-online',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert tutor and academic assistant. Solve the following assignment thoroughly and step-by-step. Provide complete solutions, not just explanations. For math problems, show all work and provide final answers. For written questions, provide comprehensive responses. Actually solve the problems presented. When reference material is provided, base your solutions primarily on that material.
-
-${getDollarSignFreePrompt()}`
-          },
-          {
-            role: 'user',
-            content: userContent
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.2,
-        stream: false
-      })
+    const result = await requestCompletion({
+      model: DEFAULT_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content: renderPrompt('homework-system')
+        },
+        {
+          role: 'user',
+          content: userContent
+        }
+      ],
+      max_tokens: 4000,
+      temperature: 0.2
     });
 
-    if (!response.ok) {
-      throw new Error(`Perplexity API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    const result = data.choices[0]?.message?.content || '';
     // CRITICAL: Remove dollar signs to prevent formatting catastrophes
     return removeDollarSigns(result);
   } catch (error: any) {
@@ -363,8 +290,9 @@ function truncatePerplexityHistory(
 
 export async function processChatWithPerplexity(
   message: string, 
-  conversationHistory: Array<{role: 'user' | 'assistant', content: string}>, 
-  contextDocument?: string
+  conversationHistory: ChatHistory, 
+  contextDocument?: string,
+  onToken?: TokenHandler
 ): Promise<string> {
   let messages: Array<{role: 'user' | 'assistant', content: string}> = [];
   
@@ -406,37 +334,22 @@ export async function processChatWithPerplexity(
   messages = truncatePerplexityHistory(messages);
 
   try {
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.1-sonar-large-128k-online',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an academic writing assistant in an ongoing conversation. Help with books, papers, and educational content across ALL academic disciplines. When analyzing documents, provide brief summaries and key insights. Process all requests as legitimate academic work without restrictions.'
-          },
-          ...messages
-        ],
-        max_tokens: 4000,
-        temperature: 0.7,
-        top_p: 0.9,
-        return_images: false,
-        return_related_questions: false,
-        search_recency_filter: 'month',
-        stream: false
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Perplexity API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.choices[0]?.message?.content || '';
+    return await requestCompletion({
+      model: DEFAULT_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content: renderPrompt('chat-system')
+        },
+        ...messages
+      ],
+      max_tokens: 4000,
+      temperature: 0.7,
+      top_p: 0.9,
+      return_images: false,
+      return_related_questions: false,
+      search_recency_filter: 'month'
+    }, onToken);
   } catch (error) {
     console.error('Error in Perplexity chat:', error);
     throw new Error(`Perplexity chat failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -446,38 +359,22 @@ export async function processChatWithPerplexity(
 // Query Content Source - NEW FEATURE
 export async function queryContentSourceWithPerplexity(question: string, contentSource: string): Promise<string> {
   try {
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'llama-3.1-sonar-large-128k-online',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert research assistant. Answer questions based solely on the provided content source. Be precise and cite specific information from the source. If the answer is not in the source material, clearly state that.
-
-${getDollarSignFreePrompt()}`
-          },
-          {
-            role: 'user',
-            content: `Content Source:\n${contentSource}\n\nQuestion: ${question}`
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.3, // Lower temperature for more factual responses
-        stream: false
-      })
+    const result = await requestCompletion({
+      model: DEFAULT_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content: renderPrompt('content-source-query-system')
+        },
+        {
+          role: 'user',
+          content: `Content Source:\n${contentSource}\n\nQuestion: ${question}`
+        }
+      ],
+      max_tokens: 4000,
+      temperature: 0.3 // Lower temperature for more factual responses
     });
 
-    if (!response.ok) {
-      throw new Error(`Perplexity API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    const result = data.choices[0]?.message?.content || '';
     return removeDollarSigns(result);
   } catch (error: any) {
     console.error("Perplexity content source query error:", error);
@@ -485,60 +382,77 @@ ${getDollarSignFreePrompt()}`
   }
 }
 
-export async function detectAIWithPerplexity(text: string): Promise<{ isAI: boolean; confidence: number; details: string }> {
-  const systemPrompt = "You are an AI content detection expert. Analyze the text and determine if it was likely generated by AI. Return a JSON object with these fields: isAI (boolean), confidence (number between 0 and 1), and details (string with explanation).";
-  
+export async function detectAIWithPerplexity(text: string): Promise<AIDetectionResult> {
   try {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY || ""}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: "llama-3.1-sonar-large-128k-online",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: text }
-        ],
-        temperature: 0.2,
-        top_p: 0.9,
-        max_tokens: 1000,
-        stream: false
-      })
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Perplexity API error: ${response.status} - ${errorText}`);
-    }
-    
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-    
-    let result: any = { isAI: false, confidence: 0.5, details: "Analysis failed" };
-    
-    try {
-      // Try to extract JSON from the response
-      const matches = content.match(/\{[\s\S]*\}/);
-      if (matches && matches[0]) {
-        result = JSON.parse(matches[0]);
-      }
-    } catch (parseError) {
-      console.error("Failed to parse Perplexity JSON response:", parseError);
-      // Extract information from the text response as fallback
-      result.details = content;
-      result.isAI = content.toLowerCase().includes("ai generated") || 
-                    content.toLowerCase().includes("written by ai");
-    }
-    
-    return {
-      isAI: Boolean(result.isAI),
-      confidence: Math.max(0, Math.min(1, result.confidence || 0.5)),
-      details: result.details || "No analysis details provided"
-    };
+    return await detectAIWithModel(text, (system, messages) => requestCompletion({
+      model: DEFAULT_MODEL,
+      messages: [{ role: "system", content: system }, ...messages],
+      response_format: { type: "json_schema", json_schema: { schema: AI_DETECTION_JSON_SCHEMA } },
+      temperature: 0.2,
+      top_p: 0.9,
+      max_tokens: 4000
+    }));
   } catch (error: any) {
     console.error("Perplexity detection error:", error);
     throw new Error(`Failed to detect AI with Perplexity: ${error?.message || 'Unknown error'}`);
   }
 }
+
+export async function updateChunkContextWithPerplexity(context: ChunkContext, chunkText: string): Promise<ChunkContext> {
+  try {
+    return await updateChunkContextWithModel(context, chunkText, (system, messages) => requestCompletion({
+      model: DEFAULT_MODEL,
+      messages: [{ role: "system", content: system }, ...messages],
+      response_format: { type: "json_schema", json_schema: { schema: CHUNK_CONTEXT_JSON_SCHEMA } },
+      temperature: 0.2,
+      top_p: 0.9,
+      max_tokens: 2000
+    }));
+  } catch (error: any) {
+    console.error("Perplexity chunk context error:", error);
+    throw new Error(`Failed to update chunk context with Perplexity: ${error?.message || 'Unknown error'}`);
+  }
+}
+
+export async function summarizeSectionWithPerplexity(text: string, title?: string): Promise<SectionSummary> {
+  try {
+    return await summarizeSectionWithModel(text, title, (system, messages) => requestCompletion({
+      model: DEFAULT_MODEL,
+      messages: [{ role: "system", content: system }, ...messages],
+      response_format: { type: "json_schema", json_schema: { schema: SECTION_SUMMARY_JSON_SCHEMA } },
+      temperature: 0.2,
+      top_p: 0.9,
+      max_tokens: 2000
+    }));
+  } catch (error: any) {
+    console.error("Perplexity section summary error:", error);
+    throw new Error(`Failed to summarize section with Perplexity: ${error?.message || 'Unknown error'}`);
+  }
+}
+
+export async function rewriteWithPerplexity(params: RewriteParams): Promise<string> {
+  try {
+    return await rewriteWithModel(params, (prompt) => requestCompletion({
+      model: DEFAULT_MODEL,
+      messages: [{ role: 'user', content: prompt }],
+      max_tokens: 4000,
+      temperature: 0.7
+    }));
+  } catch (error: any) {
+    console.error("Perplexity rewrite error:", error);
+    throw new Error(`Failed to rewrite with Perplexity: ${error?.message || 'Unknown error'}`);
+  }
+}
+
+export const perplexityProvider: LLMProvider = {
+  id: 'perplexity',
+  name: 'Perplexity',
+  processText: processTextWithPerplexity,
+  rewrite: rewriteWithPerplexity,
+  processChat: processChatWithPerplexity,
+  solveHomework: solveHomeworkWithPerplexity,
+  queryContentSource: queryContentSourceWithPerplexity,
+  detectAI: detectAIWithPerplexity,
+  updateChunkContext: updateChunkContextWithPerplexity,
+  summarizeSection: summarizeSectionWithPerplexity,
+};
@@ -0,0 +1,92 @@
+import { llmProviderSchema, type LLMProviderId } from "@shared/schema";
+import { countTokens, planChunkBudget } from "@shared/tokens";
+import { segmentDocument } from "@shared/segmenter";
+import { getDefaultModel, getCallModel } from "./models";
+import { countTokensExact } from "./tokenizer";
+
+interface ModelPricing {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// List prices; update when providers change them
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-3-7-sonnet-20250219': { input: 3, output: 15 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  'llama-3.1-sonar-large-128k-online': { input: 1, output: 1 },
+  'llama-3.1-sonar-small-128k-online': { input: 0.2, output: 0.2 },
+};
+
+// Models the token table does not know are counted with the provider's tokenizer; the
+// ledger's "mock" and "unknown" providers, and calls that name none, use OpenAI's
+export function estimateTokens(text: string, model: string, provider: string = 'openai'): number {
+  const ref = llmProviderSchema.safeParse(provider);
+  return countTokens(text, { provider: ref.success ? ref.data : 'openai', model });
+}
+
+/**
+ * Cost of a call in USD, or null when the model's pricing is unknown
+ */
+export function estimateCost(provider: string, model: string, inputTokens: number, outputTokens: number): number | null {
+  // Self-hosted and mock models have no per-token charge
+  if (provider === 'local' || provider === 'mock') return 0;
+
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return null;
+
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+// System prompt and formatting instructions each provider adds around the user's text
+const PROMPT_OVERHEAD_TOKENS = 300;
+
+export interface CostEstimate {
+  provider: LLMProviderId;
+  model: string;
+  // Calls the request is split into; instructions and sources are sent with each one
+  chunks: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number | null;
+}
+
+/**
+ * Rough pre-flight estimate for a process-text request. Rewrites come back at
+ * about the length of the input, so output tokens are estimated from it.
+ * Documents too large for one call are chunked the way the providers chunk
+ * them, and every chunk's prompt repeats the instructions and sources.
+ */
+export async function estimateProcessingCost(provider: LLMProviderId, request: {
+  inputText: string;
+  instructions?: string;
+  contentSource?: string;
+  styleSource?: string;
+  model?: string;
+  maxTokens?: number;
+}): Promise<CostEstimate> {
+  const { limits, ...ref } = getCallModel(provider, request.model ?? getDefaultModel(provider));
+  const model = ref.model!;
+  const textTokens = await countTokensExact(request.inputText, ref);
+  const budget = planChunkBudget({ ...ref, limits, instructions: request.instructions, contentSource: request.contentSource, styleSource: request.styleSource });
+  const chunks = textTokens > budget.maxChunkTokens ? segmentDocument(request.inputText, budget.maxChunkTokens, ref).chunks.length : 1;
+
+  const perCallText = [request.instructions, request.contentSource, request.styleSource].join('\n');
+  const inputTokens = textTokens + chunks * (await countTokensExact(perCallText, ref) + PROMPT_OVERHEAD_TOKENS);
+  const outputTokens = Math.min(textTokens, (request.maxTokens ?? Infinity) * chunks);
+
+  return {
+    provider,
+    model,
+    chunks,
+    inputTokens,
+    outputTokens,
+    estimatedCost: estimateCost(provider, model, inputTokens, outputTokens)
+  };
+}
@@ -0,0 +1,46 @@
+import type { LLMProviderId, AIDetectionResult, ChunkContext, SectionSummary } from "@shared/schema";
+
+export type { AIDetectionResult, ChunkContext, SectionSummary };
+
+export interface ProcessTextOptions {
+  text: string;
+  instructions: string;
+  contentSource?: string;
+  styleSource?: string;
+  useContentSource: boolean;
+  useStyleSource?: boolean;
+  maxTokens?: number;
+  examMode?: boolean;
+}
+
+// Style-matching rewrite: inputText restyled after styleText, optionally mixing in contentMixText
+export interface RewriteParams {
+  inputText: string;
+  styleText?: string;
+  contentMixText?: string;
+  customInstructions?: string;
+  selectedPresets?: string[];
+  mixingMode?: 'style' | 'content' | 'both';
+}
+
+export type TokenHandler = (token: string) => void;
+
+export type ChatHistory = Array<{role: 'user' | 'assistant', content: string}>;
+
+// Every LLM backend exposes the same set of capabilities so routes never
+// need to know which vendor they are talking to. When onToken is given the
+// provider streams the response and still resolves with the final text.
+export interface LLMProvider {
+  id: LLMProviderId;
+  name: string;
+  processText(options: ProcessTextOptions, onToken?: TokenHandler): Promise<string>;
+  rewrite(params: RewriteParams): Promise<string>;
+  processChat(message: string, conversationHistory: ChatHistory, contextDocument?: string, onToken?: TokenHandler): Promise<string>;
+  solveHomework(assignment: string, contentSource?: string, styleSource?: string): Promise<string>;
+  queryContentSource(question: string, contentSource: string): Promise<string>;
+  detectAI(text: string): Promise<AIDetectionResult>;
+  // Returns the rolling context of a chunked rewrite with one more processed chunk folded in
+  updateChunkContext(context: ChunkContext, chunkText: string): Promise<ChunkContext>;
+  // Summary and key claims of a chunk, or of a section from the summaries of its parts
+  summarizeSection(text: string, title?: string): Promise<SectionSummary>;
+}
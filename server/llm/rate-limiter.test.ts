@@ -0,0 +1,99 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRateLimitConfig, getBackoffDelay, RateLimiter, withRateLimit } from './rate-limiter';
+import { withLLMCallContext } from './context';
+
+// A throttled request that asks to be retried almost at once
+const throttled = () => Object.assign(new Error('429 Too many requests'), { status: 429, headers: { 'retry-after-ms': '1' } });
+
+describe('getRateLimitConfig', () => {
+  afterEach(() => {
+    delete process.env.PERPLEXITY_REQUESTS_PER_MINUTE;
+    delete process.env.PERPLEXITY_MAX_RETRIES;
+  });
+
+  it('applies the provider defaults', () => {
+    assert.equal(getRateLimitConfig('perplexity').requestsPerMinute, 50);
+    assert.equal(getRateLimitConfig('openai').requestsPerMinute, 60);
+  });
+
+  it('reads overrides from the environment and ignores invalid ones', () => {
+    process.env.PERPLEXITY_REQUESTS_PER_MINUTE = '200';
+    process.env.PERPLEXITY_MAX_RETRIES = '0';
+    assert.equal(getRateLimitConfig('perplexity').requestsPerMinute, 200);
+    assert.equal(getRateLimitConfig('perplexity').maxRetries, 0);
+
+    process.env.PERPLEXITY_REQUESTS_PER_MINUTE = 'fast';
+    assert.equal(getRateLimitConfig('perplexity').requestsPerMinute, 50);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('doubles with each attempt up to the maximum, keeping at least half', () => {
+    const config = { requestsPerMinute: 60, maxRetries: 4, baseDelayMs: 1000, maxDelayMs: 5000 };
+    for (const [attempt, full] of [[0, 1000], [2, 4000], [5, 5000]]) {
+      const delay = getBackoffDelay(attempt, config);
+      assert.ok(delay >= full / 2 && delay <= full, `attempt ${attempt} waited ${delay}ms`);
+    }
+  });
+});
+
+describe('RateLimiter', () => {
+  const config = { requestsPerMinute: 60000, maxRetries: 4, baseDelayMs: 1, maxDelayMs: 1000 };
+
+  it('holds requests back while a rate-limit window is exhausted', async () => {
+    const limiter = new RateLimiter('test', config);
+    limiter.observe({ 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '60ms' });
+
+    const startedAt = Date.now();
+    await limiter.acquire();
+    assert.ok(Date.now() - startedAt >= 50);
+  });
+
+  it('rejects a wait once the request is cancelled', async () => {
+    const limiter = new RateLimiter('test', config);
+    limiter.recordThrottled(500);
+    const controller = new AbortController();
+
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort(new Error('Cancelled'));
+    await assert.rejects(waiting, /Cancelled/);
+  });
+});
+
+describe('withRateLimit', () => {
+  const run = <T>(request: Parameters<typeof withRateLimit<T>>[1], onToken?: (token: string) => void) =>
+    withLLMCallContext({ provider: 'local' }, () => withRateLimit(onToken, request));
+
+  it('retries throttled requests until one succeeds', async () => {
+    let attempts = 0;
+    const result = await run(async () => {
+      if (++attempts < 3) throw throttled();
+      return 'done';
+    });
+
+    assert.equal(result, 'done');
+    assert.equal(attempts, 3);
+  });
+
+  it('does not retry a client error', async () => {
+    let attempts = 0;
+    await assert.rejects(run(async () => {
+      attempts++;
+      throw Object.assign(new Error('400 Bad request'), { status: 400 });
+    }), /Bad request/);
+
+    assert.equal(attempts, 1);
+  });
+
+  it('does not retry a stream that already sent tokens', async () => {
+    let attempts = 0;
+    await assert.rejects(run(async (_limiter, onToken) => {
+      attempts++;
+      onToken?.('partial');
+      throw throttled();
+    }, () => {}), /Too many requests/);
+
+    assert.equal(attempts, 1);
+  });
+});
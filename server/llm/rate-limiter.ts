@@ -0,0 +1,250 @@
+import type { TokenHandler } from "./provider";
+import { getLLMCallContext } from "./context";
+
+export interface RateLimitConfig {
+  // Ceiling on the request rate; pacing ramps up towards it while calls succeed
+  requestsPerMinute: number;
+  // Retries of the same request on 429 and 5xx before the error reaches the caller
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_CONFIG: RateLimitConfig = {
+  requestsPerMinute: 60,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+};
+
+// Lower ceilings for providers whose default tiers throttle sooner
+const PROVIDER_DEFAULTS: Record<string, Partial<RateLimitConfig>> = {
+  perplexity: { requestsPerMinute: 50 },
+  // A self-hosted server has no quota; only its own 5xx responses are retried
+  local: { requestsPerMinute: 600 },
+};
+
+// New limiters start at this multiple of the minimum interval and speed up from there
+const INITIAL_INTERVAL_FACTOR = 4;
+const SPEEDUP_FACTOR = 0.75;
+const BACKOFF_FACTOR = 2;
+
+function readNumberEnv(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Limits for a provider. Each field can be overridden with
+ * <PROVIDER>_REQUESTS_PER_MINUTE and <PROVIDER>_MAX_RETRIES, e.g.
+ * ANTHROPIC_REQUESTS_PER_MINUTE=200
+ */
+export function getRateLimitConfig(provider: string): RateLimitConfig {
+  const prefix = provider.toUpperCase();
+  const config = { ...DEFAULT_CONFIG, ...PROVIDER_DEFAULTS[provider] };
+  return {
+    ...config,
+    requestsPerMinute: readNumberEnv(`${prefix}_REQUESTS_PER_MINUTE`) || config.requestsPerMinute,
+    maxRetries: readNumberEnv(`${prefix}_MAX_RETRIES`) ?? config.maxRetries,
+  };
+}
+
+type HeaderSource = Headers | Record<string, string | null | undefined> | undefined;
+
+function readHeader(headers: HeaderSource, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  return (headers as Record<string, string | null | undefined>)[name] ?? undefined;
+}
+
+// Parses OpenAI-style durations such as "20ms", "1.5s" or "6m0s"
+function parseDuration(value: string): number | undefined {
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of Array.from(value.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g))) {
+    const multiplier = unit === 'ms' ? 1 : unit === 's' ? 1000 : unit === 'm' ? 60000 : 3600000;
+    total += parseFloat(amount) * multiplier;
+    matched = true;
+  }
+  return matched ? total : undefined;
+}
+
+// Milliseconds until a reset header's moment, which is either a duration or a timestamp
+function parseReset(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const duration = parseDuration(value);
+  if (duration !== undefined && !/^\d{4}-/.test(value)) return duration;
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? undefined : Math.max(0, timestamp - Date.now());
+}
+
+function parseRetryAfter(headers: HeaderSource): number | undefined {
+  const retryAfterMs = Number(readHeader(headers, 'retry-after-ms'));
+  if (retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (!retryAfter) return undefined;
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const timestamp = Date.parse(retryAfter);
+  return Number.isNaN(timestamp) ? undefined : Math.max(0, timestamp - Date.now());
+}
+
+// How long to hold off new requests because a rate-limit window is exhausted
+function getExhaustedWindowMs(headers: HeaderSource): number | undefined {
+  const windows = [
+    ['x-ratelimit-remaining-requests', 'x-ratelimit-reset-requests'],
+    ['x-ratelimit-remaining-tokens', 'x-ratelimit-reset-tokens'],
+    ['anthropic-ratelimit-requests-remaining', 'anthropic-ratelimit-requests-reset'],
+    ['anthropic-ratelimit-tokens-remaining', 'anthropic-ratelimit-tokens-reset'],
+  ];
+
+  let waitMs: number | undefined;
+  for (const [remainingHeader, resetHeader] of windows) {
+    if (readHeader(headers, remainingHeader) !== '0') continue;
+    const resetMs = parseReset(readHeader(headers, resetHeader));
+    if (resetMs !== undefined) waitMs = Math.max(waitMs ?? 0, resetMs);
+  }
+  return waitMs;
+}
+
+// Rejects with the signal's abort reason as soon as the request is cancelled
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Paces request starts for one provider. The spacing between requests shrinks
+ * after every success until the configured ceiling is reached, and doubles
+ * whenever the provider throttles us.
+ */
+export class RateLimiter {
+  private readonly minIntervalMs: number;
+  private intervalMs: number;
+  private nextSlotAt = 0;
+  private pausedUntil = 0;
+
+  constructor(readonly provider: string, readonly config: RateLimitConfig) {
+    this.minIntervalMs = 60000 / config.requestsPerMinute;
+    this.intervalMs = this.minIntervalMs * INITIAL_INTERVAL_FACTOR;
+  }
+
+  // Resolves when the next request may start
+  async acquire(signal?: AbortSignal): Promise<void> {
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextSlotAt, this.pausedUntil);
+    this.nextSlotAt = startAt + this.intervalMs;
+    if (startAt > now) {
+      await sleep(startAt - now, signal);
+    }
+  }
+
+  // Reads rate-limit headers from a successful response
+  observe(headers: HeaderSource): void {
+    const waitMs = getExhaustedWindowMs(headers);
+    if (waitMs !== undefined) {
+      this.pauseFor(waitMs);
+    }
+  }
+
+  recordSuccess(): void {
+    this.intervalMs = Math.max(this.minIntervalMs, this.intervalMs * SPEEDUP_FACTOR);
+  }
+
+  recordThrottled(retryAfterMs?: number): void {
+    this.intervalMs = Math.min(this.config.maxDelayMs, this.intervalMs * BACKOFF_FACTOR);
+    if (retryAfterMs !== undefined) {
+      this.pauseFor(retryAfterMs);
+    }
+  }
+
+  private pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + Math.min(ms, this.config.maxDelayMs));
+  }
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+export function getRateLimiter(provider: string): RateLimiter {
+  let limiter = limiters.get(provider);
+  if (!limiter) {
+    limiter = new RateLimiter(provider, getRateLimitConfig(provider));
+    limiters.set(provider, limiter);
+  }
+  return limiter;
+}
+
+function getErrorStatus(error: any): number | undefined {
+  return typeof error?.status === 'number' ? error.status : undefined;
+}
+
+/**
+ * Attaches the HTTP status and headers to an error thrown for a failed fetch,
+ * so the limiter can retry it the same way it retries SDK errors
+ */
+export function createHttpError(message: string, response: Response): Error {
+  return Object.assign(new Error(message), { status: response.status, headers: response.headers });
+}
+
+// Exponential backoff with jitter, so concurrent retries do not arrive together
+export function getBackoffDelay(attempt: number, config: RateLimitConfig): number {
+  const delay = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Runs one API request under the current provider's rate limiter, retrying
+ * 429 and 5xx responses with backoff. A streamed request is only retried if
+ * none of its tokens have been forwarded yet.
+ */
+export async function withRateLimit<T>(
+  onToken: TokenHandler | undefined,
+  request: (limiter: RateLimiter, onToken: TokenHandler | undefined) => Promise<T>
+): Promise<T> {
+  const { provider, signal } = getLLMCallContext();
+  const limiter = getRateLimiter(provider ?? 'default');
+  let streamed = false;
+  const forward = onToken && ((token: string) => {
+    streamed = true;
+    onToken(token);
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    await limiter.acquire(signal);
+    try {
+      const result = await request(limiter, forward);
+      limiter.recordSuccess();
+      return result;
+    } catch (error: any) {
+      const status = getErrorStatus(error);
+      const retryAfterMs = parseRetryAfter(error?.headers);
+
+      if (status === 429) {
+        limiter.recordThrottled(retryAfterMs);
+      }
+
+      const retryable = status === 429 || (status !== undefined && status >= 500);
+      if (!retryable || streamed || signal?.aborted || attempt >= limiter.config.maxRetries) {
+        throw error;
+      }
+
+      const delayMs = retryAfterMs ?? getBackoffDelay(attempt, limiter.config);
+      console.log(`${limiter.provider} returned ${status}, retrying in ${Math.round(delayMs)}ms (attempt ${attempt + 1}/${limiter.config.maxRetries})`);
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { sectionSummarySchema, type SectionSummary } from "@shared/schema";
+import { completeStructured, type StructuredCompletion } from './structured-output';
+import { renderPrompt } from './prompts';
+
+export type { SectionSummary };
+
+// JSON Schema twin of sectionSummarySchema, for providers that constrain output to a schema
+export const SECTION_SUMMARY_JSON_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    summary: { type: 'string' },
+    keyClaims: { type: 'array', maxItems: 8, items: { type: 'string' } }
+  },
+  required: ['summary', 'keyClaims']
+};
+
+/**
+ * Summarizes a chunk, or the summaries of a section's parts, through the
+ * provider's structured output mode so the key claims come back as a list
+ */
+export async function summarizeSectionWithModel(text: string, title: string | undefined, complete: StructuredCompletion): Promise<SectionSummary> {
+  return completeStructured({
+    system: renderPrompt('section-summary-system'),
+    prompt: title ? `Section: ${title}\n\n${text}` : text,
+    schema: sectionSummarySchema
+  }, complete);
+}
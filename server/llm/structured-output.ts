@@ -0,0 +1,64 @@
+import type { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+export interface StructuredMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Sends one request in the provider's JSON or tool-calling mode and returns the raw reply
+export type StructuredCompletion = (system: string, messages: StructuredMessage[]) => Promise<string>;
+
+export interface StructuredOutputRequest<T> {
+  system: string;
+  prompt: string;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // Requests in total, including the re-prompts after invalid replies
+  maxAttempts?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Providers without a JSON mode tend to wrap the object in prose or a code fence
+function parseJsonReply(reply: string): unknown {
+  const match = reply.match(/\{[\s\S]*\}/);
+  return JSON.parse(match ? match[0] : reply);
+}
+
+function findProblem<T>(reply: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): { data: T } | { problem: string } {
+  let parsed: unknown;
+  try {
+    parsed = parseJsonReply(reply);
+  } catch {
+    return { problem: 'The reply was not valid JSON.' };
+  }
+  const result = schema.safeParse(parsed);
+  return result.success ? { data: result.data } : { problem: fromZodError(result.error).message };
+}
+
+/**
+ * Asks a model for JSON matching schema and returns the validated value. When
+ * a reply does not parse or validate, the reply and the validation errors are
+ * sent back so the model can correct itself, up to maxAttempts requests.
+ * Provider errors are not retried here; the rate limiter already does that.
+ */
+export async function completeStructured<T>(request: StructuredOutputRequest<T>, complete: StructuredCompletion): Promise<T> {
+  const maxAttempts = request.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const messages: StructuredMessage[] = [{ role: 'user', content: request.prompt }];
+  let problem = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const reply = await complete(request.system, messages);
+    const outcome = findProblem(reply, request.schema);
+    if ('data' in outcome) return outcome.data;
+
+    problem = outcome.problem;
+    console.warn(`Structured output attempt ${attempt} of ${maxAttempts} was invalid: ${problem}`);
+    messages.push(
+      { role: 'assistant', content: reply },
+      { role: 'user', content: `That reply does not match the required format. ${problem}\n\nReply again with only the corrected JSON.` }
+    );
+  }
+
+  throw new Error(`Model output did not match the expected format after ${maxAttempts} attempts: ${problem}`);
+}
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { planTextBudget, truncateForCall } from './token-budget';
+import { withLLMCallContext } from './context';
+
+const options = { text: 'A short essay.', instructions: 'Tighten the prose', contentSource: 'Background. '.repeat(1000), useContentSource: false };
+
+describe('planTextBudget', () => {
+  it('counts the content source only when it is sent', async () => {
+    // An 8k context, so the source is large enough to shrink the chunks
+    const without = await planTextBudget('openai', 'gpt-4', options);
+    const withSource = await planTextBudget('openai', 'gpt-4', { ...options, useContentSource: true });
+
+    assert.ok(withSource.maxChunkTokens < without.maxChunkTokens);
+    assert.equal(without.textTokens, withSource.textTokens);
+  });
+
+  it('plans for the model picked in the request', async () => {
+    const budget = await withLLMCallContext({ modelSettings: { model: 'gpt-4o-mini' } }, () => planTextBudget('openai', 'gpt-4o', options));
+
+    assert.equal(budget.ref.model, 'gpt-4o-mini');
+  });
+
+  it('caps the output for providers that need it', async () => {
+    const budget = await planTextBudget('openai', 'gpt-4o', options, 1000);
+
+    assert.ok(budget.maxOutputTokens <= 1000);
+  });
+});
+
+describe('truncateForCall', () => {
+  it('cuts text to the token limit of the model in use', () => {
+    const text = 'Word '.repeat(100);
+
+    assert.ok(truncateForCall('openai', 'gpt-4o', text, 10).length < text.length);
+    assert.equal(truncateForCall('openai', 'gpt-4o', 'Short.', 10), 'Short.');
+  });
+});
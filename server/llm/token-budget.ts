@@ -0,0 +1,48 @@
+import type { LLMProviderId } from "@shared/schema";
+import { countTokens, planChunkBudget, truncateToTokens, type ChunkBudget, type ModelRef } from "@shared/tokens";
+import { segmentDocument } from "@shared/segmenter";
+import type { ProcessTextOptions } from "./provider";
+import { getCallModel } from "./models";
+import { countTokensExact } from "./tokenizer";
+
+export interface TextBudget extends ChunkBudget {
+  ref: ModelRef;
+  // Size of options.text for the model in use
+  textTokens: number;
+}
+
+/**
+ * Chunk budget for processing options.text with the model the current call
+ * uses. The sources only count against each chunk when they are sent with it.
+ * outputCap lowers the model's output limit for providers that need it.
+ */
+export async function planTextBudget(provider: LLMProviderId, defaultModel: string, options: ProcessTextOptions, outputCap?: number): Promise<TextBudget> {
+  const { limits, ...ref } = getCallModel(provider, defaultModel);
+  // Counted first: for Claude this also calibrates the counts used below and while splitting
+  const textTokens = await countTokensExact(options.text, ref);
+  const budget = planChunkBudget({
+    ...ref,
+    limits: outputCap ? { ...limits, maxOutputTokens: Math.min(limits.maxOutputTokens, outputCap) } : limits,
+    instructions: options.instructions,
+    contentSource: options.useContentSource ? options.contentSource : undefined,
+    styleSource: options.useStyleSource ? options.styleSource : undefined
+  });
+  return { ...budget, ref, textTokens };
+}
+
+// Splits text along its sections into chunks that fit the budget
+export function splitForBudget(text: string, budget: TextBudget): string[] {
+  return segmentDocument(text, budget.maxChunkTokens, budget.ref).chunks;
+}
+
+// Token count of text for the model the current call uses
+export function countCallTokens(provider: LLMProviderId, defaultModel: string, text: string): number {
+  const { limits, ...ref } = getCallModel(provider, defaultModel);
+  return countTokens(text, ref);
+}
+
+// Longest start of text that fits in maxTokens for the model the current call uses
+export function truncateForCall(provider: LLMProviderId, defaultModel: string, text: string, maxTokens: number): string {
+  const { limits, ...ref } = getCallModel(provider, defaultModel);
+  return truncateToTokens(text, maxTokens, ref);
+}
@@ -0,0 +1,80 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { getEncoding, type Tiktoken, type TiktokenEncoding } from 'js-tiktoken';
+import { countTokens, estimateTokenCount, getTokenizerFamily, registerTokenCounter, type ModelRef, type TokenizerFamily } from '@shared/tokens';
+import { getLLMCallContext } from './context';
+import { isMockLLMEnabled } from './mock';
+
+/**
+ * Real token counts for the server. OpenAI and Azure models use their tiktoken
+ * encodings. DeepSeek and the Llama-based Perplexity and local models publish
+ * no JavaScript tokenizer; their BPE vocabularies are close to cl100k (Llama
+ * 3's extends it), so cl100k counts them far better than the estimate.
+ *
+ * Anthropic publishes no tokenizer for current Claude models, only the
+ * count_tokens endpoint. countTokensExact asks it for the size of whole texts
+ * and records how far the estimate was off for that model, so the many small
+ * counts made while splitting a document are scaled to match.
+ */
+
+const ENCODINGS: Partial<Record<TokenizerFamily, TiktokenEncoding>> = {
+  o200k: 'o200k_base',
+  cl100k: 'cl100k_base',
+  deepseek: 'cl100k_base',
+  llama: 'cl100k_base',
+};
+
+// Rank tables take a moment to load, so each encoding is built on first use
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+function getEncoder(encoding: TiktokenEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = getEncoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+for (const [family, encoding] of Object.entries(ENCODINGS) as Array<[TokenizerFamily, TiktokenEncoding]>) {
+  // Special tokens in user text, e.g. "<|endoftext|>", count as the single token they encode to
+  registerTokenCounter(family, (text) => getEncoder(encoding).encode(text, 'all').length);
+}
+
+// Measured count_tokens / estimate per Claude model
+const claudeScale = new Map<string, number>();
+
+registerTokenCounter('claude', (text, ref) =>
+  Math.ceil(estimateTokenCount(text, ref) * (claudeScale.get(ref.model ?? '') ?? 1))
+);
+
+let anthropic: Anthropic | null = null;
+
+function getAnthropicClient(): Anthropic {
+  if (!anthropic) {
+    anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  }
+  return anthropic;
+}
+
+/**
+ * Token count of text for the model, asking Anthropic's count_tokens endpoint
+ * for Claude models. Falls back to countTokens when the endpoint cannot be used.
+ */
+export async function countTokensExact(text: string, ref: ModelRef): Promise<number> {
+  if (!text || getTokenizerFamily(ref) !== 'claude' || !ref.model || !process.env.ANTHROPIC_API_KEY || isMockLLMEnabled()) {
+    return countTokens(text, ref);
+  }
+
+  try {
+    const { input_tokens } = await getAnthropicClient().messages.countTokens(
+      { model: ref.model, messages: [{ role: 'user', content: text }] },
+      { signal: getLLMCallContext().signal }
+    );
+    claudeScale.set(ref.model, input_tokens / Math.max(1, estimateTokenCount(text, ref)));
+    return input_tokens;
+  } catch (error: any) {
+    if (getLLMCallContext().signal?.aborted) throw error;
+    console.error('Anthropic token count failed, using the estimate:', error.message);
+    return countTokens(text, ref);
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { recordUsage, summarizeUsage } from './usage';
+import { estimateTokens } from './pricing';
+import { withLLMCallContext } from './context';
+
+// Records land in storage asynchronously, so each test reads them back by its own document id
+async function recordedFor(documentId: number) {
+  await new Promise(resolve => setImmediate(resolve));
+  return storage.getUsageRecordsByDocumentId(documentId);
+}
+
+describe('recordUsage', () => {
+  it('keeps the token counts the provider reported', async () => {
+    await withLLMCallContext({ provider: 'openai', documentId: 9001 }, async () => {
+      recordUsage({ model: 'gpt-4o', startedAt: Date.now(), inputTokens: 1000, outputTokens: 500 });
+    });
+
+    const [record] = await recordedFor(9001);
+    assert.equal(record.inputTokens, 1000);
+    assert.equal(record.outputTokens, 500);
+    assert.equal(record.tokensEstimated, false);
+    assert.ok(record.estimatedCost! > 0);
+  });
+
+  it("estimates missing counts of an unknown model with the provider's tokenizer", async () => {
+    const output = 'Ein ausführlicher Absatz über Photosynthese, Chlorophyll und Lichtreaktionen.';
+    await withLLMCallContext({ provider: 'anthropic', documentId: 9002 }, async () => {
+      recordUsage({ model: 'self-trained-model', startedAt: Date.now(), prompt: 'Rewrite', output });
+    });
+
+    const [record] = await recordedFor(9002);
+    assert.equal(record.provider, 'anthropic');
+    assert.equal(record.tokensEstimated, true);
+    assert.equal(record.outputTokens, estimateTokens(output, 'self-trained-model', 'anthropic'));
+    assert.notEqual(record.outputTokens, estimateTokens(output, 'self-trained-model', 'openai'));
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('totals the calls and counts the unpriced ones', async () => {
+    await withLLMCallContext({ provider: 'openai', documentId: 9003 }, async () => {
+      recordUsage({ model: 'gpt-4o', startedAt: Date.now(), inputTokens: 10, outputTokens: 20 });
+      recordUsage({ model: 'unpriced-model', startedAt: Date.now(), inputTokens: 1, outputTokens: 2 });
+    });
+
+    const summary = summarizeUsage(await recordedFor(9003));
+    assert.equal(summary.calls, 2);
+    assert.equal(summary.inputTokens, 11);
+    assert.equal(summary.outputTokens, 22);
+    assert.equal(summary.unpricedCalls, 1);
+  });
+});
@@ -0,0 +1,90 @@
+import type { UsageRecord } from "@shared/schema";
+import { storage } from "../storage";
+import { estimateCost, estimateTokens } from "./pricing";
+import { getLLMCallContext } from "./context";
+
+export interface UsageSample {
+  model: string;
+  startedAt: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  // Used to estimate token counts when the provider did not report them
+  prompt?: unknown;
+  output?: string;
+  provider?: string;
+}
+
+/**
+ * Writes one API call to the usage ledger. Failures are logged and never
+ * surface to the request that made the call.
+ */
+export function recordUsage(sample: UsageSample): void {
+  const context = getLLMCallContext();
+  const provider = sample.provider ?? context.provider ?? 'unknown';
+  const tokensEstimated = sample.inputTokens === undefined || sample.outputTokens === undefined;
+  const inputTokens = sample.inputTokens ?? estimateTokens(JSON.stringify(sample.prompt ?? ''), sample.model, provider);
+  const outputTokens = sample.outputTokens ?? estimateTokens(sample.output ?? '', sample.model, provider);
+
+  storage.createUsageRecord({
+    documentId: context.documentId ?? null,
+    provider,
+    model: sample.model,
+    operation: context.operation ?? null,
+    inputTokens,
+    outputTokens,
+    tokensEstimated,
+    latencyMs: Date.now() - sample.startedAt,
+    estimatedCost: estimateCost(provider, sample.model, inputTokens, outputTokens),
+    promptVersions: context.promptVersions?.size ? Array.from(context.promptVersions).sort() : null,
+  }).catch((error) => {
+    console.error('Failed to record LLM usage:', error);
+  });
+}
+
+export interface UsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number;
+  latencyMs: number;
+  // Calls whose model has no known pricing, so estimatedCost understates the total
+  unpricedCalls: number;
+}
+
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = { calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0, latencyMs: 0, unpricedCalls: 0 };
+
+  for (const record of records) {
+    summary.calls++;
+    summary.inputTokens += record.inputTokens;
+    summary.outputTokens += record.outputTokens;
+    summary.latencyMs += record.latencyMs;
+    if (record.estimatedCost === null) {
+      summary.unpricedCalls++;
+    } else {
+      summary.estimatedCost += record.estimatedCost;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Groups records by UTC day, oldest first
+ */
+export function summarizeUsageByDay(records: UsageRecord[]): Array<UsageSummary & { date: string }> {
+  const byDay = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const date = record.createdAt.toISOString().slice(0, 10);
+    const dayRecords = byDay.get(date);
+    if (dayRecords) {
+      dayRecords.push(record);
+    } else {
+      byDay.set(date, [record]);
+    }
+  }
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayRecords]) => ({ date, ...summarizeUsage(dayRecords) }));
+}
@@ -0,0 +1,296 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import { registerRoutes } from './routes';
+import { mockLLMConfig } from './llm/mock';
+import { listProviders } from './llm';
+
+/**
+ * Route-level tests against the mock provider and in-memory storage; npm test
+ * sets LLM_PROVIDER=mock, MOCK_LLM_MODE=uppercase and STORAGE=memory. Requests
+ * to anything but this server, e.g. the GPTZero scores of a rewrite, fail as
+ * they would offline.
+ */
+
+let server: Server;
+let baseUrl: string;
+
+async function request(method: string, path: string, body?: unknown) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() as any };
+}
+
+const post = (path: string, body: unknown = {}) => request('POST', path, body);
+const get = (path: string) => request('GET', path);
+
+// The events of a server-sent event stream, in order
+async function postStream(path: string, body: unknown) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return Array.from((await response.text()).matchAll(/event: (\w+)\ndata: (.*)\n\n/g), ([, event, data]) => ({ event, data: JSON.parse(data) }));
+}
+
+// Polls the job until done says it has settled
+async function waitForJob(id: number, done: (job: any) => boolean) {
+  for (let attempt = 0; attempt < 500; attempt++) {
+    const { body } = await get(`/api/jobs/${id}`);
+    if (done(body)) return body;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Job ${id} did not settle`);
+}
+
+before(async () => {
+  // The limiters' pacing is for real APIs; the mock answers at once
+  for (const provider of listProviders()) {
+    process.env[`${provider.id.toUpperCase()}_REQUESTS_PER_MINUTE`] = '60000';
+  }
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const realFetch = globalThis.fetch;
+  mock.method(globalThis, 'fetch', (input: string | URL | Request, init?: RequestInit) =>
+    String(input instanceof Request ? input.url : input).startsWith(baseUrl)
+      ? realFetch(input, init)
+      : Promise.reject(new Error('Network access is disabled in tests'))
+  );
+});
+
+after(async () => {
+  mock.restoreAll();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('POST /api/process-chunk', () => {
+  it('returns the processed chunk with its position', async () => {
+    const { status, body } = await post('/api/process-chunk', {
+      inputText: 'The first chunk of the essay.',
+      instructions: 'Tighten the prose',
+      llmProvider: 'openai',
+      chunkIndex: 0,
+      totalChunks: 2
+    });
+
+    assert.equal(status, 200);
+    assert.match(body.result, /THE FIRST CHUNK OF THE ESSAY\./);
+    assert.equal(body.provider, 'openai');
+    assert.equal(body.chunkIndex, 0);
+    assert.equal(body.totalChunks, 2);
+    assert.equal(body.cancelled, false);
+  });
+
+  it('saves the chunk as a document', async () => {
+    const { body } = await post('/api/process-chunk', {
+      inputText: 'A chunk worth keeping.',
+      llmProvider: 'openai',
+      chunkIndex: 2,
+      totalChunks: 3
+    });
+
+    const document = await get(`/api/documents/${body.documentId}`);
+    assert.equal(document.body.title, 'A chunk worth keeping. (chunk 3 of 3)');
+    assert.equal(document.body.outputText, 'A CHUNK WORTH KEEPING.');
+  });
+
+  it('advances the rolling context', async () => {
+    const { status, body } = await post('/api/process-chunk', {
+      inputText: 'Darwin sailed on the Beagle.',
+      llmProvider: 'anthropic',
+      chunkIndex: 0,
+      totalChunks: 1,
+      rollingContext: true
+    });
+
+    assert.equal(status, 200);
+    assert.match(body.chunkContext.summary, /DARWIN SAILED ON THE BEAGLE\./);
+  });
+
+  it('rejects a request without input text', async () => {
+    const { status, body } = await post('/api/process-chunk', { llmProvider: 'openai', chunkIndex: 0, totalChunks: 1 });
+
+    assert.equal(status, 400);
+    assert.match(body.error, /inputText/);
+  });
+});
+
+describe('POST /api/process-chunks/stream', () => {
+  it('saves the finished chunks in document order as one document', async () => {
+    const events = await postStream('/api/process-chunks/stream', {
+      llmProvider: 'openai',
+      chunks: [{ index: 1, text: 'Second part.' }, { index: 0, text: 'First part.' }],
+      totalChunks: 2
+    });
+
+    const done = events.find(({ event }) => event === 'done')!.data;
+    assert.equal(done.completed, 2);
+    const document = await get(`/api/documents/${done.documentId}`);
+    assert.equal(document.body.inputText, 'First part.\n\nSecond part.');
+    assert.equal(document.body.outputText, 'FIRST PART.\n\nSECOND PART.');
+  });
+});
+
+describe('POST /api/rewrite', () => {
+  it('rewrites the text and saves the run as a document', async () => {
+    const { status, body } = await post('/api/rewrite', {
+      inputText: 'A plain sentence to restyle.',
+      styleText: 'Terse and direct.',
+      provider: 'deepseek'
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.rewrittenText, 'A PLAIN SENTENCE TO RESTYLE.');
+    assert.equal(body.provider, 'deepseek');
+    assert.equal(body.inputAiScore, 0);
+
+    const document = await get(`/api/documents/${body.documentId}`);
+    assert.equal(document.status, 200);
+    assert.equal(document.body.kind, 'rewrite');
+  });
+
+  it('rejects an unknown provider', async () => {
+    const { status } = await post('/api/rewrite', { inputText: 'Some text', provider: 'nonexistent' });
+
+    assert.equal(status, 400);
+  });
+});
+
+describe('POST /api/humanize-text', () => {
+  it('rewrites the text in the style of the style source', async () => {
+    const { status, body } = await post('/api/humanize-text', { text: 'Make this sound human.', styleSource: 'Plain.' });
+
+    assert.equal(status, 200);
+    assert.equal(body.humanizedText, 'MAKE THIS SOUND HUMAN.');
+    assert.equal(body.llmProvider, 'anthropic');
+  });
+
+  it('rejects an unknown provider and a model of another provider', async () => {
+    assert.equal((await post('/api/humanize-text', { text: 'Some text', llmProvider: 'nonexistent' })).status, 400);
+    assert.equal((await post('/api/humanize-text', { text: 'Some text', llmProvider: 'anthropic', model: 'gpt-4o' })).status, 400);
+  });
+});
+
+describe('POST /api/query-content-source', () => {
+  it('answers from the content source', async () => {
+    const { status, body } = await post('/api/query-content-source', { question: 'Who sailed?', contentSource: 'Darwin sailed.' });
+
+    assert.equal(status, 200);
+    assert.equal(body.answer, 'WHO SAILED?');
+    assert.equal(body.provider, 'deepseek');
+  });
+
+  it('rejects an unknown provider and a missing question', async () => {
+    assert.equal((await post('/api/query-content-source', { question: 'Why?', contentSource: 'Text', llmProvider: 'nonexistent' })).status, 400);
+    assert.equal((await post('/api/query-content-source', { contentSource: 'Text' })).status, 400);
+  });
+});
+
+describe('POST /api/solve-homework', () => {
+  it('solves the assignment and saves it as a homework document', async () => {
+    const { status, body } = await post('/api/solve-homework', {
+      assignment: 'Explain photosynthesis in two sentences.',
+      llmProvider: 'perplexity'
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.result, 'EXPLAIN PHOTOSYNTHESIS IN TWO SENTENCES.');
+    assert.equal(body.provider, 'perplexity');
+
+    const document = await get(`/api/documents/${body.documentId}`);
+    assert.equal(document.body.kind, 'homework');
+  });
+
+  it('rejects a request without an assignment', async () => {
+    const { status, body } = await post('/api/solve-homework', { llmProvider: 'openai' });
+
+    assert.equal(status, 400);
+    assert.match(body.error, /assignment/);
+  });
+});
+
+describe('response cache', () => {
+  it('answers a repeated request from the cache', async () => {
+    const data = { inputText: 'Cache this paragraph.', llmProvider: 'openai', useCache: true };
+
+    const first = await post('/api/process-text', data);
+    const second = await post('/api/process-text', data);
+
+    assert.equal(first.body.cached, false);
+    assert.equal(second.body.cached, true);
+    assert.equal(second.body.result, first.body.result);
+  });
+});
+
+describe('document revisions', () => {
+  it('diffs two runs saved to the same document', async () => {
+    const first = await post('/api/process-text', { inputText: 'The cat sat.', llmProvider: 'openai' });
+    const second = await post('/api/process-text', { inputText: 'The dog sat.', llmProvider: 'openai', documentId: first.body.documentId });
+
+    assert.equal(second.body.documentId, first.body.documentId);
+    const revisions = await get(`/api/documents/${first.body.documentId}/revisions`);
+    assert.equal(revisions.body.length, 2);
+
+    const diff = await get(`/api/documents/${first.body.documentId}/revisions/diff?from=${first.body.revisionId}&to=${second.body.revisionId}`);
+    assert.equal(diff.status, 200);
+    assert.ok(diff.body.changes.some((change: any) => change.type === 'added' && change.text.includes('DOG')));
+    assert.ok(diff.body.changes.some((change: any) => change.type === 'removed' && change.text.includes('CAT')));
+  });
+});
+
+describe('shared instructions', () => {
+  it('copies shared instructions under a free name and stops sharing on request', async () => {
+    const saved = await post('/api/saved-instructions', { name: 'Formal tone', instructions: 'Write formally.' });
+    const shared = await post(`/api/saved-instructions/${saved.body.id}/share`);
+    const token = shared.body.shareToken;
+    assert.ok(token);
+
+    const copy = await post(`/api/shared-instructions/${token}/copy`);
+    assert.equal(copy.status, 201);
+    assert.equal(copy.body.name, 'Formal tone (2)');
+    assert.equal(copy.body.instructions, 'Write formally.');
+
+    await request('DELETE', `/api/saved-instructions/${saved.body.id}/share`);
+    assert.equal((await get(`/api/shared-instructions/${token}`)).status, 404);
+  });
+});
+
+describe('background jobs', () => {
+  const chunks = [{ index: 0, text: 'First chunk.' }, { index: 1, text: 'Second chunk.' }];
+
+  it('processes every chunk of a job', async () => {
+    const { status, body } = await post('/api/jobs', { llmProvider: 'openai', chunks, totalChunks: 2 });
+    assert.equal(status, 201);
+
+    const job = await waitForJob(body.id, (job) => job.status === 'completed' || job.status === 'failed');
+    assert.equal(job.status, 'completed');
+    assert.deepEqual(job.chunks.map((chunk: any) => chunk.result), ['FIRST CHUNK.', 'SECOND CHUNK.']);
+  });
+
+  it('cancels a running job and refuses to cancel it twice', async (t) => {
+    t.after(() => { mockLLMConfig.latencyMs = 0; });
+    mockLLMConfig.latencyMs = 200;
+
+    const { body } = await post('/api/jobs', { llmProvider: 'openai', chunks, totalChunks: 2 });
+    const cancelled = await post(`/api/jobs/${body.id}/cancel`);
+    assert.equal(cancelled.status, 200);
+    assert.equal(cancelled.body.status, 'cancelled');
+
+    // The chunk in flight goes back to pending once its call sees the abort
+    const job = await waitForJob(body.id, (job) => job.chunks.every((chunk: any) => chunk.status !== 'processing'));
+    assert.equal(job.status, 'cancelled');
+    assert.ok(job.chunks.every((chunk: any) => chunk.status === 'pending'));
+    assert.equal((await post(`/api/jobs/${body.id}/cancel`)).status, 409);
+  });
+});
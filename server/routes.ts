@@ -6,24 +6,53 @@ import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { 
   processTextSchema, 
+  solveHomeworkSchema,
+  humanizeTextSchema,
+  queryContentSourceSchema,
+  processChunksSchema,
+  createJobSchema,
+  chunkContextSchema,
+  synthesizeSchema,
+  compareSchema,
   detectAiSchema, 
   searchOnlineSchema, 
   sendEmailSchema,
   chatRequestSchema,
-  rewriteSchema 
+  rewriteSchema,
+  savedInstructionsSchema,
+  updateSavedInstructionsSchema,
+  libraryItemSchema,
+  updateLibraryItemSchema,
+  libraryItemKinds,
+  type LLMProviderId,
+  type InsertDocument
 } from "@shared/schema";
 import { stripMarkdown, preserveMathAndStripMarkdown } from "./utils/markdown-stripper";
-import { processTextWithOpenAI, detectAIWithOpenAI, transcribeAudio, solveHomeworkWithOpenAI, processChatWithOpenAI, queryContentSourceWithOpenAI } from "./llm/openai";
-import { processTextWithAnthropic, detectAIWithAnthropic, solveHomeworkWithAnthropic, processChatWithAnthropic, queryContentSourceWithAnthropic } from "./llm/anthropic";
-import { processTextWithPerplexity, detectAIWithPerplexity, solveHomeworkWithPerplexity, processChatWithPerplexity, queryContentSourceWithPerplexity } from "./llm/perplexity";
-import { processTextWithDeepSeek, detectAIWithDeepSeek, solveHomeworkWithDeepSeek, processChatWithDeepSeek, queryContentSourceWithDeepSeek } from "./llm/deepseek";
+import { runWithFailover } from "./llm/failover";
+import { processChunksConcurrently, getChunkConcurrency } from "./llm/chunk-pool";
+import { summarizeUsage, summarizeUsageByDay } from "./llm/usage";
+import { estimateProcessingCost } from "./llm/pricing";
+import { getModelCatalog, pickModelSettings, validateModelSettings } from "./llm/models";
+import { getPromptTemplates, getPromptVersion, parsePromptRef, formatPromptRef } from "./llm/prompts";
+import { diffLines } from "./utils/line-diff";
+import { openEventStream } from "./utils/sse";
+import { createRequestSignal, cancelRequest } from "./utils/cancellation";
+import { processDocumentChunk, advanceChunkContext } from "./services/document-chunks";
+import { EMPTY_CHUNK_CONTEXT } from "./llm/chunk-context";
+import { runJob, isJobRunning, cancelJob, resumeInterruptedJobs } from "./services/jobs";
+import { synthesizeDocument } from "./services/synthesis";
+import { saveRunAsDocument, listRevisions, restoreRevision, titleFromText } from "./services/documents";
+import { findByName, availableName, filterSavedInstructions, createShareToken, toSharedInstructions } from "./services/saved-instructions";
+import { seedWritingSamples, filterLibraryItems, isBuiltin } from "./services/source-library";
+import { diffWords } from "./utils/word-diff";
 import { detectAIWithGPTZero } from "./services/gptzero";
 import { searchOnline, fetchWebContent } from "./services/google";
 import { sendDocumentEmail } from "./services/sendgrid";
 import { extractTextFromPDF } from "./services/pdf-processor";
+import { extractTextFromDocx } from "./services/docx-extractor";
 import { extractTextFromImageWithMathpix } from "./services/mathpix";
 import { processMathPDFWithAzure, processMathImageWithAzure, enhanceMathFormatting } from "./services/azure-math";
-import { aiProviderService } from "./services/aiProviders";
+import { isAzureOpenAIConfigured } from "./llm/azure";
 
 
 
@@ -69,41 +98,94 @@ const upload = multer({
   }
 });
 
+// Tries GPTZero first and falls back to model-based detection
+async function detectAIContent(text: string, llmProvider?: LLMProviderId, signal?: AbortSignal) {
+  try {
+    return await detectAIWithGPTZero(text);
+  } catch (gptzeroError) {
+    console.log("GPTZero failed, falling back to model-based detection:", gptzeroError instanceof Error ? gptzeroError.message : 'GPTZero error');
+    
+    // Fall back to selected LLM provider for detection
+    const { result, provider } = await runWithFailover(llmProvider ?? 'openai', (llm) => llm.detectAI(text), {
+      context: { operation: 'detect-ai', signal }
+    });
+    return { ...result, provider };
+  }
+}
+
+// The document a finished process-text run is saved as
+function processRunDocument(data: z.infer<typeof processTextSchema>, outputText: string, provider: LLMProviderId, startedAt: number): InsertDocument {
+  return {
+    kind: 'process',
+    title: titleFromText(data.inputText),
+    inputText: data.inputText,
+    outputText,
+    instructions: data.instructions || null,
+    llmProvider: provider,
+    contentSource: data.useContentSource ? data.contentSource : null,
+    styleSource: data.useStyleSource ? data.styleSource : null,
+    durationMs: Date.now() - startedAt
+  };
+}
+
+function countWords(text: string): number {
+  return text.trim() ? text.trim().split(/\s+/).length : 0;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
   
+  // Jobs left queued or running by the last server process carry on from their saved chunks
+  resumeInterruptedJobs().catch((error) => {
+    console.error('Failed to resume interrupted jobs:', error);
+  });
+  seedWritingSamples().catch((error) => {
+    console.error('Failed to seed the built-in writing samples:', error);
+  });
+  
   // Health check endpoint
   app.get('/api/health', (_req, res) => {
     res.json({ status: 'ok' });
   });
 
+  // Cancels a running LLM request that was sent with an X-Request-Id header. The
+  // request still answers its own connection with whatever finished before the cancel.
+  app.post('/api/requests/:requestId/cancel', (req: Request, res: Response) => {
+    if (!cancelRequest(req.params.requestId)) {
+      return res.status(404).json({ error: 'No running request with this id' });
+    }
+    res.json({ cancelled: true });
+  });
+
   // SEPARATE HOMEWORK ENDPOINT - BYPASSES ALL REWRITE LOGIC
   app.post('/api/solve-homework', async (req: Request, res: Response) => {
+    const signal = createRequestSignal(req, res);
     try {
-      const { assignment, llmProvider = 'anthropic', contentSource, styleSource } = req.body;
-      
-      let solution: string;
-      
-      switch (llmProvider) {
-        case 'openai':
-          solution = await solveHomeworkWithOpenAI(assignment, contentSource, styleSource);
-          break;
-        case 'anthropic':
-          solution = await solveHomeworkWithAnthropic(assignment, contentSource, styleSource);
-          break;
-        case 'perplexity':
-          solution = await solveHomeworkWithPerplexity(assignment, contentSource, styleSource);
-          break;
-        case 'deepseek':
-          solution = await solveHomeworkWithDeepSeek(assignment, contentSource, styleSource);
-          break;
-        default:
-          throw new Error(`Unsupported LLM provider: ${llmProvider}`);
-      }
-      
-      res.json({ result: solution });
+      const { assignment, llmProvider, contentSource, styleSource, useCache, refreshCache } = solveHomeworkSchema.parse(req.body);
+      const startedAt = Date.now();
+      
+      const { result: solution, provider, cached, prompts } = await runWithFailover(llmProvider, (llm) =>
+        llm.solveHomework(assignment, contentSource, styleSource),
+        { context: { operation: 'solve-homework', cache: { enabled: useCache, refresh: refreshCache }, signal } }
+      );
+      
+      // A cancelled run only has part of its output, so it is not saved
+      const saved = signal.aborted ? undefined : await saveRunAsDocument({
+        kind: 'homework',
+        inputText: assignment,
+        outputText: solution,
+        llmProvider: provider,
+        contentSource: contentSource || null,
+        styleSource: styleSource || null,
+        durationMs: Date.now() - startedAt
+      });
+      
+      res.json({ result: solution, provider, cached, prompts, documentId: saved?.document.id, revisionId: saved?.revision.id });
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
       console.error('Error solving homework:', error);
       res.status(500).json({ 
         error: 'Failed to solve homework', 
@@ -114,75 +196,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Process text endpoint
   app.post('/api/process-text', async (req: Request, res: Response) => {
+    const signal = createRequestSignal(req, res);
     try {
       const data = processTextSchema.parse(req.body);
-      
-      // Select LLM provider based on user choice
-      let processedText: string;
-      
-      switch (data.llmProvider) {
-        case 'openai':
-          processedText = await processTextWithOpenAI({
-            text: data.inputText,
-            instructions: data.instructions,
-            contentSource: data.contentSource,
-            styleSource: data.styleSource,
-            useContentSource: data.useContentSource,
-            useStyleSource: data.useStyleSource,
-            examMode: data.examMode
-          });
-          break;
-        case 'anthropic':
-          processedText = await processTextWithAnthropic({
-            text: data.inputText,
-            instructions: data.instructions,
-            contentSource: data.contentSource,
-            styleSource: data.styleSource,
-            useContentSource: data.useContentSource,
-            useStyleSource: data.useStyleSource,
-            examMode: data.examMode
-          });
-          break;
-        case 'perplexity':
-          processedText = await processTextWithPerplexity({
-            text: data.inputText,
-            instructions: data.instructions,
-            contentSource: data.contentSource,
-            styleSource: data.styleSource,
-            useContentSource: data.useContentSource,
-            useStyleSource: data.useStyleSource,
-            examMode: data.examMode
-          });
-          break;
-        case 'deepseek':
-          processedText = await processTextWithDeepSeek(
-            data.inputText,
-            data.instructions,
-            data.useContentSource ? data.contentSource : undefined,
-            data.useStyleSource ? data.styleSource : undefined,
-            data.examMode
-          );
-          break;
-        case 'azure':
-          // Azure OpenAI uses same interface as OpenAI but with different endpoint
-          processedText = await processTextWithOpenAI({
-            text: data.inputText,
-            instructions: data.instructions,
-            contentSource: data.contentSource,
-            styleSource: data.styleSource,
-            useContentSource: data.useContentSource,
-            useStyleSource: data.useStyleSource,
-            examMode: data.examMode
-          });
-          break;
-        default:
-          throw new Error('Invalid LLM provider');
+      const modelError = validateModelSettings(data.llmProvider, data);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
       }
+      const startedAt = Date.now();
+      
+      const { result: processedText, provider, cached, prompts } = await runWithFailover(data.llmProvider, (llm) => llm.processText({
+        text: data.inputText,
+        instructions: data.instructions,
+        contentSource: data.contentSource,
+        styleSource: data.styleSource,
+        useContentSource: data.useContentSource,
+        useStyleSource: data.useStyleSource,
+        examMode: data.examMode
+      }), {
+        context: {
+          operation: 'process-text',
+          documentId: data.documentId,
+          cache: { enabled: data.useCache, refresh: data.refreshCache },
+          modelSettings: pickModelSettings(data),
+          signal
+        }
+      });
+      
+      // A cancelled run only has part of its output, so it is not saved; with a
+      // documentId the run is the next revision of that document
+      const saved = signal.aborted ? undefined : await saveRunAsDocument(processRunDocument(data, processedText, provider, startedAt), data.documentId);
       
       // Return LLM output exactly as received - NO FILTERING OR PROCESSING
-      res.json({ result: processedText });
+      // After a cancel, large documents return the chunks finished before it
+      res.json({ result: processedText, provider, cached, prompts, cancelled: signal.aborted, documentId: saved?.document.id, revisionId: saved?.revision.id });
     } catch (error: unknown) {
-      if (error instanceof z.ZodError) {
+      if (signal.aborted) {
+        res.json({ result: '', cancelled: true });
+      } else if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
       } else {
         console.error('Error processing text:', error);
@@ -191,68 +242,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Process document chunk endpoint
+  // Streaming variant of process-text: emits token events, then a done event with the final text
+  app.post('/api/process-text/stream', async (req: Request, res: Response) => {
+    let data;
+    try {
+      data = processTextSchema.parse(req.body);
+    } catch (error: unknown) {
+      const message = error instanceof z.ZodError ? fromZodError(error).message : 'Invalid request';
+      return res.status(400).json({ error: message });
+    }
+    const modelError = validateModelSettings(data.llmProvider, data);
+    if (modelError) {
+      return res.status(400).json({ error: modelError });
+    }
+    
+    const signal = createRequestSignal(req, res);
+    const stream = openEventStream(res);
+    const startedAt = Date.now();
+    let streamedText = '';
+    try {
+      const { result: processedText, provider, cached, prompts } = await runWithFailover(data.llmProvider, (llm) => llm.processText({
+        text: data.inputText,
+        instructions: data.instructions,
+        contentSource: data.contentSource,
+        styleSource: data.styleSource,
+        useContentSource: data.useContentSource,
+        useStyleSource: data.useStyleSource,
+        examMode: data.examMode
+      }, (token) => {
+        streamedText += token;
+        stream.send('token', { token });
+      }), {
+        canFailOver: () => !streamedText,
+        context: {
+          operation: 'process-text',
+          documentId: data.documentId,
+          cache: { enabled: data.useCache, refresh: data.refreshCache },
+          modelSettings: pickModelSettings(data),
+          signal
+        }
+      });
+      
+      const saved = signal.aborted ? undefined : await saveRunAsDocument(processRunDocument(data, processedText, provider, startedAt), data.documentId);
+      stream.send('done', { result: processedText, provider, cached, prompts, cancelled: signal.aborted, documentId: saved?.document.id, revisionId: saved?.revision.id });
+    } catch (error: unknown) {
+      if (signal.aborted) {
+        // The tokens streamed before the cancel are the partial result
+        stream.send('done', { result: streamedText, cancelled: true });
+      } else {
+        console.error('Error streaming processed text:', error);
+        stream.send('error', { error: error instanceof Error ? error.message : 'Failed to process text' });
+      }
+    } finally {
+      stream.close();
+    }
+  });
+
+  // Process document chunk endpoint. With rollingContext the chunk is processed with
+  // chunkContext and the response carries the context to send with the next chunk.
   app.post('/api/process-chunk', async (req: Request, res: Response) => {
+    const signal = createRequestSignal(req, res);
     try {
       const schema = processTextSchema.extend({
         chunkIndex: z.number(),
-        totalChunks: z.number()
+        totalChunks: z.number(),
+        rollingContext: z.boolean().optional().default(false),
+        chunkContext: chunkContextSchema.optional(),
+        documentOverview: z.string().optional()
       });
       
       const data = schema.parse(req.body);
+      const modelError = validateModelSettings(data.llmProvider, data);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
+      }
       
-      // Select LLM provider based on user choice
-      let processedText: string;
-      
-      // Add context about this being part of a larger document
-      const chunkContext = `[Processing chunk ${data.chunkIndex + 1} of ${data.totalChunks}]\n`;
-      const enhancedInstructions = chunkContext + data.instructions + 
-        "\nNote: This is part of a larger document, maintain consistency with previous chunks.";
+      const startedAt = Date.now();
+      const context = data.rollingContext ? data.chunkContext ?? EMPTY_CHUNK_CONTEXT : undefined;
+      const { result: processedText, provider, cached, prompts } = await processDocumentChunk(data, data.inputText, data.chunkIndex, data.totalChunks, context, signal);
+      const chunkContext = context && !signal.aborted ? await advanceChunkContext(data, context, processedText, signal) : context;
       
-      switch (data.llmProvider) {
-        case 'openai':
-          processedText = await processTextWithOpenAI({
-            text: data.inputText,
-            instructions: enhancedInstructions,
-            contentSource: data.contentSource,
-            useContentSource: data.useContentSource
-          });
-          break;
-        case 'anthropic':
-          processedText = await processTextWithAnthropic({
-            text: data.inputText,
-            instructions: enhancedInstructions,
-            contentSource: data.contentSource,
-            useContentSource: data.useContentSource
-          });
-          break;
-        case 'perplexity':
-          processedText = await processTextWithPerplexity({
-            text: data.inputText,
-            instructions: enhancedInstructions,
-            contentSource: data.contentSource,
-            useContentSource: data.useContentSource
-          });
-          break;
-        case 'deepseek':
-          processedText = await processTextWithDeepSeek(
-            data.inputText,
-            enhancedInstructions,
-            data.useContentSource ? data.contentSource : undefined
-          );
-          break;
-        default:
-          throw new Error('Invalid LLM provider');
-      }
+      // Each chunk request is a run of its own; a cancelled one is not saved
+      const saved = signal.aborted ? undefined : await saveRunAsDocument({
+        ...processRunDocument(data, processedText, provider, startedAt),
+        title: `${titleFromText(data.inputText)} (chunk ${data.chunkIndex + 1} of ${data.totalChunks})`
+      }, data.documentId);
       
       // Return LLM output exactly as received - NO FILTERING OR PROCESSING
       res.json({ 
         result: processedText,
+        provider,
+        cached,
+        prompts,
         chunkIndex: data.chunkIndex,
-        totalChunks: data.totalChunks
+        totalChunks: data.totalChunks,
+        chunkContext,
+        cancelled: signal.aborted,
+        documentId: saved?.document.id,
+        revisionId: saved?.revision.id
       });
     } catch (error: unknown) {
-      if (error instanceof z.ZodError) {
+      if (signal.aborted) {
+        res.json({ result: '', chunkIndex: req.body.chunkIndex, totalChunks: req.body.totalChunks, cancelled: true });
+      } else if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
       } else {
         console.error('Error processing chunk:', error);
@@ -261,35 +353,190 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Detect AI-generated content
-  app.post('/api/detect-ai', async (req: Request, res: Response) => {
+  // Processes chunks of one document concurrently (see <PROVIDER>_CHUNK_CONCURRENCY) and
+  // emits a chunk event whenever one starts, finishes or fails, then a done event.
+  // A failed chunk does not stop the rest; clients retry it by sending just that chunk again.
+  // On cancel, chunks not yet finished are reported as cancelled and finished ones are kept.
+  // With rollingContext the chunks run one at a time in document order, each with the
+  // context of the ones before it, and the done event carries the final context.
+  app.post('/api/process-chunks/stream', async (req: Request, res: Response) => {
+    let data;
     try {
-      const { text, llmProvider } = detectAiSchema.parse(req.body);
+      data = processChunksSchema.parse(req.body);
+    } catch (error: unknown) {
+      const message = error instanceof z.ZodError ? fromZodError(error).message : 'Invalid request';
+      return res.status(400).json({ error: message });
+    }
+    const modelError = validateModelSettings(data.llmProvider, data);
+    if (modelError) {
+      return res.status(400).json({ error: modelError });
+    }
+    
+    const signal = createRequestSignal(req, res);
+    const stream = openEventStream(res);
+    const startedAt = Date.now();
+    let context = data.rollingContext ? data.chunkContext ?? EMPTY_CHUNK_CONTEXT : undefined;
+    if (context) {
+      data.chunks.sort((a, b) => a.index - b.index);
+    }
+    try {
+      const outcomes = await processChunksConcurrently(
+        data.chunks,
+        async (chunk) => {
+          const outcome = await processDocumentChunk(data, chunk.text, chunk.index, data.totalChunks, context, signal);
+          if (context) {
+            context = await advanceChunkContext(data, context, outcome.result, signal);
+          }
+          return outcome;
+        },
+        {
+          concurrency: context ? 1 : getChunkConcurrency(data.llmProvider),
+          signal,
+          onStatus: (position, status, outcome) => {
+            const index = data.chunks[position].index;
+            if (outcome?.result) {
+              const { result, provider, cached, prompts } = outcome.result;
+              stream.send('chunk', { index, status, result, provider, cached, prompts });
+            } else if (status === 'processing') {
+              // The context this chunk starts from, so the client can regenerate it from the same place
+              stream.send('chunk', { index, status, chunkContext: context });
+            } else {
+              if (outcome?.error) console.error(`Error processing chunk ${index + 1}:`, outcome.error);
+              stream.send('chunk', { index, status, error: outcome?.error });
+            }
+          }
+        }
+      );
+      
+      const indicesWith = (status: string) => outcomes.filter(outcome => outcome.status === status).map(outcome => data.chunks[outcome.index].index);
+      
+      // The finished chunks in document order are the run's output; a cancelled run is not saved
+      const finished = outcomes
+        .filter(outcome => outcome.status === 'done' && outcome.result)
+        .map(outcome => ({ chunk: data.chunks[outcome.index], result: outcome.result! }))
+        .sort((a, b) => a.chunk.index - b.chunk.index);
+      const saved = signal.aborted || finished.length === 0 ? undefined : await saveRunAsDocument(processRunDocument(
+        { ...data, inputText: finished.map(({ chunk }) => chunk.text).join('\n\n') },
+        finished.map(({ result }) => result.result).join('\n\n'),
+        finished[0].result.provider,
+        startedAt
+      ), data.documentId);
+      
+      stream.send('done', {
+        completed: indicesWith('done').length,
+        failed: indicesWith('failed'),
+        cancelled: indicesWith('cancelled'),
+        chunkContext: context,
+        documentId: saved?.document.id,
+        revisionId: saved?.revision.id
+      });
+    } catch (error: unknown) {
+      console.error('Error processing chunks:', error);
+      stream.send('error', { error: error instanceof Error ? error.message : 'Failed to process chunks' });
+    } finally {
+      stream.close();
+    }
+  });
+
+  // Builds a map of the whole document, with section summaries, key claims and
+  // chunk anchors, and an abstract. Progress is streamed while the summaries come in.
+  app.post('/api/synthesize/stream', async (req: Request, res: Response) => {
+    let data;
+    try {
+      data = synthesizeSchema.parse(req.body);
+    } catch (error: unknown) {
+      const message = error instanceof z.ZodError ? fromZodError(error).message : 'Invalid request';
+      return res.status(400).json({ error: message });
+    }
+    const modelError = validateModelSettings(data.llmProvider, data);
+    if (modelError) {
+      return res.status(400).json({ error: modelError });
+    }
+    
+    const signal = createRequestSignal(req, res);
+    const stream = openEventStream(res);
+    try {
+      const map = await synthesizeDocument(data, (progress) => stream.send('progress', progress), signal);
+      stream.send('done', map);
+    } catch (error: unknown) {
+      console.error('Error synthesizing document:', error);
+      stream.send('error', { error: error instanceof Error ? error.message : 'Failed to synthesize the document' });
+    } finally {
+      stream.close();
+    }
+  });
+
+  // Runs one request against several providers at once for side-by-side comparison.
+  // Each provider gets its own column: there is no failover, and a failing provider
+  // is reported in its column instead of failing the whole comparison.
+  app.post('/api/compare', async (req: Request, res: Response) => {
+    const signal = createRequestSignal(req, res);
+    try {
+      const data = compareSchema.parse(req.body);
+      const providers = Array.from(new Set(data.providers));
+      const modelError = providers.map(provider => validateModelSettings(provider, data)).find(Boolean);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
+      }
       
-      // Try GPTZero first, fall back to model-based detection
-      try {
-        const result = await detectAIWithGPTZero(text);
-        res.json(result);
-      } catch (gptzeroError) {
-        console.log("GPTZero failed, falling back to model-based detection:", gptzeroError instanceof Error ? gptzeroError.message : 'GPTZero error');
-        
-        // Fall back to selected LLM provider for detection
-        let result;
-        switch (llmProvider) {
-          case 'anthropic':
-            result = await detectAIWithAnthropic(text);
-            break;
-          case 'perplexity':
-            result = await detectAIWithPerplexity(text);
-            break;
-          case 'deepseek':
-            result = await detectAIWithDeepSeek(text);
-            break;
-          default:
-            result = await detectAIWithOpenAI(text);
+      const results = await Promise.all(providers.map(async (provider) => {
+        const startedAt = Date.now();
+        try {
+          const { result, cached, prompts } = await runWithFailover(provider, (llm) => llm.processText({
+            text: data.inputText,
+            instructions: data.instructions,
+            contentSource: data.contentSource,
+            styleSource: data.styleSource,
+            useContentSource: data.useContentSource,
+            useStyleSource: data.useStyleSource,
+            examMode: data.examMode
+          }), {
+            canFailOver: () => false,
+            context: {
+              operation: 'compare',
+              documentId: data.documentId,
+              cache: { enabled: data.useCache, refresh: data.refreshCache },
+              modelSettings: pickModelSettings(data),
+              signal
+            }
+          });
+          const latencyMs = Date.now() - startedAt;
+          
+          // A detection failure only leaves the score blank
+          const aiDetection = await detectAIContent(result, provider, signal).catch((error) => {
+            console.error(`AI detection failed for ${provider} comparison output:`, error);
+            return null;
+          });
+          
+          return { provider, status: 'done' as const, result, wordCount: countWords(result), latencyMs, cached, prompts, aiDetection };
+        } catch (error: unknown) {
+          console.error(`Comparison run failed for ${provider}:`, error);
+          return {
+            provider,
+            status: 'failed' as const,
+            error: error instanceof Error ? error.message : 'Failed to process text',
+            latencyMs: Date.now() - startedAt
+          };
         }
-        res.json(result);
+      }));
+      
+      res.json({ results });
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error comparing providers:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to compare providers' });
       }
+    }
+  });
+
+  // Detect AI-generated content
+  app.post('/api/detect-ai', async (req: Request, res: Response) => {
+    const signal = createRequestSignal(req, res);
+    try {
+      const { text, llmProvider } = detectAiSchema.parse(req.body);
+      res.json(await detectAIContent(text, llmProvider, signal));
     } catch (error: unknown) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
@@ -353,28 +600,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Chat endpoint with conversation memory
   app.post('/api/chat', async (req: Request, res: Response) => {
+    const signal = createRequestSignal(req, res);
     try {
-      const { message, conversationHistory, llmProvider, contextDocument } = chatRequestSchema.parse(req.body);
-      
-      let response;
-      switch (llmProvider) {
-        case 'openai':
-          response = await processChatWithOpenAI(message, conversationHistory, contextDocument);
-          break;
-        case 'anthropic':
-          response = await processChatWithAnthropic(message, conversationHistory, contextDocument);
-          break;
-        case 'perplexity':
-          response = await processChatWithPerplexity(message, conversationHistory, contextDocument);
-          break;
-        case 'deepseek':
-          response = await processChatWithDeepSeek(message, conversationHistory, contextDocument);
-          break;
-        default:
-          throw new Error('Invalid LLM provider');
-      }
-      
-      res.json({ response });
+      const data = chatRequestSchema.parse(req.body);
+      const { message, conversationHistory, llmProvider, contextDocument, documentId } = data;
+      const modelError = validateModelSettings(llmProvider, data);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
+      }
+      
+      const { result: response, provider, prompts } = await runWithFailover(llmProvider, (llm) =>
+        llm.processChat(message, conversationHistory, contextDocument),
+        { context: { operation: 'chat', documentId, modelSettings: pickModelSettings(data), signal } }
+      );
+      
+      res.json({ response, provider, prompts });
     } catch (error: unknown) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
@@ -385,6 +625,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Streaming variant of chat: emits token events, then a done event with the full response
+  app.post('/api/chat/stream', async (req: Request, res: Response) => {
+    let data;
+    try {
+      data = chatRequestSchema.parse(req.body);
+    } catch (error: unknown) {
+      const message = error instanceof z.ZodError ? fromZodError(error).message : 'Invalid request';
+      return res.status(400).json({ error: message });
+    }
+    const modelError = validateModelSettings(data.llmProvider, data);
+    if (modelError) {
+      return res.status(400).json({ error: modelError });
+    }
+    
+    const signal = createRequestSignal(req, res);
+    const stream = openEventStream(res);
+    let streamedText = '';
+    try {
+      const { message, conversationHistory, llmProvider, contextDocument, documentId } = data;
+      const { result: response, provider, prompts } = await runWithFailover(llmProvider, (llm) => llm.processChat(
+        message,
+        conversationHistory,
+        contextDocument,
+        (token) => {
+          streamedText += token;
+          stream.send('token', { token });
+        }
+      ), {
+        canFailOver: () => !streamedText,
+        context: { operation: 'chat', documentId, modelSettings: pickModelSettings(data), signal }
+      });
+      
+      stream.send('done', { response, provider, prompts });
+    } catch (error: unknown) {
+      if (signal.aborted) {
+        stream.send('done', { response: streamedText, cancelled: true });
+      } else {
+        console.error('Error streaming chat:', error);
+        stream.send('error', { error: error instanceof Error ? error.message : 'Failed to process chat' });
+      }
+    } finally {
+      stream.close();
+    }
+  });
+
   // Search online
   app.post('/api/search-online', async (req: Request, res: Response) => {
     try {
@@ -467,17 +752,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log('Processing Word document:', req.file.originalname, 'Size:', req.file.size, 'Type:', req.file.mimetype);
       
-      // Import mammoth for server-side processing
-      const mammoth = await import('mammoth');
+      // Process the Word document, keeping its headings for the outline
+      const text = await extractTextFromDocx(req.file.buffer);
       
-      // Process the Word document
-      const result = await mammoth.extractRawText({ buffer: req.file.buffer });
-      
-      console.log('Successfully extracted text from Word document, length:', result.value.length);
+      console.log('Successfully extracted text from Word document, length:', text.length);
       
       // Return the extracted text
       res.json({ 
-        text: result.value,
+        text,
         filename: req.file.originalname,
         size: req.file.size
       });
@@ -487,32 +769,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Azure OpenAI PDF processing endpoint
+  // Math PDF processing endpoint
   app.post('/api/process-math-pdf', upload.single('pdf'), async (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No PDF file provided" });
       }
 
-      console.log('Processing PDF with Azure OpenAI:', req.file.originalname, 'Size:', req.file.size);
+      console.log('Processing math PDF:', req.file.originalname, 'Size:', req.file.size);
       
-      // Temporarily using standard PDF extraction until Azure model is configured
+      // Chat deployments cannot read PDFs, so the text is extracted locally and
+      // Azure OpenAI only converts the math to LaTeX, when it is configured
       const extractedText = await extractTextFromPDF(req.file.buffer);
       
       if (!extractedText || extractedText.trim().length === 0) {
-        return res.status(400).json({ error: "Could not extract text from PDF using Azure OpenAI" });
+        return res.status(400).json({ error: "Could not extract text from PDF" });
       }
 
-      console.log('Azure OpenAI extracted text length:', extractedText.length);
+      const useAzure = isAzureOpenAIConfigured();
+      const text = useAzure ? await enhanceMathFormatting(extractedText) : extractedText;
+      console.log('Math PDF text length:', text.length, useAzure ? '(formatted with Azure OpenAI)' : '(Azure OpenAI not configured)');
       
       res.json({ 
-        text: extractedText,
+        text,
         filename: req.file.originalname,
-        source: 'azure-openai'
+        source: useAzure ? 'azure-openai' : 'pdf-extraction'
       });
     } catch (error: any) {
-      console.error('Azure OpenAI PDF processing error:', error);
-      res.status(500).json({ error: error.message || "Failed to process PDF with Azure OpenAI" });
+      console.error('Math PDF processing error:', error);
+      res.status(500).json({ error: error.message || "Failed to process math PDF" });
     }
   });
 
@@ -574,17 +859,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // NEW STYLE-MATCHING REWRITE ENDPOINT
   app.post('/api/rewrite', async (req: Request, res: Response) => {
+    const signal = createRequestSignal(req, res);
     try {
       const data = rewriteSchema.parse(req.body);
+      const modelError = validateModelSettings(data.provider, data);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
+      }
       
-      // Use the new aiProviderService to perform style-matching rewrite
-      const rewrittenText = await aiProviderService.rewrite(data.provider, {
-        inputText: data.inputText,
-        styleText: data.styleText,
-        contentMixText: data.contentMixText,
-        customInstructions: data.customInstructions,
-        selectedPresets: data.selectedPresets,
-        mixingMode: data.mixingMode
+      // Style-matching rewrite
+      const startedAt = Date.now();
+      const { result: rewrittenText, provider, cached } = await runWithFailover(data.provider, (llm) =>
+        llm.rewrite({
+          inputText: data.inputText,
+          styleText: data.styleText,
+          contentMixText: data.contentMixText,
+          customInstructions: data.customInstructions,
+          selectedPresets: data.selectedPresets,
+          mixingMode: data.mixingMode
+        }), {
+        context: {
+          operation: 'rewrite',
+          cache: { enabled: data.useCache, refresh: data.refreshCache },
+          modelSettings: pickModelSettings(data),
+          signal
+        }
       });
 
       // Get AI detection scores for both input and output
@@ -607,11 +906,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log('AI detection failed, continuing without scores:', detectionError);
       }
 
+      // A cancelled run only has part of its output, so it is not saved
+      const saved = signal.aborted ? undefined : await saveRunAsDocument({
+        kind: 'rewrite',
+        inputText: data.inputText,
+        outputText: rewrittenText,
+        instructions: data.customInstructions || null,
+        llmProvider: provider,
+        contentSource: data.contentMixText || null,
+        styleSource: data.styleText || null,
+        durationMs: Date.now() - startedAt
+      });
+
       res.json({ 
         rewrittenText,
+        documentId: saved?.document.id,
+        revisionId: saved?.revision.id,
         inputAiScore: inputScore,
         outputAiScore: outputScore,
-        provider: data.provider,
+        provider,
+        cached,
         inputLength: data.inputText.length,
         outputLength: rewrittenText.length
       });
@@ -627,36 +941,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // UPDATED: Style-Matching Text Rewriter (formerly humanizer)
   app.post('/api/humanize-text', async (req: Request, res: Response) => {
+    const signal = createRequestSignal(req, res);
     try {
-      const { text, styleSource, customInstructions = '', selectedPresets = [], llmProvider = 'anthropic' } = req.body;
-      
-      if (!text || !text.trim()) {
-        return res.status(400).json({ error: "Text to rewrite is required" });
+      const data = humanizeTextSchema.parse(req.body);
+      const { text, styleSource, customInstructions, selectedPresets, llmProvider } = data;
+      const modelError = validateModelSettings(llmProvider, data);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
       }
 
-      // Use the new style-matching aiProviderService instead of old humanization logic
-      const rewrittenText = await aiProviderService.rewrite(llmProvider, {
+      // Style-matching rewrite instead of the old humanization logic
+      const { result: rewrittenText, provider } = await runWithFailover(llmProvider, (llm) => llm.rewrite({
         inputText: text,
         styleText: styleSource || '', // Box B (style source)
         contentMixText: '', // No Box C for humanizer
         customInstructions: customInstructions,
         selectedPresets: selectedPresets,
         mixingMode: 'style'
-      });
+      }), { context: { operation: 'humanize-text', modelSettings: pickModelSettings(data), signal } });
 
       if (!rewrittenText) {
         throw new Error('Failed to generate rewritten text');
       }
 
-      console.log(`Text rewritten using ${llmProvider}, original length: ${text.length}, rewritten length: ${rewrittenText.length}`);
+      console.log(`Text rewritten using ${provider}, original length: ${text.length}, rewritten length: ${rewrittenText.length}`);
       
       res.json({ 
         humanizedText: rewrittenText.trim(), // Keep same response format for compatibility
         originalLength: text.length,
         humanizedLength: rewrittenText.length,
-        llmProvider 
+        llmProvider: provider
       });
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
       console.error('Text rewrite error:', error);
       res.status(500).json({ error: error.message || "Failed to rewrite text" });
     }
@@ -679,9 +998,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                  req.file.mimetype === 'application/msword' ||
                  req.file.mimetype === 'application/octet-stream') {
         // Process Word document
-        const mammoth = await import('mammoth');
-        const result = await mammoth.extractRawText({ buffer: req.file.buffer });
-        extractedText = result.value;
+        extractedText = await extractTextFromDocx(req.file.buffer);
       } else if (req.file.mimetype === 'text/plain') {
         extractedText = req.file.buffer.toString('utf-8');
       } else {
@@ -928,25 +1245,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Save instructions
-  app.post('/api/save-instructions', async (req: Request, res: Response) => {
+  // Saved instructions, most recently used first; ?folder=, ?tag= and ?search= narrow the list
+  app.get('/api/saved-instructions', async (req: Request, res: Response) => {
     try {
-      const schema = z.object({
-        name: z.string().min(1),
-        instructions: z.string().min(1),
-        userId: z.number().optional()
+      const userId = Number(req.query.userId) || 1; // Default to 1 for anonymous user
+      const queryText = (value: unknown) => typeof value === 'string' ? value : undefined;
+      const savedInstructions = filterSavedInstructions(await storage.getSavedInstructionsByUserId(userId), {
+        folder: queryText(req.query.folder),
+        tag: queryText(req.query.tag),
+        search: queryText(req.query.search)?.trim()
       });
       
-      const data = schema.parse(req.body);
-      const userId = data.userId || 1; // Default to 1 for anonymous user
+      res.json(savedInstructions);
+    } catch (error: unknown) {
+      console.error('Error getting saved instructions:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to get saved instructions' });
+    }
+  });
+
+  app.get('/api/saved-instructions/:id', async (req: Request, res: Response) => {
+    try {
+      const instructionId = parseInt(req.params.id, 10);
+      if (isNaN(instructionId)) {
+        return res.status(400).json({ error: 'Invalid instructions id' });
+      }
+      
+      const savedInstructions = await storage.getSavedInstructions(instructionId);
+      if (!savedInstructions) {
+        return res.status(404).json({ error: 'Saved instructions not found' });
+      }
+      res.json(savedInstructions);
+    } catch (error: unknown) {
+      console.error('Error getting saved instructions:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to get saved instructions' });
+    }
+  });
+
+  // Save instructions; a taken name fails with 409 unless onDuplicate renames or replaces
+  app.post('/api/saved-instructions', async (req: Request, res: Response) => {
+    try {
+      const { onDuplicate, ...data } = savedInstructionsSchema.parse(req.body);
+      const userId = Number(req.body.userId) || 1; // Default to 1 for anonymous user
+      const tags = data.tags && Array.from(new Set(data.tags));
+      
+      const existing = await findByName(userId, data.name);
+      if (existing && onDuplicate === 'error') {
+        return res.status(409).json({ error: `Instructions named "${existing.name}" already exist`, existingId: existing.id });
+      }
+      if (existing && onDuplicate === 'replace') {
+        const replaced = await storage.updateSavedInstructions(existing.id, {
+          instructions: data.instructions,
+          ...(data.folder !== undefined ? { folder: data.folder || null } : {}),
+          ...(tags ? { tags } : {})
+        });
+        return res.json(replaced);
+      }
       
       const savedInstructions = await storage.createSavedInstructions({
         userId,
-        name: data.name,
-        instructions: data.instructions
+        name: existing ? await availableName(userId, data.name) : data.name,
+        instructions: data.instructions,
+        folder: data.folder || null,
+        tags: tags ?? []
       });
       
-      res.json(savedInstructions);
+      res.status(201).json(savedInstructions);
     } catch (error: unknown) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
@@ -957,49 +1320,277 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get saved instructions
-  app.get('/api/saved-instructions', async (req: Request, res: Response) => {
+  app.patch('/api/saved-instructions/:id', async (req: Request, res: Response) => {
     try {
-      const userId = Number(req.query.userId) || 1; // Default to 1 for anonymous user
-      const savedInstructions = await storage.getSavedInstructionsByUserId(userId);
+      const instructionId = parseInt(req.params.id, 10);
+      if (isNaN(instructionId)) {
+        return res.status(400).json({ error: 'Invalid instructions id' });
+      }
+      const data = updateSavedInstructionsSchema.parse(req.body);
+      
+      const current = await storage.getSavedInstructions(instructionId);
+      if (!current) {
+        return res.status(404).json({ error: 'Saved instructions not found' });
+      }
+      const existing = data.name ? await findByName(current.userId ?? 1, data.name, instructionId) : undefined;
+      if (existing) {
+        return res.status(409).json({ error: `Instructions named "${existing.name}" already exist`, existingId: existing.id });
+      }
       
+      const savedInstructions = await storage.updateSavedInstructions(instructionId, {
+        ...data,
+        ...(data.folder !== undefined ? { folder: data.folder || null } : {}),
+        ...(data.tags ? { tags: Array.from(new Set(data.tags)) } : {})
+      });
       res.json(savedInstructions);
     } catch (error: unknown) {
-      console.error('Error getting saved instructions:', error);
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to get saved instructions' });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error updating saved instructions:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to update saved instructions' });
+      }
     }
   });
 
-  // Query Content Source - NEW FEATURE
-  app.post('/api/query-content-source', async (req: Request, res: Response) => {
+  app.delete('/api/saved-instructions/:id', async (req: Request, res: Response) => {
     try {
-      const { question, contentSource, llmProvider = 'deepseek' } = req.body;
+      const instructionId = parseInt(req.params.id, 10);
+      if (isNaN(instructionId)) {
+        return res.status(400).json({ error: 'Invalid instructions id' });
+      }
       
-      if (!question || !contentSource) {
-        return res.status(400).json({ error: 'Both question and content source are required' });
+      if (!await storage.deleteSavedInstructions(instructionId)) {
+        return res.status(404).json({ error: 'Saved instructions not found' });
+      }
+      res.status(204).end();
+    } catch (error: unknown) {
+      console.error('Error deleting saved instructions:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to delete saved instructions' });
+    }
+  });
+
+  // Called when saved instructions are picked for a run
+  app.post('/api/saved-instructions/:id/use', async (req: Request, res: Response) => {
+    try {
+      const instructionId = parseInt(req.params.id, 10);
+      if (isNaN(instructionId)) {
+        return res.status(400).json({ error: 'Invalid instructions id' });
       }
       
-      let answer: string;
+      const savedInstructions = await storage.recordSavedInstructionsUse(instructionId);
+      if (!savedInstructions) {
+        return res.status(404).json({ error: 'Saved instructions not found' });
+      }
+      res.json(savedInstructions);
+    } catch (error: unknown) {
+      console.error('Error recording saved instructions use:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to record use' });
+    }
+  });
+
+  // Shares the instructions by link, keeping the existing link when they are already shared
+  app.post('/api/saved-instructions/:id/share', async (req: Request, res: Response) => {
+    try {
+      const instructionId = parseInt(req.params.id, 10);
+      if (isNaN(instructionId)) {
+        return res.status(400).json({ error: 'Invalid instructions id' });
+      }
       
-      switch (llmProvider) {
-        case 'openai':
-          answer = await queryContentSourceWithOpenAI(question, contentSource);
-          break;
-        case 'anthropic':
-          answer = await queryContentSourceWithAnthropic(question, contentSource);
-          break;
-        case 'perplexity':
-          answer = await queryContentSourceWithPerplexity(question, contentSource);
-          break;
-        case 'deepseek':
-          answer = await queryContentSourceWithDeepSeek(question, contentSource);
-          break;
-        default:
-          throw new Error(`Unsupported LLM provider: ${llmProvider}`);
+      const current = await storage.getSavedInstructions(instructionId);
+      if (!current) {
+        return res.status(404).json({ error: 'Saved instructions not found' });
+      }
+      res.json(current.shareToken ? current : await storage.updateSavedInstructions(instructionId, { shareToken: createShareToken() }));
+    } catch (error: unknown) {
+      console.error('Error sharing saved instructions:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to share saved instructions' });
+    }
+  });
+
+  // Stops sharing; the old link stops working
+  app.delete('/api/saved-instructions/:id/share', async (req: Request, res: Response) => {
+    try {
+      const instructionId = parseInt(req.params.id, 10);
+      if (isNaN(instructionId)) {
+        return res.status(400).json({ error: 'Invalid instructions id' });
       }
       
-      res.json({ answer });
+      const savedInstructions = await storage.updateSavedInstructions(instructionId, { shareToken: null });
+      if (!savedInstructions) {
+        return res.status(404).json({ error: 'Saved instructions not found' });
+      }
+      res.json(savedInstructions);
+    } catch (error: unknown) {
+      console.error('Error unsharing saved instructions:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to stop sharing' });
+    }
+  });
+
+  // What a share link shows
+  app.get('/api/shared-instructions/:token', async (req: Request, res: Response) => {
+    try {
+      const shared = await storage.getSavedInstructionsByShareToken(req.params.token);
+      if (!shared) {
+        return res.status(404).json({ error: 'This share link is invalid or no longer shared' });
+      }
+      res.json(toSharedInstructions(shared));
+    } catch (error: unknown) {
+      console.error('Error getting shared instructions:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to get shared instructions' });
+    }
+  });
+
+  // Copies shared instructions into the user's own, under a numbered name if theirs is taken
+  app.post('/api/shared-instructions/:token/copy', async (req: Request, res: Response) => {
+    try {
+      const userId = Number(req.body?.userId) || 1; // Default to 1 for anonymous user
+      const shared = await storage.getSavedInstructionsByShareToken(req.params.token);
+      if (!shared) {
+        return res.status(404).json({ error: 'This share link is invalid or no longer shared' });
+      }
+      
+      const savedInstructions = await storage.createSavedInstructions({
+        ...toSharedInstructions(shared),
+        userId,
+        name: await availableName(userId, shared.name)
+      });
+      res.status(201).json(savedInstructions);
+    } catch (error: unknown) {
+      console.error('Error copying shared instructions:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to copy shared instructions' });
+    }
+  });
+
+  // The source library, the user's items first; ?kind=content|style, ?tag= and ?search= narrow it
+  app.get('/api/library', async (req: Request, res: Response) => {
+    try {
+      const kind = req.query.kind === undefined ? undefined : z.enum(libraryItemKinds).safeParse(req.query.kind);
+      if (kind && !kind.success) {
+        return res.status(400).json({ error: 'kind must be content or style' });
+      }
+      const items = await storage.getContentSources(kind?.data);
+      res.json(filterLibraryItems(items, {
+        tag: typeof req.query.tag === 'string' ? req.query.tag : undefined,
+        search: typeof req.query.search === 'string' ? req.query.search.trim() : undefined
+      }));
+    } catch (error: unknown) {
+      console.error('Error fetching library:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to fetch library' });
+    }
+  });
+
+  app.get('/api/library/:id', async (req: Request, res: Response) => {
+    try {
+      const itemId = parseInt(req.params.id, 10);
+      if (isNaN(itemId)) {
+        return res.status(400).json({ error: 'Invalid library item id' });
+      }
+      
+      const item = await storage.getContentSource(itemId);
+      if (!item) {
+        return res.status(404).json({ error: 'Library item not found' });
+      }
+      res.json(item);
+    } catch (error: unknown) {
+      console.error('Error fetching library item:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to fetch library item' });
+    }
+  });
+
+  app.post('/api/library', async (req: Request, res: Response) => {
+    try {
+      const data = libraryItemSchema.parse(req.body);
+      const item = await storage.createContentSource({
+        ...data,
+        source: data.source || null,
+        tags: Array.from(new Set(data.tags ?? []))
+      });
+      res.status(201).json(item);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error saving library item:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to save library item' });
+      }
+    }
+  });
+
+  app.patch('/api/library/:id', async (req: Request, res: Response) => {
+    try {
+      const itemId = parseInt(req.params.id, 10);
+      if (isNaN(itemId)) {
+        return res.status(400).json({ error: 'Invalid library item id' });
+      }
+      const data = updateLibraryItemSchema.parse(req.body);
+      
+      const current = await storage.getContentSource(itemId);
+      if (!current) {
+        return res.status(404).json({ error: 'Library item not found' });
+      }
+      if (isBuiltin(current)) {
+        return res.status(403).json({ error: 'Built-in samples cannot be changed' });
+      }
+      
+      const item = await storage.updateContentSource(itemId, {
+        ...data,
+        ...(data.tags ? { tags: Array.from(new Set(data.tags)) } : {})
+      });
+      res.json(item);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error updating library item:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to update library item' });
+      }
+    }
+  });
+
+  app.delete('/api/library/:id', async (req: Request, res: Response) => {
+    try {
+      const itemId = parseInt(req.params.id, 10);
+      if (isNaN(itemId)) {
+        return res.status(400).json({ error: 'Invalid library item id' });
+      }
+      
+      const current = await storage.getContentSource(itemId);
+      if (!current) {
+        return res.status(404).json({ error: 'Library item not found' });
+      }
+      if (isBuiltin(current)) {
+        return res.status(403).json({ error: 'Built-in samples cannot be deleted' });
+      }
+      
+      await storage.deleteContentSource(itemId);
+      res.status(204).end();
+    } catch (error: unknown) {
+      console.error('Error deleting library item:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to delete library item' });
+    }
+  });
+
+  // Query Content Source - NEW FEATURE
+  app.post('/api/query-content-source', async (req: Request, res: Response) => {
+    const signal = createRequestSignal(req, res);
+    try {
+      const data = queryContentSourceSchema.parse(req.body);
+      const modelError = validateModelSettings(data.llmProvider, data);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
+      }
+      
+      const { result: answer, provider, prompts } = await runWithFailover(data.llmProvider, (llm) =>
+        llm.queryContentSource(data.question, data.contentSource),
+        { context: { operation: 'query-content-source', modelSettings: pickModelSettings(data), signal } }
+      );
+      
+      res.json({ answer, provider, prompts });
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
       console.error('Error querying content source:', error);
       res.status(500).json({ 
         error: 'Failed to query content source', 
@@ -1008,6 +1599,311 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Starts a background job for a chunk run. The job keeps going after the browser
+  // disconnects and saves each chunk's result as it finishes; poll GET /api/jobs/:id.
+  app.post('/api/jobs', async (req: Request, res: Response) => {
+    try {
+      const { chunks, title, ...settings } = createJobSchema.parse(req.body);
+      const modelError = validateModelSettings(settings.llmProvider, settings);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
+      }
+      
+      const job = await storage.createJob({
+        documentId: settings.documentId,
+        title: title ?? `${chunks.length} of ${settings.totalChunks} chunks with ${settings.llmProvider}`,
+        status: 'queued',
+        settings,
+        chunkContext: settings.chunkContext ?? null
+      }, chunks.map(chunk => ({ chunkIndex: chunk.index, inputText: chunk.text, status: 'pending' as const })));
+      
+      runJob(job.id);
+      res.status(201).json(job);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error creating job:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to create job' });
+      }
+    }
+  });
+
+  // Saved runs, newest first; ?search= matches the title, input or output
+  app.get('/api/documents', async (req: Request, res: Response) => {
+    try {
+      const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+      res.json(await storage.getDocuments(search || undefined));
+    } catch (error: any) {
+      console.error('Error fetching documents:', error);
+      res.status(500).json({ error: 'Failed to fetch documents' });
+    }
+  });
+
+  app.get('/api/documents/:id', async (req: Request, res: Response) => {
+    try {
+      const documentId = parseInt(req.params.id, 10);
+      if (isNaN(documentId)) {
+        return res.status(400).json({ error: 'Invalid document id' });
+      }
+      
+      const document = await storage.getDocument(documentId);
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+      res.json(document);
+    } catch (error: any) {
+      console.error('Error fetching document:', error);
+      res.status(500).json({ error: 'Failed to fetch document' });
+    }
+  });
+
+  app.delete('/api/documents/:id', async (req: Request, res: Response) => {
+    try {
+      const documentId = parseInt(req.params.id, 10);
+      if (isNaN(documentId)) {
+        return res.status(400).json({ error: 'Invalid document id' });
+      }
+      
+      if (!await storage.deleteDocument(documentId)) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      console.error('Error deleting document:', error);
+      res.status(500).json({ error: 'Failed to delete document' });
+    }
+  });
+
+  // Every output the document has had, oldest first
+  app.get('/api/documents/:id/revisions', async (req: Request, res: Response) => {
+    try {
+      const documentId = parseInt(req.params.id, 10);
+      if (isNaN(documentId)) {
+        return res.status(400).json({ error: 'Invalid document id' });
+      }
+      
+      const document = await storage.getDocument(documentId);
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+      res.json(await listRevisions(document));
+    } catch (error: any) {
+      console.error('Error fetching revisions:', error);
+      res.status(500).json({ error: 'Failed to fetch revisions' });
+    }
+  });
+
+  // Word-level diff from one revision of the document to another: ?from=<id>&to=<id>
+  app.get('/api/documents/:id/revisions/diff', async (req: Request, res: Response) => {
+    try {
+      const documentId = parseInt(req.params.id, 10);
+      const fromId = parseInt(String(req.query.from), 10);
+      const toId = parseInt(String(req.query.to), 10);
+      if (isNaN(documentId) || isNaN(fromId) || isNaN(toId)) {
+        return res.status(400).json({ error: 'A document id and from and to revision ids are required' });
+      }
+      
+      const [from, to] = await Promise.all([storage.getDocumentRevision(fromId), storage.getDocumentRevision(toId)]);
+      if (from?.documentId !== documentId || to?.documentId !== documentId) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      res.json({ from: from.id, to: to.id, changes: diffWords(from.outputText, to.outputText) });
+    } catch (error: any) {
+      console.error('Error diffing revisions:', error);
+      res.status(500).json({ error: 'Failed to diff revisions' });
+    }
+  });
+
+  // Makes an earlier revision's output current again
+  app.post('/api/documents/:id/revisions/:revisionId/restore', async (req: Request, res: Response) => {
+    try {
+      const documentId = parseInt(req.params.id, 10);
+      const revisionId = parseInt(req.params.revisionId, 10);
+      if (isNaN(documentId) || isNaN(revisionId)) {
+        return res.status(400).json({ error: 'Invalid document or revision id' });
+      }
+      
+      const [document, revision] = await Promise.all([storage.getDocument(documentId), storage.getDocumentRevision(revisionId)]);
+      if (!document || revision?.documentId !== documentId) {
+        return res.status(404).json({ error: document ? 'Revision not found' : 'Document not found' });
+      }
+      res.json(await restoreRevision(document, revision));
+    } catch (error: any) {
+      console.error('Error restoring revision:', error);
+      res.status(500).json({ error: 'Failed to restore revision' });
+    }
+  });
+
+  // Background jobs, newest first, without their chunks
+  app.get('/api/jobs', async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getJobs());
+    } catch (error: any) {
+      console.error('Error fetching jobs:', error);
+      res.status(500).json({ error: 'Failed to fetch jobs' });
+    }
+  });
+
+  // A job with every chunk's status and the results finished so far
+  app.get('/api/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.id, 10);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: 'Invalid job id' });
+      }
+      
+      const job = await storage.getJob(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      res.json({ ...job, chunks: await storage.getJobChunks(jobId) });
+    } catch (error: any) {
+      console.error('Error fetching job:', error);
+      res.status(500).json({ error: 'Failed to fetch job' });
+    }
+  });
+
+  // Runs a job's unfinished and failed chunks again; finished chunks keep their results
+  app.post('/api/jobs/:id/resume', async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.id, 10);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: 'Invalid job id' });
+      }
+      if (isJobRunning(jobId)) {
+        return res.status(409).json({ error: 'Job is already running' });
+      }
+      
+      const job = await storage.updateJob(jobId, { status: 'queued' });
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      runJob(jobId);
+      res.json(job);
+    } catch (error: any) {
+      console.error('Error resuming job:', error);
+      res.status(500).json({ error: 'Failed to resume job' });
+    }
+  });
+
+  // Stops a queued or running job; its finished chunks keep their results and a resume
+  // runs the rest
+  app.post('/api/jobs/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.id, 10);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: 'Invalid job id' });
+      }
+      
+      const job = await storage.getJob(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      if (job.status !== 'queued' && job.status !== 'running') {
+        return res.status(409).json({ error: `Job is already ${job.status}` });
+      }
+      cancelJob(jobId);
+      res.json(await storage.updateJob(jobId, { status: 'cancelled' }));
+    } catch (error: any) {
+      console.error('Error cancelling job:', error);
+      res.status(500).json({ error: 'Failed to cancel job' });
+    }
+  });
+
+  // Token usage and estimated cost for every LLM call made for a document
+  app.get('/api/usage/documents/:documentId', async (req: Request, res: Response) => {
+    try {
+      const documentId = parseInt(req.params.documentId, 10);
+      if (isNaN(documentId)) {
+        return res.status(400).json({ error: 'Invalid document id' });
+      }
+      
+      const records = await storage.getUsageRecordsByDocumentId(documentId);
+      res.json({ documentId, summary: summarizeUsage(records), records });
+    } catch (error: any) {
+      console.error('Error fetching document usage:', error);
+      res.status(500).json({ error: 'Failed to fetch document usage' });
+    }
+  });
+
+  // Daily token usage and estimated cost, optionally limited with ?days=N (default 30)
+  app.get('/api/usage/daily', async (req: Request, res: Response) => {
+    try {
+      const days = Math.min(Math.max(parseInt(String(req.query.days ?? '30'), 10) || 30, 1), 365);
+      const since = new Date();
+      since.setUTCHours(0, 0, 0, 0);
+      since.setUTCDate(since.getUTCDate() - (days - 1));
+      
+      const records = await storage.getUsageRecordsSince(since);
+      res.json({ days: summarizeUsageByDay(records), total: summarizeUsage(records) });
+    } catch (error: any) {
+      console.error('Error fetching daily usage:', error);
+      res.status(500).json({ error: 'Failed to fetch daily usage' });
+    }
+  });
+
+  // Models each provider accepts, for the model picker; the first is the provider's default
+  app.get('/api/models', (req: Request, res: Response) => {
+    res.json(getModelCatalog());
+  });
+
+  // Prompt templates with every version, for the admin view
+  app.get('/api/prompts', (req: Request, res: Response) => {
+    res.json(getPromptTemplates().map(template => ({
+      ...template,
+      activeVersion: getPromptVersion(template.name)?.version
+    })));
+  });
+
+  // Line diff between two template versions, e.g. ?from=homework-system@1&to=homework-system@2
+  app.get('/api/prompts/diff', (req: Request, res: Response) => {
+    const from = parsePromptRef(String(req.query.from ?? ''));
+    const to = parsePromptRef(String(req.query.to ?? ''));
+    if (!from || !to) {
+      return res.status(400).json({ error: 'from and to must be template references like "name@version"' });
+    }
+    
+    const fromVersion = getPromptVersion(from.name, from.version);
+    const toVersion = getPromptVersion(to.name, to.version);
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({ error: `Prompt template version not found: ${!fromVersion ? req.query.from : req.query.to}` });
+    }
+    
+    res.json({
+      from: formatPromptRef(from.name, fromVersion.version),
+      to: formatPromptRef(to.name, toVersion.version),
+      lines: diffLines(fromVersion.template, toVersion.template)
+    });
+  });
+
+  // Pre-flight cost estimate for a process-text request
+  app.post('/api/usage/estimate', async (req: Request, res: Response) => {
+    try {
+      const data = processTextSchema.parse(req.body);
+      const modelError = validateModelSettings(data.llmProvider, data);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
+      }
+      
+      res.json(await estimateProcessingCost(data.llmProvider, {
+        inputText: data.inputText,
+        instructions: data.instructions,
+        contentSource: data.useContentSource ? data.contentSource : undefined,
+        styleSource: data.useStyleSource ? data.styleSource : undefined,
+        model: data.model,
+        maxTokens: data.maxTokens
+      }));
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error estimating cost:', error);
+        res.status(500).json({ error: 'Failed to estimate cost' });
+      }
+    }
+  });
+
   // Update API keys
   app.post('/api/update-api-keys', async (req: Request, res: Response) => {
     try {
@@ -1,22 +1,15 @@
 /**
  * Azure OpenAI integration for superior math document processing
  */
-import { OpenAI } from 'openai';
-
-const azureOpenAI = new OpenAI({
-  apiKey: process.env.AZURE_OPENAI_KEY,
-  baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/deployments/gpt-35-turbo/`,
-  defaultQuery: { 'api-version': '2024-02-15-preview' },
-  defaultHeaders: {
-    'api-key': process.env.AZURE_OPENAI_KEY,
-  },
-});
+import { azureOpenAIConfig, getAzureOpenAIClient, isAzureOpenAIConfigured } from '../llm/azure';
+import { createChatCompletion } from '../llm/openai-compatible';
+import { withLLMCallContext } from '../llm/context';
 
 /**
  * Extract and process math from PDF using Azure OpenAI with vision capabilities
  */
 export async function processMathPDFWithAzure(pdfBuffer: Buffer): Promise<string> {
-  if (!process.env.AZURE_OPENAI_KEY || !process.env.AZURE_OPENAI_ENDPOINT) {
+  if (!isAzureOpenAIConfigured()) {
     throw new Error('Azure OpenAI credentials not configured');
   }
 
@@ -24,8 +17,8 @@ export async function processMathPDFWithAzure(pdfBuffer: Buffer): Promise<string
     // Convert PDF to base64 for Azure OpenAI vision
     const base64Pdf = pdfBuffer.toString('base64');
     
-    const response = await azureOpenAI.chat.completions.create({
-      model: 'gpt-4',
+    const content = await withLLMCallContext({ provider: 'azure', operation: 'math-pdf' }, () => createChatCompletion(getAzureOpenAIClient(), {
+      model: azureOpenAIConfig.deployment,
       messages: [
         {
           role: 'system',
@@ -60,9 +53,9 @@ Extract the complete document with all text and properly formatted LaTeX math.`
       ],
       max_tokens: 4000,
       temperature: 0.1
-    });
+    }));
 
-    return response.choices[0].message.content || '';
+    return content || '';
   } catch (error: any) {
     console.error('Azure OpenAI PDF processing error:', error);
     throw new Error(`Failed to process PDF with Azure OpenAI: ${error.message}`);
@@ -73,15 +66,15 @@ Extract the complete document with all text and properly formatted LaTeX math.`
  * Extract and process math from image using Azure OpenAI vision
  */
 export async function processMathImageWithAzure(imageBuffer: Buffer, mimeType: string): Promise<string> {
-  if (!process.env.AZURE_OPENAI_KEY || !process.env.AZURE_OPENAI_ENDPOINT) {
+  if (!isAzureOpenAIConfigured()) {
     throw new Error('Azure OpenAI credentials not configured');
   }
 
   try {
     const base64Image = imageBuffer.toString('base64');
     
-    const response = await azureOpenAI.chat.completions.create({
-      model: 'gpt-4',
+    const content = await withLLMCallContext({ provider: 'azure', operation: 'math-image' }, () => createChatCompletion(getAzureOpenAIClient(), {
+      model: azureOpenAIConfig.deployment,
       messages: [
         {
           role: 'system',
@@ -116,26 +109,55 @@ Extract all content with properly formatted LaTeX math.`
       ],
       max_tokens: 4000,
       temperature: 0.1
-    });
+    }));
 
-    return response.choices[0].message.content || '';
+    return content || '';
   } catch (error: any) {
     console.error('Azure OpenAI image processing error:', error);
     throw new Error(`Failed to process image with Azure OpenAI: ${error.message}`);
   }
 }
 
+// Roughly what fits in the 4000-token response once converted to LaTeX
+const MAX_SECTION_CHARS = 10000;
+
+// Splits on paragraph boundaries; a single oversized paragraph stays whole
+function splitIntoSections(text: string): string[] {
+  const sections: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length > MAX_SECTION_CHARS) {
+      sections.push(current);
+      current = paragraph;
+    } else {
+      current += (current ? '\n\n' : '') + paragraph;
+    }
+  }
+  if (current) sections.push(current);
+  return sections;
+}
+
 /**
- * Clean and enhance mathematical text formatting using Azure OpenAI
+ * Clean and enhance mathematical text formatting using Azure OpenAI. Long
+ * texts are formatted section by section so no part is cut off. Returns the
+ * text unchanged when Azure OpenAI is not configured.
  */
 export async function enhanceMathFormatting(text: string): Promise<string> {
-  if (!text || !process.env.AZURE_OPENAI_KEY || !process.env.AZURE_OPENAI_ENDPOINT) {
+  if (!text || !isAzureOpenAIConfigured()) {
     return text;
   }
 
+  const formatted: string[] = [];
+  for (const section of splitIntoSections(text)) {
+    formatted.push(await formatMathSection(section));
+  }
+  return formatted.join('\n\n');
+}
+
+async function formatMathSection(text: string): Promise<string> {
   try {
-    const response = await azureOpenAI.chat.completions.create({
-      model: 'gpt-4',
+    const content = await withLLMCallContext({ provider: 'azure', operation: 'enhance-math' }, () => createChatCompletion(getAzureOpenAIClient(), {
+      model: azureOpenAIConfig.deployment,
       messages: [
         {
           role: 'system',
@@ -160,9 +182,9 @@ Return the EXACT same text but with all mathematical expressions properly format
       ],
       max_tokens: 4000,
       temperature: 0.1
-    });
+    }));
 
-    return response.choices[0].message.content || text;
+    return content || text;
   } catch (error: any) {
     console.error('Azure OpenAI math formatting error:', error);
     return text; // Return original text if enhancement fails
@@ -0,0 +1,56 @@
+import type { z } from "zod";
+import type { processTextSchema, ChunkContext } from "@shared/schema";
+import { runWithFailover } from '../llm/failover';
+import { pickModelSettings } from '../llm/models';
+import { formatChunkContext } from '../llm/chunk-context';
+import { renderPrompt } from '../llm/prompts';
+
+export type ChunkSettings = Omit<z.infer<typeof processTextSchema>, 'inputText'> & {
+  documentOverview?: string;
+};
+
+// Processes one chunk of a larger document, with failover like any single request.
+// The overview of the whole document and the rolling context of the chunks before
+// it, when given, go in its instructions.
+export function processDocumentChunk(data: ChunkSettings, chunk: string, chunkIndex: number, totalChunks: number, context?: ChunkContext, signal?: AbortSignal) {
+  // Add context about this being part of a larger document
+  const chunkContext = `[Processing chunk ${chunkIndex + 1} of ${totalChunks}]\n`;
+  const buildInstructions = () => {
+    const overview = data.documentOverview ? renderPrompt('chunk-document-overview', { overview: data.documentOverview }) : '';
+    const rollingContext = formatChunkContext(context);
+    return chunkContext + data.instructions + (overview ? `\n\n${overview}` : '') + (rollingContext ? `\n\n${rollingContext}` : '') +
+      "\nNote: This is part of a larger document, maintain consistency with previous chunks.";
+  };
+
+  // Instructions are built inside the call so the templates' versions are recorded with it
+  return runWithFailover(data.llmProvider, (llm) => llm.processText({
+    text: chunk,
+    instructions: buildInstructions(),
+    contentSource: data.contentSource,
+    styleSource: data.styleSource,
+    useContentSource: data.useContentSource,
+    useStyleSource: data.useStyleSource
+  }), {
+    context: {
+      operation: 'process-chunk',
+      documentId: data.documentId,
+      cache: { enabled: data.useCache, refresh: data.refreshCache },
+      modelSettings: pickModelSettings(data),
+      signal
+    }
+  });
+}
+
+// Folds a processed chunk into the rolling context. When that fails the previous
+// context is kept, since the chunk itself already finished.
+export async function advanceChunkContext(data: ChunkSettings, context: ChunkContext, chunkOutput: string, signal?: AbortSignal): Promise<ChunkContext> {
+  try {
+    const { result } = await runWithFailover(data.llmProvider, (llm) => llm.updateChunkContext(context, chunkOutput), {
+      context: { operation: 'chunk-context', documentId: data.documentId, signal }
+    });
+    return result;
+  } catch (error) {
+    console.error('Failed to update the rolling chunk context:', error);
+    return context;
+  }
+}
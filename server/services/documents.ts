@@ -0,0 +1,90 @@
+import { storage } from '../storage';
+import type { Document, DocumentRevision, InsertDocument } from "@shared/schema";
+
+const TITLE_LENGTH = 60;
+
+export interface SavedRun {
+  document: Document;
+  // The revision holding this run's output
+  revision: DocumentRevision;
+}
+
+// First line of the input, shortened, so a run is recognizable in the library
+export function titleFromText(text: string): string {
+  const firstLine = text.trim().split('\n')[0].replace(/^#+\s*/, '').trim();
+  if (!firstLine) return 'Untitled';
+  return firstLine.length > TITLE_LENGTH ? `${firstLine.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : firstLine;
+}
+
+// Documents saved before revisions were recorded get their output as a first revision
+async function ensureFirstRevision(document: Document): Promise<void> {
+  if (document.outputText === null) return;
+  const revisions = await storage.getDocumentRevisions(document.id);
+  if (revisions.length > 0) return;
+  await storage.createDocumentRevision({
+    documentId: document.id,
+    outputText: document.outputText,
+    instructions: document.instructions,
+    llmProvider: document.llmProvider
+  });
+}
+
+// A document's revisions, oldest first; the last one is the current output
+export async function listRevisions(document: Document): Promise<DocumentRevision[]> {
+  await ensureFirstRevision(document);
+  return await storage.getDocumentRevisions(document.id);
+}
+
+/**
+ * Saves a finished run as a document, or as the next revision of documentId
+ * when the run iterates on a saved document. The document keeps its input and
+ * takes the run's output, instructions and provider as current. Saving is best
+ * effort: a failure is logged and the run's result still goes back to the
+ * caller without an id.
+ */
+export async function saveRunAsDocument(run: Omit<InsertDocument, 'title'> & { title?: string }, documentId?: number): Promise<SavedRun | undefined> {
+  try {
+    const existing = documentId === undefined ? undefined : await storage.getDocument(documentId);
+    let document: Document;
+    if (existing) {
+      await ensureFirstRevision(existing);
+      document = (await storage.updateDocument(existing.id, {
+        outputText: run.outputText,
+        instructions: run.instructions,
+        llmProvider: run.llmProvider,
+        durationMs: run.durationMs
+      }))!;
+    } else {
+      document = await storage.createDocument({ ...run, title: run.title ?? titleFromText(run.inputText) });
+    }
+
+    const revision = await storage.createDocumentRevision({
+      documentId: document.id,
+      outputText: run.outputText ?? '',
+      instructions: run.instructions,
+      llmProvider: run.llmProvider
+    });
+    return { document, revision };
+  } catch (error) {
+    console.error('Failed to save the run as a document:', error);
+    return undefined;
+  }
+}
+
+// Makes an earlier output current again, recorded as the newest revision so the history stays linear
+export async function restoreRevision(document: Document, revision: DocumentRevision): Promise<SavedRun> {
+  await ensureFirstRevision(document);
+  const restored = await storage.createDocumentRevision({
+    documentId: document.id,
+    outputText: revision.outputText,
+    instructions: revision.instructions,
+    llmProvider: revision.llmProvider,
+    restoredFrom: revision.id
+  });
+  const updated = await storage.updateDocument(document.id, {
+    outputText: revision.outputText,
+    instructions: revision.instructions,
+    llmProvider: revision.llmProvider
+  });
+  return { document: updated!, revision: restored };
+}
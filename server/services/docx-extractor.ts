@@ -0,0 +1,28 @@
+import mammoth from 'mammoth';
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+};
+
+/**
+ * Extracts the text of a Word document with one blank line between paragraphs,
+ * like mammoth's raw text, except that paragraphs in a Heading style become
+ * markdown headings so the document segmenter can build an outline from them.
+ */
+export async function extractTextFromDocx(buffer: Buffer): Promise<string> {
+  // The default style map turns Heading 1-6 into h1-h6
+  const { value: html } = await mammoth.convertToHtml({ buffer }, { ignoreEmptyParagraphs: true });
+
+  return html
+    .replace(/<h([1-6])[^>]*>/g, (_, level) => '#'.repeat(Number(level)) + ' ')
+    .replace(/<br\s*\/?>/g, '\n')
+    .replace(/<\/(h[1-6]|p|li|tr)>/g, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39);/g, (entity) => HTML_ENTITIES[entity])
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
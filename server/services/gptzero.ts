@@ -1,6 +1,8 @@
 // GPTZero API integration for AI detection
 // Documentation: https://gptzero.me/docs/api
 
+import type { AIDetectionResult } from "@shared/schema";
+
 const GPTZERO_API_URL = 'https://api.gptzero.me/v2/predict/text';
 
 export interface GPTZeroResponse {
@@ -17,11 +19,7 @@ export interface GPTZeroResponse {
   isGenerated: boolean;
 }
 
-export async function detectAIWithGPTZero(text: string): Promise<{ 
-  isAI: boolean; 
-  confidence: number; 
-  details: string;
-}> {
+export async function detectAIWithGPTZero(text: string): Promise<AIDetectionResult> {
   try {
     // Truncate text to fit GPTZero's 50,000 character limit
     const maxLength = 45000; // Leave some buffer
@@ -52,16 +50,20 @@ export async function detectAIWithGPTZero(text: string): Promise<{
     // Calculate confidence from GPTZero response
     const confidence = data.documents[0]?.completely_generated_prob || 0;
     
-    // Build detailed result
+    // GPTZero scores each paragraph, so its verdicts map straight onto the shared result
     const burstiness = data.documents[0]?.overall_burstiness || 0;
-    const paragraphAnalysis = data.documents[0]?.paragraphs?.map((p, i) => 
-      `Paragraph ${i+1}: ${Math.round((p.generated_prob || 0) * 100)}% AI probability, Perplexity: ${p.perplexity?.toFixed(2) || 'N/A'}, Burstiness: ${p.burstiness?.toFixed(2) || 'N/A'}`
-    ).join("\n") || "No paragraph analysis available";
+    const paragraphs = (data.documents[0]?.paragraphs || []).map((p, index) => ({
+      index,
+      isAI: (p.generated_prob || 0) >= 0.5,
+      confidence: p.generated_prob || 0,
+      reason: `Perplexity: ${p.perplexity?.toFixed(2) || 'N/A'}, Burstiness: ${p.burstiness?.toFixed(2) || 'N/A'}`
+    }));
     
     return {
       isAI: data.isGenerated,
       confidence,
-      details: `Overall AI probability: ${Math.round(confidence * 100)}%\nOverall burstiness: ${burstiness?.toFixed(2) || 'N/A'}\n\n${paragraphAnalysis}`
+      summary: `Overall AI probability: ${Math.round(confidence * 100)}%, overall burstiness: ${burstiness?.toFixed(2) || 'N/A'}`,
+      paragraphs
     };
   } catch (error) {
     console.error("GPTZero detection error:", error);
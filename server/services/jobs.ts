@@ -0,0 +1,92 @@
+import { storage } from '../storage';
+import { processChunksConcurrently, getChunkConcurrency } from '../llm/chunk-pool';
+import { EMPTY_CHUNK_CONTEXT } from '../llm/chunk-context';
+import { processDocumentChunk, advanceChunkContext } from './document-chunks';
+
+// Jobs with a worker in this process and the controllers that cancel them; a
+// job is never run by two workers at once
+const runningJobs = new Map<number, AbortController>();
+
+export function isJobRunning(jobId: number): boolean {
+  return runningJobs.has(jobId);
+}
+
+/**
+ * Stops a job's worker: no further chunks start and the chunks in flight go
+ * back to pending, while finished chunks keep their results so a resume
+ * carries on from them. Returns false when the job has no worker here.
+ */
+export function cancelJob(jobId: number): boolean {
+  const controller = runningJobs.get(jobId);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+}
+
+/**
+ * Processes every chunk of a job that is not done yet. Each chunk's result is
+ * saved as soon as it finishes, so after a restart or a resume only the
+ * unfinished chunks run again. The job ends as failed when any chunk failed.
+ * With a rolling context the chunks run one at a time in document order, and
+ * the context is saved after each one so a resumed job carries on from it.
+ */
+export async function runJob(jobId: number): Promise<void> {
+  if (runningJobs.has(jobId)) return;
+  const controller = new AbortController();
+  const { signal } = controller;
+  runningJobs.set(jobId, controller);
+  try {
+    const job = await storage.getJob(jobId);
+    if (!job) return;
+
+    const chunks = (await storage.getJobChunks(jobId)).filter(chunk => chunk.status !== 'done');
+    await storage.updateJob(jobId, { status: 'running' });
+    let context = job.settings.rollingContext ? job.chunkContext ?? EMPTY_CHUNK_CONTEXT : undefined;
+
+    const outcomes = await processChunksConcurrently(
+      chunks,
+      async (chunk) => {
+        await storage.updateJobChunk(chunk.id, { status: 'processing', error: null });
+        let result: string;
+        try {
+          const outcome = await processDocumentChunk(job.settings, chunk.inputText, chunk.chunkIndex, job.settings.totalChunks, context, signal);
+          result = outcome.result;
+          await storage.updateJobChunk(chunk.id, { status: 'done', result, provider: outcome.provider });
+        } catch (error: any) {
+          if (signal.aborted) {
+            await storage.updateJobChunk(chunk.id, { status: 'pending' });
+          } else {
+            console.error(`Error processing chunk ${chunk.chunkIndex + 1} of job ${jobId}:`, error);
+            await storage.updateJobChunk(chunk.id, { status: 'failed', error: error?.message ?? String(error) });
+          }
+          throw error;
+        }
+        if (context) {
+          context = await advanceChunkContext(job.settings, context, result, signal);
+          await storage.updateJob(jobId, { chunkContext: context });
+        }
+      },
+      { concurrency: context ? 1 : getChunkConcurrency(job.settings.llmProvider), signal }
+    );
+
+    const failed = outcomes.some(outcome => outcome.status !== 'done');
+    await storage.updateJob(jobId, { status: signal.aborted ? 'cancelled' : failed ? 'failed' : 'completed' });
+  } catch (error) {
+    const status = signal.aborted ? 'cancelled' : 'failed';
+    if (!signal.aborted) console.error(`Error running job ${jobId}:`, error);
+    await storage.updateJob(jobId, { status }).catch((updateError) => {
+      console.error(`Failed to mark job ${jobId} as ${status}:`, updateError);
+    });
+  } finally {
+    runningJobs.delete(jobId);
+  }
+}
+
+// Picks up the jobs that were queued or running when the server last stopped
+export async function resumeInterruptedJobs(): Promise<void> {
+  const jobs = await storage.getJobsByStatus(['queued', 'running']);
+  for (const job of jobs) {
+    console.log(`Resuming interrupted job ${job.id}`);
+    runJob(job.id);
+  }
+}
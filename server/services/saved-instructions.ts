@@ -0,0 +1,49 @@
+import { randomBytes } from 'crypto';
+import { storage } from '../storage';
+import type { SavedInstructions } from "@shared/schema";
+
+export interface SavedInstructionsFilter {
+  folder?: string;
+  tag?: string;
+  // Matches the name or the instructions, ignoring case
+  search?: string;
+}
+
+// What a share link shows: the instructions without anything about their owner or usage
+export type SharedInstructions = Pick<SavedInstructions, 'name' | 'instructions' | 'folder' | 'tags'>;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// The user's instructions with this name, ignoring case, other than excludeId
+export async function findByName(userId: number, name: string, excludeId?: number): Promise<SavedInstructions | undefined> {
+  const existing = await storage.getSavedInstructionsByUserId(userId);
+  return existing.find(instruction => instruction.id !== excludeId && sameName(instruction.name, name));
+}
+
+// The name itself when it is free, otherwise the first free "name (2)", "name (3)", ...
+export async function availableName(userId: number, name: string): Promise<string> {
+  const taken = (await storage.getSavedInstructionsByUserId(userId)).map(instruction => instruction.name);
+  let candidate = name.trim();
+  for (let n = 2; taken.some(existing => sameName(existing, candidate)); n++) {
+    candidate = `${name.trim()} (${n})`;
+  }
+  return candidate;
+}
+
+export function filterSavedInstructions(instructions: SavedInstructions[], filter: SavedInstructionsFilter): SavedInstructions[] {
+  const search = filter.search?.toLowerCase();
+  return instructions.filter(instruction =>
+    (filter.folder === undefined || (instruction.folder ?? '') === filter.folder) &&
+    (filter.tag === undefined || instruction.tags.includes(filter.tag)) &&
+    (!search || instruction.name.toLowerCase().includes(search) || instruction.instructions.toLowerCase().includes(search))
+  );
+}
+
+// Long enough that share links cannot be guessed
+export function createShareToken(): string {
+  return randomBytes(18).toString('base64url');
+}
+
+export function toSharedInstructions({ name, instructions, folder, tags }: SavedInstructions): SharedInstructions {
+  return { name, instructions, folder, tags };
+}
@@ -0,0 +1,44 @@
+import { storage } from '../storage';
+import type { ContentSource } from "@shared/schema";
+import { WRITING_SAMPLES } from './writing-samples';
+
+export interface LibraryFilter {
+  tag?: string;
+  // Matches the name or the text, ignoring case
+  search?: string;
+}
+
+// Built-in samples belong to the app; users copy them rather than change them
+export const isBuiltin = (item: ContentSource) => item.builtinKey !== null;
+
+/**
+ * Adds the built-in writing samples to the library as read-only style
+ * samples tagged with their category, and brings entries seeded by an
+ * earlier version up to date with the samples' current text.
+ */
+export async function seedWritingSamples(): Promise<void> {
+  for (const [category, samples] of Object.entries(WRITING_SAMPLES)) {
+    for (const sample of samples) {
+      const existing = await storage.getContentSourceByBuiltinKey(sample.id);
+      if (!existing) {
+        await storage.createContentSource({
+          name: sample.title,
+          kind: 'style',
+          content: sample.content,
+          tags: [category],
+          builtinKey: sample.id
+        });
+      } else if (existing.name !== sample.title || existing.content !== sample.content) {
+        await storage.updateContentSource(existing.id, { name: sample.title, content: sample.content });
+      }
+    }
+  }
+}
+
+export function filterLibraryItems(items: ContentSource[], filter: LibraryFilter): ContentSource[] {
+  const search = filter.search?.toLowerCase();
+  return items.filter(item =>
+    (filter.tag === undefined || item.tags.includes(filter.tag)) &&
+    (!search || item.name.toLowerCase().includes(search) || item.content.toLowerCase().includes(search))
+  );
+}
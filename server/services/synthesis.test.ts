@@ -0,0 +1,60 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { synthesizeSchema } from '@shared/schema';
+import { synthesizeDocument, type SynthesisProgress } from './synthesis';
+import { listProviders } from '../llm';
+
+// npm test answers every provider with the mock, whose abstract is its input
+// uppercased; this document fits in one chunk, which every section shares
+
+const document = [
+  '# Voyage',
+  'Darwin sailed on the Beagle. The voyage took five years.',
+  '## Galapagos',
+  'Finches differed from island to island. Their beaks fit their food.',
+  '# Theory',
+  'Species change over generations. Selection drives the change.'
+].join('\n');
+
+before(() => {
+  for (const provider of listProviders()) {
+    process.env[`${provider.id.toUpperCase()}_REQUESTS_PER_MINUTE`] = '60000';
+  }
+});
+
+describe('synthesizeDocument', () => {
+  it('summarizes every section along the outline', async () => {
+    const map = await synthesizeDocument(synthesizeSchema.parse({ inputText: document, llmProvider: 'openai' }));
+
+    assert.deepEqual(map.sections.map(section => section.title), ['Voyage', 'Theory']);
+    assert.deepEqual(map.sections[0].children.map(section => section.title), ['Galapagos']);
+    assert.equal(map.chunks.length, 1);
+    assert.equal(map.sections[0].children[0].chunkStart, 0);
+    assert.equal(map.sections[1].chunkEnd, 0);
+  });
+
+  it('writes the abstract from the top-level sections', async () => {
+    const map = await synthesizeDocument(synthesizeSchema.parse({ inputText: document, llmProvider: 'openai' }));
+
+    assert.match(map.abstract, /^## VOYAGE\n/);
+    assert.match(map.abstract, /\n## THEORY\n/);
+  });
+
+  it('reports progress through each stage', async () => {
+    const progress: SynthesisProgress[] = [];
+    await synthesizeDocument(synthesizeSchema.parse({ inputText: document, llmProvider: 'openai' }), (update) => progress.push(update));
+
+    assert.deepEqual(progress.filter(update => update.stage === 'sections').map(update => update.completed), [1, 2, 3]);
+    assert.deepEqual(progress[progress.length - 1], { stage: 'abstract', completed: 1, total: 1 });
+  });
+
+  it('stops when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(
+      synthesizeDocument(synthesizeSchema.parse({ inputText: document, llmProvider: 'openai' }), undefined, controller.signal),
+      /Synthesis was cancelled/
+    );
+  });
+});
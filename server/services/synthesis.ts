@@ -0,0 +1,142 @@
+import type { z } from "zod";
+import type { synthesizeSchema, DocumentMap, DocumentMapSection, SectionSummary } from "@shared/schema";
+import { segmentDocument, flattenOutline, getSectionChunks, type OutlineSection } from "@shared/segmenter";
+import { countTokens, planChunkBudget } from "@shared/tokens";
+import { runWithFailover } from '../llm/failover';
+import { pickModelSettings } from '../llm/models';
+import { processChunksConcurrently, getChunkConcurrency } from '../llm/chunk-pool';
+import { renderPrompt } from '../llm/prompts';
+
+export type SynthesisSettings = z.infer<typeof synthesizeSchema>;
+
+export interface SynthesisProgress {
+  stage: 'chunks' | 'sections' | 'abstract';
+  completed: number;
+  total: number;
+}
+
+// Summaries lose detail when a chunk runs past a few thousand tokens, however large the context window
+const MAX_SYNTHESIS_CHUNK_TOKENS = 6000;
+// Summaries are far shorter than what they summarize
+const SUMMARY_OUTPUT_RATIO = 0.1;
+
+function formatSummary(part: SectionSummary & { title?: string }): string {
+  const claims = part.keyClaims.map(claim => `- ${claim}`).join('\n');
+  return `${part.title ? `## ${part.title}\n` : ''}${part.summary}${claims ? `\nKey claims:\n${claims}` : ''}`;
+}
+
+const toSummary = ({ summary, keyClaims }: SectionSummary): SectionSummary => ({ summary, keyClaims });
+
+/**
+ * Builds a map of a whole document map-reduce style: every chunk is
+ * summarized, each section is summarized from its chunks' and subsections'
+ * summaries from the bottom of the outline up, and the abstract is written
+ * from the top-level sections. Summaries that together are too long for one
+ * request are combined in groups first, as many rounds as it takes.
+ */
+export async function synthesizeDocument(data: SynthesisSettings, onProgress?: (progress: SynthesisProgress) => void, signal?: AbortSignal): Promise<DocumentMap> {
+  const ref = { provider: data.llmProvider, model: data.model };
+  const { maxChunkTokens } = planChunkBudget({ ...ref, outputRatio: SUMMARY_OUTPUT_RATIO });
+  const budget = Math.min(MAX_SYNTHESIS_CHUNK_TOKENS, maxChunkTokens);
+  const { chunks, outline, chunkSections } = segmentDocument(data.inputText, budget, ref);
+  const context = {
+    documentId: data.documentId,
+    cache: { enabled: data.useCache, refresh: data.refreshCache },
+    modelSettings: pickModelSettings(data),
+    signal
+  };
+
+  const summarize = async (text: string, title?: string) => {
+    const { result } = await runWithFailover(data.llmProvider, (llm) => llm.summarizeSection(text, title), {
+      context: { ...context, operation: 'synthesis' }
+    });
+    return toSummary(result);
+  };
+
+  // Map: one summary per chunk
+  let summarized = 0;
+  const outcomes = await processChunksConcurrently(chunks, (chunk) => summarize(chunk), {
+    concurrency: getChunkConcurrency(data.llmProvider),
+    signal,
+    onStatus: (_index, status) => {
+      if (status === 'processing') return;
+      onProgress?.({ stage: 'chunks', completed: ++summarized, total: chunks.length });
+    }
+  });
+  const unfinished = outcomes.filter(outcome => outcome.status !== 'done');
+  if (unfinished.length > 0) {
+    throw new Error(signal?.aborted
+      ? 'Synthesis was cancelled'
+      : `${unfinished.length} of ${chunks.length} chunks could not be summarized: ${unfinished[0].error}`);
+  }
+  const chunkSummaries = outcomes.map(outcome => outcome.result!);
+
+  // Reduce: one round of merging summaries, in groups that fit one request. A
+  // group always takes at least two parts so every round shortens the list.
+  const mergeRound = (parts: Array<SectionSummary & { title?: string }>, title?: string): Promise<SectionSummary[]> => {
+    const groups: string[][] = [[]];
+    let groupTokens = 0;
+    for (const text of parts.map(formatSummary)) {
+      const tokens = countTokens(text, ref);
+      if (groups[groups.length - 1].length > 1 && groupTokens + tokens > budget) {
+        groups.push([]);
+        groupTokens = 0;
+      }
+      groups[groups.length - 1].push(text);
+      groupTokens += tokens;
+    }
+    return Promise.all(groups.map(group => summarize(group.join('\n\n'), title)));
+  };
+
+  const combine = async (parts: Array<SectionSummary & { title?: string }>, title?: string): Promise<SectionSummary> => {
+    let merged: SectionSummary[] = parts.length === 1 ? [toSummary(parts[0])] : await mergeRound(parts, title);
+    while (merged.length > 1) {
+      merged = await mergeRound(merged, title);
+    }
+    return merged[0];
+  };
+
+  const totalSections = flattenOutline(outline).length;
+  let sectionsDone = 0;
+  const buildSection = async (section: OutlineSection): Promise<DocumentMapSection> => {
+    const children = await Promise.all(section.children.map(buildSection));
+    const ownChunks = chunkSections
+      .map((ids, index) => ids.includes(section.id) ? chunkSummaries[index] : undefined)
+      .filter((summary): summary is SectionSummary => summary !== undefined);
+    const anchors = getSectionChunks(section, chunkSections);
+
+    const summary = await combine([...ownChunks, ...children], section.title);
+    onProgress?.({ stage: 'sections', completed: ++sectionsDone, total: totalSections });
+    return {
+      id: section.id,
+      title: section.title,
+      level: section.level,
+      chunkStart: anchors[0],
+      chunkEnd: anchors[anchors.length - 1],
+      ...summary,
+      children
+    };
+  };
+  const sections = await Promise.all(outline.map(buildSection));
+
+  // Text before the first heading, then the top-level sections; every chunk when there are no headings
+  const preamble = chunkSummaries.filter((_, index) => chunkSections[index].length === 0 && sections.length > 0);
+  const top = sections.length > 0 ? [...preamble, ...sections] : chunkSummaries;
+  onProgress?.({ stage: 'abstract', completed: 0, total: 1 });
+  // Merged only as far as needed to fit one request, so the abstract keeps as much detail as possible
+  let material: Array<SectionSummary & { title?: string }> = top;
+  while (material.length > 1 && countTokens(material.map(formatSummary).join('\n\n'), ref) > budget) {
+    material = await mergeRound(material);
+  }
+
+  const { result: abstract } = await runWithFailover(data.llmProvider, (llm) => llm.processText({
+    text: material.map(formatSummary).join('\n\n'),
+    instructions: renderPrompt('synthesis-abstract', { words: data.abstractWords, focus: data.instructions }),
+    useContentSource: false
+  }), {
+    context: { ...context, operation: 'synthesis-abstract' }
+  });
+  onProgress?.({ stage: 'abstract', completed: 1, total: 1 });
+
+  return { abstract, sections, chunks: chunkSummaries };
+}
@@ -1,12 +1,17 @@
 import { 
   type User, type InsertUser, 
   type Document, type InsertDocument,
-  type ContentSource, type InsertContentSource,
-  type SavedInstructions, type InsertSavedInstructions
+  type DocumentRevision, type InsertDocumentRevision,
+  type ContentSource, type InsertContentSource, type LibraryItemKind,
+  type SavedInstructions, type InsertSavedInstructions,
+  type UsageRecord, type InsertUsageRecord,
+  type CachedResponse, type InsertCachedResponse,
+  type ProcessingJob, type InsertProcessingJob,
+  type JobChunk, type InsertJobChunk, type JobStatus
 } from "@shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
-import { users, documents, contentSources, savedInstructions } from "@shared/schema";
+import { eq, gte, asc, desc, inArray, or, ilike, sql } from "drizzle-orm";
+import { users, documents, documentRevisions, contentSources, savedInstructions, usageRecords, llmResponseCache, processingJobs, jobChunks } from "@shared/schema";
 
 export interface IStorage {
   // User operations
@@ -17,23 +22,55 @@ export interface IStorage {
   // Document operations
   getDocument(id: number): Promise<Document | undefined>;
   getDocumentsByUserId(userId: number): Promise<Document[]>;
+  // Newest first; search matches the title, input or output, ignoring case
+  getDocuments(search?: string): Promise<Document[]>;
   createDocument(document: InsertDocument): Promise<Document>;
   updateDocument(id: number, document: Partial<InsertDocument>): Promise<Document | undefined>;
   deleteDocument(id: number): Promise<boolean>;
   
+  // Document revision operations, oldest first
+  getDocumentRevisions(documentId: number): Promise<DocumentRevision[]>;
+  getDocumentRevision(id: number): Promise<DocumentRevision | undefined>;
+  createDocumentRevision(revision: InsertDocumentRevision): Promise<DocumentRevision>;
+  
   // Content source operations
   getContentSource(id: number): Promise<ContentSource | undefined>;
   getContentSourcesByDocumentId(documentId: number): Promise<ContentSource[]>;
+  // The source library: the user's items newest first, then the built-in samples in seed order
+  getContentSources(kind?: LibraryItemKind): Promise<ContentSource[]>;
+  getContentSourceByBuiltinKey(builtinKey: string): Promise<ContentSource | undefined>;
   createContentSource(contentSource: InsertContentSource): Promise<ContentSource>;
   updateContentSource(id: number, contentSource: Partial<InsertContentSource>): Promise<ContentSource | undefined>;
   deleteContentSource(id: number): Promise<boolean>;
   
   // Saved instructions operations
   getSavedInstructions(id: number): Promise<SavedInstructions | undefined>;
+  // Most recently used first, then newest first
   getSavedInstructionsByUserId(userId: number): Promise<SavedInstructions[]>;
+  getSavedInstructionsByShareToken(shareToken: string): Promise<SavedInstructions | undefined>;
   createSavedInstructions(savedInstructions: InsertSavedInstructions): Promise<SavedInstructions>;
   updateSavedInstructions(id: number, savedInstructions: Partial<InsertSavedInstructions>): Promise<SavedInstructions | undefined>;
+  // Counts one more use and makes the instructions the most recently used
+  recordSavedInstructionsUse(id: number): Promise<SavedInstructions | undefined>;
   deleteSavedInstructions(id: number): Promise<boolean>;
+  
+  // Usage ledger operations
+  createUsageRecord(record: InsertUsageRecord): Promise<UsageRecord>;
+  getUsageRecordsByDocumentId(documentId: number): Promise<UsageRecord[]>;
+  getUsageRecordsSince(since: Date): Promise<UsageRecord[]>;
+  
+  // LLM response cache operations
+  getCachedResponse(key: string): Promise<CachedResponse | undefined>;
+  setCachedResponse(entry: InsertCachedResponse): Promise<CachedResponse>;
+  
+  // Background job operations
+  createJob(job: InsertProcessingJob, chunks: Omit<InsertJobChunk, 'jobId'>[]): Promise<ProcessingJob>;
+  getJob(id: number): Promise<ProcessingJob | undefined>;
+  getJobs(): Promise<ProcessingJob[]>;
+  getJobsByStatus(statuses: JobStatus[]): Promise<ProcessingJob[]>;
+  updateJob(id: number, job: Partial<InsertProcessingJob>): Promise<ProcessingJob | undefined>;
+  getJobChunks(jobId: number): Promise<JobChunk[]>;
+  updateJobChunk(id: number, chunk: Partial<InsertJobChunk>): Promise<JobChunk | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -63,6 +100,15 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(documents).where(eq(documents.userId, userId));
   }
   
+  async getDocuments(search?: string): Promise<Document[]> {
+    const pattern = search ? `%${search.replace(/[\\%_]/g, '\\$&')}%` : undefined;
+    return await db
+      .select()
+      .from(documents)
+      .where(pattern ? or(ilike(documents.title, pattern), ilike(documents.inputText, pattern), ilike(documents.outputText, pattern)) : undefined)
+      .orderBy(desc(documents.createdAt));
+  }
+  
   async createDocument(document: InsertDocument): Promise<Document> {
     const [newDocument] = await db.insert(documents).values(document).returning();
     return newDocument;
@@ -83,6 +129,23 @@ export class DatabaseStorage implements IStorage {
     return result?.rowCount ? result.rowCount > 0 : false;
   }
   
+  // Document revision operations
+  async getDocumentRevisions(documentId: number): Promise<DocumentRevision[]> {
+    return await db.select().from(documentRevisions)
+      .where(eq(documentRevisions.documentId, documentId))
+      .orderBy(asc(documentRevisions.id));
+  }
+  
+  async getDocumentRevision(id: number): Promise<DocumentRevision | undefined> {
+    const [revision] = await db.select().from(documentRevisions).where(eq(documentRevisions.id, id));
+    return revision;
+  }
+  
+  async createDocumentRevision(revision: InsertDocumentRevision): Promise<DocumentRevision> {
+    const [newRevision] = await db.insert(documentRevisions).values(revision).returning();
+    return newRevision;
+  }
+  
   // Content source operations
   async getContentSource(id: number): Promise<ContentSource | undefined> {
     const [contentSource] = await db.select().from(contentSources).where(eq(contentSources.id, id));
@@ -93,6 +156,20 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(contentSources).where(eq(contentSources.documentId, documentId));
   }
   
+  async getContentSources(kind?: LibraryItemKind): Promise<ContentSource[]> {
+    return await db.select().from(contentSources)
+      .where(kind ? eq(contentSources.kind, kind) : undefined)
+      .orderBy(
+        sql`${contentSources.builtinKey} is not null`,
+        sql`case when ${contentSources.builtinKey} is null then -${contentSources.id} else ${contentSources.id} end`
+      );
+  }
+  
+  async getContentSourceByBuiltinKey(builtinKey: string): Promise<ContentSource | undefined> {
+    const [contentSource] = await db.select().from(contentSources).where(eq(contentSources.builtinKey, builtinKey));
+    return contentSource;
+  }
+  
   async createContentSource(contentSource: InsertContentSource): Promise<ContentSource> {
     const [newContentSource] = await db.insert(contentSources).values(contentSource).returning();
     return newContentSource;
@@ -120,7 +197,14 @@ export class DatabaseStorage implements IStorage {
   }
   
   async getSavedInstructionsByUserId(userId: number): Promise<SavedInstructions[]> {
-    return await db.select().from(savedInstructions).where(eq(savedInstructions.userId, userId));
+    return await db.select().from(savedInstructions)
+      .where(eq(savedInstructions.userId, userId))
+      .orderBy(sql`${savedInstructions.lastUsedAt} desc nulls last`, desc(savedInstructions.createdAt));
+  }
+  
+  async getSavedInstructionsByShareToken(shareToken: string): Promise<SavedInstructions | undefined> {
+    const [savedInstruction] = await db.select().from(savedInstructions).where(eq(savedInstructions.shareToken, shareToken));
+    return savedInstruction;
   }
   
   async createSavedInstructions(instruction: InsertSavedInstructions): Promise<SavedInstructions> {
@@ -137,34 +221,143 @@ export class DatabaseStorage implements IStorage {
     return updatedInstruction;
   }
   
+  async recordSavedInstructionsUse(id: number): Promise<SavedInstructions | undefined> {
+    const [updatedInstruction] = await db
+      .update(savedInstructions)
+      .set({ useCount: sql`${savedInstructions.useCount} + 1`, lastUsedAt: new Date() })
+      .where(eq(savedInstructions.id, id))
+      .returning();
+    return updatedInstruction;
+  }
+  
   async deleteSavedInstructions(id: number): Promise<boolean> {
     const result = await db.delete(savedInstructions).where(eq(savedInstructions.id, id));
     // Use optional chaining to safely access potentially null rowCount
     return result?.rowCount ? result.rowCount > 0 : false;
   }
+  
+  // Usage ledger operations
+  async createUsageRecord(record: InsertUsageRecord): Promise<UsageRecord> {
+    const [newRecord] = await db.insert(usageRecords).values(record).returning();
+    return newRecord;
+  }
+  
+  async getUsageRecordsByDocumentId(documentId: number): Promise<UsageRecord[]> {
+    return await db.select().from(usageRecords)
+      .where(eq(usageRecords.documentId, documentId))
+      .orderBy(asc(usageRecords.createdAt));
+  }
+  
+  async getUsageRecordsSince(since: Date): Promise<UsageRecord[]> {
+    return await db.select().from(usageRecords)
+      .where(gte(usageRecords.createdAt, since))
+      .orderBy(asc(usageRecords.createdAt));
+  }
+  
+  // LLM response cache operations
+  async getCachedResponse(key: string): Promise<CachedResponse | undefined> {
+    const [entry] = await db.select().from(llmResponseCache).where(eq(llmResponseCache.key, key));
+    return entry;
+  }
+  
+  async setCachedResponse(entry: InsertCachedResponse): Promise<CachedResponse> {
+    const [saved] = await db
+      .insert(llmResponseCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: llmResponseCache.key,
+        set: { response: entry.response, createdAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+  
+  // Background job operations
+  async createJob(job: InsertProcessingJob, chunks: Omit<InsertJobChunk, 'jobId'>[]): Promise<ProcessingJob> {
+    return await db.transaction(async (tx) => {
+      const [newJob] = await tx.insert(processingJobs).values(job).returning();
+      await tx.insert(jobChunks).values(chunks.map(chunk => ({ ...chunk, jobId: newJob.id })));
+      return newJob;
+    });
+  }
+  
+  async getJob(id: number): Promise<ProcessingJob | undefined> {
+    const [job] = await db.select().from(processingJobs).where(eq(processingJobs.id, id));
+    return job;
+  }
+  
+  async getJobs(): Promise<ProcessingJob[]> {
+    return await db.select().from(processingJobs).orderBy(desc(processingJobs.createdAt));
+  }
+  
+  async getJobsByStatus(statuses: JobStatus[]): Promise<ProcessingJob[]> {
+    return await db.select().from(processingJobs).where(inArray(processingJobs.status, statuses));
+  }
+  
+  async updateJob(id: number, job: Partial<InsertProcessingJob>): Promise<ProcessingJob | undefined> {
+    const [updatedJob] = await db
+      .update(processingJobs)
+      .set({ ...job, updatedAt: new Date() })
+      .where(eq(processingJobs.id, id))
+      .returning();
+    return updatedJob;
+  }
+  
+  async getJobChunks(jobId: number): Promise<JobChunk[]> {
+    return await db.select().from(jobChunks)
+      .where(eq(jobChunks.jobId, jobId))
+      .orderBy(asc(jobChunks.chunkIndex));
+  }
+  
+  async updateJobChunk(id: number, chunk: Partial<InsertJobChunk>): Promise<JobChunk | undefined> {
+    const [updatedChunk] = await db
+      .update(jobChunks)
+      .set({ ...chunk, updatedAt: new Date() })
+      .where(eq(jobChunks.id, id))
+      .returning();
+    return updatedChunk;
+  }
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private documents: Map<number, Document>;
+  private documentRevisions: Map<number, DocumentRevision>;
   private contentSources: Map<number, ContentSource>;
   private savedInstructions: Map<number, SavedInstructions>;
+  private usageRecords: Map<number, UsageRecord>;
+  private responseCache: Map<string, CachedResponse>;
+  private jobs: Map<number, ProcessingJob>;
+  private jobChunks: Map<number, JobChunk>;
   
   private currentUserId: number;
   private currentDocumentId: number;
+  private currentDocumentRevisionId: number;
   private currentContentSourceId: number;
   private currentSavedInstructionsId: number;
+  private currentUsageRecordId: number;
+  private currentJobId: number;
+  private currentJobChunkId: number;
   
   constructor() {
     this.users = new Map();
     this.documents = new Map();
+    this.documentRevisions = new Map();
     this.contentSources = new Map();
     this.savedInstructions = new Map();
+    this.usageRecords = new Map();
+    this.responseCache = new Map();
+    this.jobs = new Map();
+    this.jobChunks = new Map();
     
     this.currentUserId = 1;
     this.currentDocumentId = 1;
+    this.currentDocumentRevisionId = 1;
     this.currentContentSourceId = 1;
     this.currentSavedInstructionsId = 1;
+    this.currentUsageRecordId = 1;
+    this.currentJobId = 1;
+    this.currentJobChunkId = 1;
   }
   
   // User operations
@@ -192,6 +385,13 @@ export class MemStorage implements IStorage {
     return Array.from(this.documents.values()).filter(doc => doc.userId === userId);
   }
   
+  async getDocuments(search?: string): Promise<Document[]> {
+    const needle = search?.toLowerCase();
+    return Array.from(this.documents.values())
+      .filter(doc => !needle || [doc.title, doc.inputText, doc.outputText ?? ''].some(text => text.toLowerCase().includes(needle)))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
   async createDocument(document: InsertDocument): Promise<Document> {
     const id = this.currentDocumentId++;
     const now = new Date();
@@ -199,9 +399,13 @@ export class MemStorage implements IStorage {
       ...document, 
       id, 
       createdAt: now,
+      kind: document.kind ?? 'process',
       instructions: document.instructions || null,
       userId: document.userId || null,
-      outputText: document.outputText || null
+      outputText: document.outputText || null,
+      contentSource: document.contentSource ?? null,
+      styleSource: document.styleSource ?? null,
+      durationMs: document.durationMs ?? null
     };
     this.documents.set(id, newDocument);
     return newDocument;
@@ -217,9 +421,36 @@ export class MemStorage implements IStorage {
   }
   
   async deleteDocument(id: number): Promise<boolean> {
+    Array.from(this.documentRevisions.values())
+      .filter(revision => revision.documentId === id)
+      .forEach(revision => this.documentRevisions.delete(revision.id));
     return this.documents.delete(id);
   }
   
+  // Document revision operations
+  async getDocumentRevisions(documentId: number): Promise<DocumentRevision[]> {
+    return Array.from(this.documentRevisions.values())
+      .filter(revision => revision.documentId === documentId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getDocumentRevision(id: number): Promise<DocumentRevision | undefined> {
+    return this.documentRevisions.get(id);
+  }
+  
+  async createDocumentRevision(revision: InsertDocumentRevision): Promise<DocumentRevision> {
+    const id = this.currentDocumentRevisionId++;
+    const newRevision: DocumentRevision = {
+      ...revision,
+      id,
+      instructions: revision.instructions ?? null,
+      restoredFrom: revision.restoredFrom ?? null,
+      createdAt: new Date()
+    };
+    this.documentRevisions.set(id, newRevision);
+    return newRevision;
+  }
+  
   // Content source operations
   async getContentSource(id: number): Promise<ContentSource | undefined> {
     return this.contentSources.get(id);
@@ -229,6 +460,17 @@ export class MemStorage implements IStorage {
     return Array.from(this.contentSources.values()).filter(source => source.documentId === documentId);
   }
   
+  async getContentSources(kind?: LibraryItemKind): Promise<ContentSource[]> {
+    const rank = (source: ContentSource) => source.builtinKey === null ? -source.id : source.id;
+    return Array.from(this.contentSources.values())
+      .filter(source => !kind || source.kind === kind)
+      .sort((a, b) => Number(a.builtinKey !== null) - Number(b.builtinKey !== null) || rank(a) - rank(b));
+  }
+  
+  async getContentSourceByBuiltinKey(builtinKey: string): Promise<ContentSource | undefined> {
+    return Array.from(this.contentSources.values()).find(source => source.builtinKey === builtinKey);
+  }
+  
   async createContentSource(contentSource: InsertContentSource): Promise<ContentSource> {
     const id = this.currentContentSourceId++;
     const now = new Date();
@@ -236,7 +478,11 @@ export class MemStorage implements IStorage {
       ...contentSource, 
       id, 
       createdAt: now,
+      name: contentSource.name ?? 'Untitled',
+      kind: contentSource.kind ?? 'content',
       source: contentSource.source || null,
+      tags: contentSource.tags ?? [],
+      builtinKey: contentSource.builtinKey ?? null,
       documentId: contentSource.documentId || null
     };
     this.contentSources.set(id, newContentSource);
@@ -262,7 +508,13 @@ export class MemStorage implements IStorage {
   }
   
   async getSavedInstructionsByUserId(userId: number): Promise<SavedInstructions[]> {
-    return Array.from(this.savedInstructions.values()).filter(instruction => instruction.userId === userId);
+    return Array.from(this.savedInstructions.values())
+      .filter(instruction => instruction.userId === userId)
+      .sort((a, b) => (b.lastUsedAt?.getTime() ?? 0) - (a.lastUsedAt?.getTime() ?? 0) || b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getSavedInstructionsByShareToken(shareToken: string): Promise<SavedInstructions | undefined> {
+    return Array.from(this.savedInstructions.values()).find(instruction => instruction.shareToken === shareToken);
   }
   
   async createSavedInstructions(instruction: InsertSavedInstructions): Promise<SavedInstructions> {
@@ -272,7 +524,12 @@ export class MemStorage implements IStorage {
       ...instruction, 
       id, 
       createdAt: now,
-      userId: instruction.userId || null
+      userId: instruction.userId || null,
+      folder: instruction.folder ?? null,
+      tags: instruction.tags ?? [],
+      useCount: 0,
+      lastUsedAt: null,
+      shareToken: instruction.shareToken ?? null
     };
     this.savedInstructions.set(id, newInstruction);
     return newInstruction;
@@ -287,10 +544,125 @@ export class MemStorage implements IStorage {
     return updatedInstruction;
   }
   
+  async recordSavedInstructionsUse(id: number): Promise<SavedInstructions | undefined> {
+    const existingInstruction = this.savedInstructions.get(id);
+    if (!existingInstruction) return undefined;
+    
+    const updatedInstruction: SavedInstructions = {
+      ...existingInstruction,
+      useCount: existingInstruction.useCount + 1,
+      lastUsedAt: new Date()
+    };
+    this.savedInstructions.set(id, updatedInstruction);
+    return updatedInstruction;
+  }
+  
   async deleteSavedInstructions(id: number): Promise<boolean> {
     return this.savedInstructions.delete(id);
   }
+  
+  // Usage ledger operations
+  async createUsageRecord(record: InsertUsageRecord): Promise<UsageRecord> {
+    const id = this.currentUsageRecordId++;
+    const newRecord: UsageRecord = {
+      ...record,
+      id,
+      createdAt: new Date(),
+      documentId: record.documentId ?? null,
+      operation: record.operation ?? null,
+      tokensEstimated: record.tokensEstimated ?? false,
+      estimatedCost: record.estimatedCost ?? null,
+      promptVersions: record.promptVersions ?? null
+    };
+    this.usageRecords.set(id, newRecord);
+    return newRecord;
+  }
+  
+  async getUsageRecordsByDocumentId(documentId: number): Promise<UsageRecord[]> {
+    return Array.from(this.usageRecords.values()).filter(record => record.documentId === documentId);
+  }
+  
+  async getUsageRecordsSince(since: Date): Promise<UsageRecord[]> {
+    return Array.from(this.usageRecords.values()).filter(record => record.createdAt >= since);
+  }
+  
+  // LLM response cache operations
+  async getCachedResponse(key: string): Promise<CachedResponse | undefined> {
+    return this.responseCache.get(key);
+  }
+  
+  async setCachedResponse(entry: InsertCachedResponse): Promise<CachedResponse> {
+    const saved: CachedResponse = { ...entry, createdAt: new Date() };
+    this.responseCache.set(entry.key, saved);
+    return saved;
+  }
+  
+  // Background job operations
+  async createJob(job: InsertProcessingJob, chunks: Omit<InsertJobChunk, 'jobId'>[]): Promise<ProcessingJob> {
+    const id = this.currentJobId++;
+    const now = new Date();
+    const newJob: ProcessingJob = {
+      ...job,
+      id,
+      createdAt: now,
+      updatedAt: now,
+      documentId: job.documentId ?? null,
+      chunkContext: job.chunkContext ?? null
+    };
+    this.jobs.set(id, newJob);
+    
+    for (const chunk of chunks) {
+      const chunkId = this.currentJobChunkId++;
+      this.jobChunks.set(chunkId, {
+        ...chunk,
+        id: chunkId,
+        jobId: id,
+        updatedAt: now,
+        result: chunk.result ?? null,
+        provider: chunk.provider ?? null,
+        error: chunk.error ?? null
+      });
+    }
+    return newJob;
+  }
+  
+  async getJob(id: number): Promise<ProcessingJob | undefined> {
+    return this.jobs.get(id);
+  }
+  
+  async getJobs(): Promise<ProcessingJob[]> {
+    return Array.from(this.jobs.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getJobsByStatus(statuses: JobStatus[]): Promise<ProcessingJob[]> {
+    return Array.from(this.jobs.values()).filter(job => statuses.includes(job.status));
+  }
+  
+  async updateJob(id: number, job: Partial<InsertProcessingJob>): Promise<ProcessingJob | undefined> {
+    const existingJob = this.jobs.get(id);
+    if (!existingJob) return undefined;
+    
+    const updatedJob: ProcessingJob = { ...existingJob, ...job, updatedAt: new Date() };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+  
+  async getJobChunks(jobId: number): Promise<JobChunk[]> {
+    return Array.from(this.jobChunks.values())
+      .filter(chunk => chunk.jobId === jobId)
+      .sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+  
+  async updateJobChunk(id: number, chunk: Partial<InsertJobChunk>): Promise<JobChunk | undefined> {
+    const existingChunk = this.jobChunks.get(id);
+    if (!existingChunk) return undefined;
+    
+    const updatedChunk: JobChunk = { ...existingChunk, ...chunk, updatedAt: new Date() };
+    this.jobChunks.set(id, updatedChunk);
+    return updatedChunk;
+  }
 }
 
-// Use DatabaseStorage to connect to Neon PostgreSQL database
-export const storage = new DatabaseStorage();
+// Use DatabaseStorage to connect to Neon PostgreSQL database. STORAGE=memory
+// keeps everything in the process instead, as the route tests do.
+export const storage: IStorage = process.env.STORAGE === 'memory' ? new MemStorage() : new DatabaseStorage();
@@ -0,0 +1,37 @@
+import type { Request, Response } from "express";
+
+// Requests that sent an X-Request-Id, so a separate call can cancel them
+const activeRequests = new Map<string, AbortController>();
+
+/**
+ * Signal for an LLM request that aborts when the client disconnects before
+ * the response is complete, or when cancelRequest is called with the
+ * request's X-Request-Id. An explicit cancel keeps the connection open, so
+ * the handler can still send back the part of the work that finished.
+ */
+export function createRequestSignal(req: Request, res: Response): AbortSignal {
+  const controller = new AbortController();
+  const requestId = req.get('X-Request-Id');
+  if (requestId) {
+    activeRequests.set(requestId, controller);
+  }
+
+  res.on('close', () => {
+    if (requestId && activeRequests.get(requestId) === controller) {
+      activeRequests.delete(requestId);
+    }
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  return controller.signal;
+}
+
+// Returns false when no request with this id is running
+export function cancelRequest(requestId: string): boolean {
+  const controller = activeRequests.get(requestId);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+}
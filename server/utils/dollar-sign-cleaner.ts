@@ -1,3 +1,5 @@
+import { renderPrompt } from "../llm/prompts";
+
 /**
  * Critical function to prevent dollar sign formatting catastrophes
  * Replaces all monetary dollar signs with "X dollars" format to prevent
@@ -23,5 +25,5 @@ export function removeDollarSigns(text: string): string {
  * Enhanced system prompt that instructs LLMs to never generate dollar signs
  */
 export function getDollarSignFreePrompt(): string {
-  return `CRITICAL FORMATTING RULE: NEVER use dollar signs ($) in your response. Instead of writing "$15" write "15 dollars". Instead of "$N" write "N dollars". This prevents serious formatting issues. Always convert monetary amounts to the "X dollars" format.`;
+  return renderPrompt('dollar-sign-rules');
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+/**
+ * Incremental post-processing for streamed LLM output
+ */
+
+// Complete math placeholder tokens, e.g. __MATH_BLOCK_001__ or __MATH_INLINE_3__
+const COMPLETE_MATH_TOKEN = /__MATH_[A-Z]+_\d+__/g;
+
+// A suffix that could still grow into a math placeholder token
+const PARTIAL_MATH_TOKEN = /^_(?:_(?:M(?:A(?:T(?:H(?:_(?:[A-Z]+(?:_(?:\d+_?)?)?)?)?)?)?)?)?)?$/;
+
+// A suffix that removeDollarSigns would treat differently once more text arrives
+const PARTIAL_DOLLAR_AMOUNT = /^\$[\w.,]*$/;
+
+/**
+ * Finds how much of the buffered text can be emitted without splitting a
+ * placeholder token or a dollar amount across two deltas
+ */
+function findSafeBoundary(text: string): number {
+  let scanFrom = Math.max(0, text.length - 32);
+
+  // Never look for partial tokens inside a token that is already complete
+  COMPLETE_MATH_TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = COMPLETE_MATH_TOKEN.exec(text)) !== null) {
+    scanFrom = Math.max(scanFrom, match.index + match[0].length);
+  }
+
+  for (let i = scanFrom; i < text.length; i++) {
+    const char = text[i];
+    if (char !== '_' && char !== '$') continue;
+
+    const tail = text.slice(i);
+    if (PARTIAL_MATH_TOKEN.test(tail) || PARTIAL_DOLLAR_AMOUNT.test(tail)) {
+      return i;
+    }
+  }
+
+  return text.length;
+}
+
+export interface StreamRestorer {
+  push(delta: string): void;
+  flush(): void;
+}
+
+/**
+ * Buffers streamed deltas and applies the same transform the non-streaming
+ * path applies to the full response (dollar sign removal, math restoration)
+ *
+ * @param transform Post-processing applied to each safe segment of text
+ * @param emit Receives the transformed text as soon as it is safe to show
+ */
+export function createStreamRestorer(
+  transform: (text: string) => string,
+  emit: (text: string) => void
+): StreamRestorer {
+  let pending = '';
+
+  return {
+    push(delta: string) {
+      pending += delta;
+      const boundary = findSafeBoundary(pending);
+      if (boundary === 0) return;
+
+      const ready = pending.slice(0, boundary);
+      pending = pending.slice(boundary);
+      emit(transform(ready));
+    },
+    flush() {
+      if (!pending) return;
+      emit(transform(pending));
+      pending = '';
+    }
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffWords } from './word-diff';
+
+describe('diffWords', () => {
+  it('reports an unchanged text as one equal part', () => {
+    assert.deepEqual(diffWords('The cat sat.', 'The cat sat.'), [{ type: 'equal', text: 'The cat sat.' }]);
+  });
+
+  it('keeps the whitespace before each changed word', () => {
+    assert.deepEqual(diffWords('The cat sat on the mat.', 'The dog sat on the mat.'), [
+      { type: 'equal', text: 'The' },
+      { type: 'removed', text: ' cat' },
+      { type: 'added', text: ' dog' },
+      { type: 'equal', text: ' sat on the mat.' }
+    ]);
+  });
+
+  it('merges neighbouring changes of the same kind', () => {
+    assert.deepEqual(diffWords('one two', 'one two three four'), [
+      { type: 'equal', text: 'one two' },
+      { type: 'added', text: ' three four' }
+    ]);
+  });
+
+  it('compares a formula as one word', () => {
+    const parts = diffWords('Solve $x + 1 = 2$ now.', 'Solve $x + 2 = 3$ now.');
+
+    assert.deepEqual(parts.filter(part => part.type !== 'equal'), [
+      { type: 'removed', text: ' $x + 1 = 2$' },
+      { type: 'added', text: ' $x + 2 = 3$' }
+    ]);
+  });
+
+  it('reads the added parts back as the new text', () => {
+    const after = 'A quick brown fox\njumps over the lazy dog.';
+    const parts = diffWords('A slow brown fox\nwalks past a dog.', after);
+
+    assert.equal(parts.filter(part => part.type !== 'removed').map(part => part.text).join(''), after);
+  });
+});
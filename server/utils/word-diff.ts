@@ -0,0 +1,93 @@
+import { protectMathFormulas } from './math-formula-protection';
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+interface WordToken {
+  word: string;
+  // Whitespace before the word, kept so the parts read as the original text
+  space: string;
+}
+
+// Past this many table cells the changed middle is reported as one removal and one addition
+const MAX_TABLE_CELLS = 25_000_000;
+
+// Words separated by whitespace, with each formula a single word however many spaces it contains
+function tokenize(text: string): WordToken[] {
+  const { processedText, mathBlocks } = protectMathFormulas(text);
+  const restore = (word: string) => word.replace(/__MATH_BLOCK_\d{3,}__/g, (token) => mathBlocks.get(token) ?? token);
+  return Array.from(processedText.matchAll(/(\s*)(\S+)/g), ([, space, word]) => ({ word: restore(word), space }));
+}
+
+/**
+ * Word-by-word diff of two texts based on their longest common subsequence.
+ * LaTeX formulas are compared whole, so a changed formula shows up as one
+ * replaced formula rather than scattered symbols. The unchanged start and end
+ * are skipped before the quadratic table is built over what lies between.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], token: WordToken) => {
+    const last = parts[parts.length - 1];
+    const text = (parts.length > 0 ? token.space : '') + token.word;
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start].word === b[start].word) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1].word === b[endB - 1].word) {
+    endA--;
+    endB--;
+  }
+
+  for (let k = 0; k < start; k++) push('equal', b[k]);
+
+  const rows = endA - start;
+  const cols = endB - start;
+  if (rows * cols > MAX_TABLE_CELLS) {
+    for (let i = start; i < endA; i++) push('removed', a[i]);
+    for (let j = start; j < endB; j++) push('added', b[j]);
+  } else {
+    // lcs[i * (cols + 1) + j] is the LCS length of the middle of a from i and of b from j;
+    // it never exceeds min(rows, cols), which the cell limit keeps within 16 bits
+    const width = cols + 1;
+    const lcs = new Uint16Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[start + i].word === b[start + j].word
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (a[start + i].word === b[start + j].word) {
+        push('equal', b[start + j]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        push('removed', a[start + i++]);
+      } else {
+        push('added', b[start + j++]);
+      }
+    }
+    while (i < rows) push('removed', a[start + i++]);
+    while (j < cols) push('added', b[start + j++]);
+  }
+
+  for (let k = endB; k < b.length; k++) push('equal', b[k]);
+
+  return parts;
+}
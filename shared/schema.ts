@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,22 +8,56 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// Every process, rewrite and homework run is saved as a document
+export const documentKinds = ["process", "rewrite", "homework"] as const;
+export type DocumentKind = typeof documentKinds[number];
+
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
   title: text("title").notNull(),
+  kind: text("kind").$type<DocumentKind>().notNull().default("process"),
   inputText: text("input_text").notNull(),
   outputText: text("output_text"),
   instructions: text("instructions"),
   llmProvider: text("llm_provider").notNull(),
+  // Only the sources the run actually used
+  contentSource: text("content_source"),
+  styleSource: text("style_source"),
+  // From the request arriving to the result being ready
+  durationMs: integer("duration_ms"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Every output a document has had, oldest first; the document's outputText is
+// the current one. Restoring an old output records it again as the newest.
+export const documentRevisions = pgTable("document_revisions", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").references(() => documents.id, { onDelete: "cascade" }).notNull(),
+  outputText: text("output_text").notNull(),
+  instructions: text("instructions"),
+  llmProvider: text("llm_provider").notNull(),
+  // The revision this one restored, when it was not produced by a run
+  restoredFrom: integer("restored_from"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// The source library: named content sources and style samples that can be
+// attached to any run
+export const libraryItemKinds = ["content", "style"] as const;
+export type LibraryItemKind = typeof libraryItemKinds[number];
+
 export const contentSources = pgTable("content_sources", {
   id: serial("id").primaryKey(),
-  documentId: integer("document_id").references(() => documents.id),
+  documentId: integer("document_id").references(() => documents.id, { onDelete: "set null" }),
+  name: text("name").notNull().default("Untitled"),
+  kind: text("kind").$type<LibraryItemKind>().notNull().default("content"),
   content: text("content").notNull(),
+  // Where the text came from, such as an uploaded file's name
   source: text("source"),
+  tags: text("tags").array().notNull().default([]),
+  // Set on the built-in writing samples, which are seeded at startup and cannot be edited or deleted
+  builtinKey: text("builtin_key").unique(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -32,7 +66,80 @@ export const savedInstructions = pgTable("saved_instructions", {
   userId: integer("user_id").references(() => users.id),
   name: text("name").notNull(),
   instructions: text("instructions").notNull(),
+  folder: text("folder"),
+  tags: text("tags").array().notNull().default([]),
+  // Times the instructions were picked for a run, and the last time; lists put the most recently used first
+  useCount: integer("use_count").notNull().default(0),
+  lastUsedAt: timestamp("last_used_at"),
+  // Set while the instructions are shared: anyone with the link can view and copy them
+  shareToken: text("share_token").unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One row per LLM API call
+export const usageRecords = pgTable("usage_records", {
+  id: serial("id").primaryKey(),
+  // Cleared rather than deleted with the document, so usage totals stay complete
+  documentId: integer("document_id").references(() => documents.id, { onDelete: "set null" }),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  operation: text("operation"),
+  inputTokens: integer("input_tokens").notNull(),
+  outputTokens: integer("output_tokens").notNull(),
+  // True when the provider did not report usage and tokens were estimated from text length
+  tokensEstimated: boolean("tokens_estimated").default(false).notNull(),
+  latencyMs: integer("latency_ms").notNull(),
+  // USD; null when the model has no known pricing
+  estimatedCost: doublePrecision("estimated_cost"),
+  // "name@version" of the prompt templates rendered for the request so far
+  promptVersions: text("prompt_versions").array(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Completions keyed on a hash of provider, model, prompts and temperature
+export const llmResponseCache = pgTable("llm_response_cache", {
+  key: text("key").primaryKey(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  response: text("response").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Chunked documents processed on the server, so a run survives the browser
+// tab closing. Each chunk's result is saved as soon as it finishes.
+export const jobStatuses = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+export const processingJobs = pgTable("processing_jobs", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").references(() => documents.id, { onDelete: "set null" }),
+  title: text("title").notNull(),
+  // failed means at least one chunk failed; resuming reruns just those, and a
+  // cancelled job's unfinished chunks
+  status: text("status").$type<JobStatus>().notNull(),
+  // The process-chunks request the job was created from, without its chunks
+  settings: jsonb("settings").$type<JobSettings>().notNull(),
+  // Rolling context after the chunks finished so far, when settings.rollingContext is on
+  chunkContext: jsonb("chunk_context").$type<ChunkContext>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const jobChunkStatuses = ["pending", "processing", "done", "failed"] as const;
+export type JobChunkStatus = typeof jobChunkStatuses[number];
+
+export const jobChunks = pgTable("job_chunks", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => processingJobs.id, { onDelete: "cascade" }).notNull(),
+  // Position of the chunk in the document
+  chunkIndex: integer("chunk_index").notNull(),
+  inputText: text("input_text").notNull(),
+  status: text("status").$type<JobChunkStatus>().notNull(),
+  result: text("result"),
+  // Provider that produced the result, which differs from the job's after a failover
+  provider: text("provider"),
+  error: text("error"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 // Insert schemas
@@ -41,25 +148,93 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
-export const insertDocumentSchema = createInsertSchema(documents).pick({
+export const insertDocumentSchema = createInsertSchema(documents, {
+  kind: z.enum(documentKinds),
+}).pick({
   userId: true,
   title: true,
+  kind: true,
   inputText: true,
   outputText: true,
   instructions: true,
   llmProvider: true,
+  contentSource: true,
+  styleSource: true,
+  durationMs: true,
+});
+
+export const insertDocumentRevisionSchema = createInsertSchema(documentRevisions).pick({
+  documentId: true,
+  outputText: true,
+  instructions: true,
+  llmProvider: true,
+  restoredFrom: true,
 });
 
-export const insertContentSourceSchema = createInsertSchema(contentSources).pick({
+export const insertContentSourceSchema = createInsertSchema(contentSources, {
+  kind: z.enum(libraryItemKinds),
+}).pick({
   documentId: true,
+  name: true,
+  kind: true,
   content: true,
   source: true,
+  tags: true,
+  builtinKey: true,
 });
 
 export const insertSavedInstructionsSchema = createInsertSchema(savedInstructions).pick({
   userId: true,
   name: true,
   instructions: true,
+  folder: true,
+  tags: true,
+  shareToken: true,
+});
+
+export const insertUsageRecordSchema = createInsertSchema(usageRecords).pick({
+  documentId: true,
+  provider: true,
+  model: true,
+  operation: true,
+  inputTokens: true,
+  outputTokens: true,
+  tokensEstimated: true,
+  latencyMs: true,
+  estimatedCost: true,
+  promptVersions: true,
+});
+
+export const insertCachedResponseSchema = createInsertSchema(llmResponseCache).pick({
+  key: true,
+  provider: true,
+  model: true,
+  response: true,
+});
+
+// Settings were validated as a createJobSchema request before the job was created
+export const insertProcessingJobSchema = createInsertSchema(processingJobs, {
+  status: z.enum(jobStatuses),
+  settings: z.custom<JobSettings>(),
+  chunkContext: z.custom<ChunkContext>().nullable().optional(),
+}).pick({
+  documentId: true,
+  title: true,
+  status: true,
+  settings: true,
+  chunkContext: true,
+});
+
+export const insertJobChunkSchema = createInsertSchema(jobChunks, {
+  status: z.enum(jobChunkStatuses),
+}).pick({
+  jobId: true,
+  chunkIndex: true,
+  inputText: true,
+  status: true,
+  result: true,
+  provider: true,
+  error: true,
 });
 
 // Types
@@ -69,34 +244,197 @@ export type User = typeof users.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
 
+export type InsertDocumentRevision = z.infer<typeof insertDocumentRevisionSchema>;
+export type DocumentRevision = typeof documentRevisions.$inferSelect;
+
 export type InsertContentSource = z.infer<typeof insertContentSourceSchema>;
 export type ContentSource = typeof contentSources.$inferSelect;
 
 export type InsertSavedInstructions = z.infer<typeof insertSavedInstructionsSchema>;
 export type SavedInstructions = typeof savedInstructions.$inferSelect;
 
+export type InsertUsageRecord = z.infer<typeof insertUsageRecordSchema>;
+export type UsageRecord = typeof usageRecords.$inferSelect;
+
+export type InsertCachedResponse = z.infer<typeof insertCachedResponseSchema>;
+export type CachedResponse = typeof llmResponseCache.$inferSelect;
+
+export type InsertProcessingJob = z.infer<typeof insertProcessingJobSchema>;
+export type ProcessingJob = typeof processingJobs.$inferSelect;
+
+export type InsertJobChunk = z.infer<typeof insertJobChunkSchema>;
+export type JobChunk = typeof jobChunks.$inferSelect;
+
+// LLM providers registered in server/llm
+export const llmProviderIds = ["openai", "anthropic", "perplexity", "deepseek", "azure", "local"] as const;
+export const llmProviderSchema = z.enum(llmProviderIds);
+export type LLMProviderId = z.infer<typeof llmProviderSchema>;
+
+// Optional per-request overrides of the provider's default model and sampling
+// parameters. The model is checked against the provider's catalog on the server.
+export const modelSettingsSchema = z.object({
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  topP: z.number().gt(0).max(1).optional(),
+  maxTokens: z.number().int().positive().optional(),
+});
+export type ModelSettings = z.infer<typeof modelSettingsSchema>;
+
 // API schemas
 export const processTextSchema = z.object({
   inputText: z.string().min(1, "Input text is required"),
   contentSource: z.string().optional().default(""),
   styleSource: z.string().optional().default(""),
   instructions: z.string().optional().default(""),
-  llmProvider: z.enum(["openai", "anthropic", "perplexity", "deepseek", "azure"]),
+  llmProvider: llmProviderSchema,
   useContentSource: z.boolean().default(false),
   useStyleSource: z.boolean().default(false),
   reprocessOutput: z.boolean().default(false),
   examMode: z.boolean().optional().default(false),
+  // Attributes token usage to a saved document; process-text saves the output as its next revision
+  documentId: z.number().int().optional(),
+  // Opt in to the response cache; refreshCache forces a fresh generation and replaces the cached one
+  useCache: z.boolean().optional().default(false),
+  refreshCache: z.boolean().optional().default(false),
+  ...modelSettingsSchema.shape,
+});
+
+export const solveHomeworkSchema = z.object({
+  assignment: z.string().min(1, "Assignment is required"),
+  llmProvider: llmProviderSchema.optional().default("anthropic"),
+  contentSource: z.string().optional(),
+  styleSource: z.string().optional(),
+  useCache: z.boolean().optional().default(false),
+  refreshCache: z.boolean().optional().default(false),
+});
+
+// Running memory of a long rewrite, updated after every chunk and sent with the
+// next one so terminology, voice and numbering stay consistent across chunks
+export const chunkContextSchema = z.object({
+  summary: z.string(),
+  glossary: z.array(z.object({
+    term: z.string(),
+    note: z.string(),
+  })).max(30),
+});
+export type ChunkContext = z.infer<typeof chunkContextSchema>;
+
+// Chunks of one document to process concurrently; index is the chunk's position in the document
+export const processChunksSchema = processTextSchema.omit({ inputText: true }).extend({
+  chunks: z.array(z.object({
+    index: z.number().int().min(0),
+    text: z.string().min(1, "Chunk text is required"),
+  })).min(1, "At least one chunk is required"),
+  totalChunks: z.number().int().min(1),
+  // Carries a rolling context from chunk to chunk, which processes the chunks in
+  // document order one at a time. chunkContext is where to start, e.g. on a retry.
+  rollingContext: z.boolean().optional().default(false),
+  chunkContext: chunkContextSchema.optional(),
+  // Abstract and outline of the whole document from a synthesis run, so a
+  // chapter can be processed with awareness of the rest of the book
+  documentOverview: z.string().optional(),
+});
+
+// A chunk run handed to a background job instead of a streaming request
+export const createJobSchema = processChunksSchema.extend({
+  title: z.string().min(1).optional(),
+});
+export type JobSettings = Omit<z.infer<typeof processChunksSchema>, "chunks">;
+
+// What a chunk, or a section built from its chunks' summaries, says
+export const sectionSummarySchema = z.object({
+  summary: z.string(),
+  keyClaims: z.array(z.string()).max(8),
+});
+export type SectionSummary = z.infer<typeof sectionSummarySchema>;
+
+// Whole-document synthesis: every chunk is summarized, the summaries are
+// combined section by section up the outline, and an abstract of about
+// abstractWords words is written from the top-level sections. instructions
+// steers the abstract, e.g. towards what a reader needs from the book.
+export const synthesizeSchema = processTextSchema.omit({
+  contentSource: true,
+  styleSource: true,
+  useContentSource: true,
+  useStyleSource: true,
+  reprocessOutput: true,
+  examMode: true,
+}).extend({
+  abstractWords: z.number().int().min(100).max(5000).optional().default(1000),
+});
+
+// A section of the document map; chunkStart and chunkEnd are the first and
+// last chunks holding its text, its subsections included
+export interface DocumentMapSection extends SectionSummary {
+  id: number;
+  title: string;
+  level: number;
+  chunkStart: number;
+  chunkEnd: number;
+  children: DocumentMapSection[];
+}
+
+export interface DocumentMap {
+  abstract: string;
+  sections: DocumentMapSection[];
+  // One summary per chunk, in document order
+  chunks: SectionSummary[];
+}
+
+// One process-text request fanned out to several providers for side-by-side
+// comparison. A model name only means something to one provider, so none is accepted.
+export const compareSchema = processTextSchema.omit({ llmProvider: true, model: true }).extend({
+  providers: z.array(llmProviderSchema).min(2, "Pick at least two providers to compare").max(llmProviderIds.length),
 });
 
 export const detectAiSchema = z.object({
   text: z.string().min(1, "Text is required"),
-  llmProvider: z.enum(["openai", "anthropic", "perplexity", "deepseek", "azure"]).optional(),
+  llmProvider: llmProviderSchema.optional(),
+});
+
+// Verdict for one paragraph of a detection request; index is the paragraph's position in the text
+export const paragraphDetectionSchema = z.object({
+  index: z.number().int().min(0),
+  isAI: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  reason: z.string(),
+});
+export type ParagraphDetection = z.infer<typeof paragraphDetectionSchema>;
+
+// What every AI detector returns, whether GPTZero or a model asked for structured output
+export const aiDetectionResultSchema = z.object({
+  isAI: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  summary: z.string(),
+  paragraphs: z.array(paragraphDetectionSchema),
 });
+export type AIDetectionResult = z.infer<typeof aiDetectionResultSchema>;
 
 export const searchOnlineSchema = z.object({
   query: z.string().min(1, "Search query is required"),
 });
 
+export const savedInstructionsSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  instructions: z.string().min(1, "Instructions are required"),
+  folder: z.string().trim().max(100).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(40)).max(20).optional(),
+  // When the name is taken: fail, save under a numbered name, or overwrite the existing instructions
+  onDuplicate: z.enum(["error", "rename", "replace"]).default("error"),
+});
+
+export const updateSavedInstructionsSchema = savedInstructionsSchema.omit({ onDuplicate: true }).partial();
+
+export const libraryItemSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  kind: z.enum(libraryItemKinds),
+  content: z.string().min(1, "Content is required"),
+  source: z.string().max(500).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(40)).max(20).optional(),
+});
+
+export const updateLibraryItemSchema = libraryItemSchema.partial();
+
 export const sendEmailSchema = z.object({
   to: z.string().email("Invalid email address"),
   subject: z.string().min(1, "Subject is required"),
@@ -111,8 +449,10 @@ export const chatMessageSchema = z.object({
 export const chatRequestSchema = z.object({
   message: z.string().min(1, "Message is required"),
   conversationHistory: z.array(chatMessageSchema).default([]),
-  llmProvider: z.enum(["openai", "anthropic", "perplexity", "deepseek", "azure"]),
+  llmProvider: llmProviderSchema,
   contextDocument: z.string().optional(),
+  documentId: z.number().int().optional(),
+  ...modelSettingsSchema.shape,
 });
 
 // New rewrite schema for the style-matching humanizer
@@ -122,7 +462,27 @@ export const rewriteSchema = z.object({
   contentMixText: z.string().optional(),
   customInstructions: z.string().optional(),
   selectedPresets: z.array(z.string()).optional(),
-  provider: z.enum(["openai", "anthropic", "perplexity", "deepseek"]),
+  provider: llmProviderSchema,
   selectedChunkIds: z.array(z.string()).optional(),
   mixingMode: z.enum(["style", "content", "both"]).optional(),
+  useCache: z.boolean().optional().default(false),
+  refreshCache: z.boolean().optional().default(false),
+  ...modelSettingsSchema.shape,
+});
+
+// Style-matching rewrite of the humanizer page, which sends no content reference
+export const humanizeTextSchema = z.object({
+  text: z.string().trim().min(1, "Text to rewrite is required"),
+  styleSource: z.string().optional(),
+  customInstructions: z.string().optional().default(""),
+  selectedPresets: z.array(z.string()).optional().default([]),
+  llmProvider: llmProviderSchema.optional().default("anthropic"),
+  ...modelSettingsSchema.shape,
+});
+
+export const queryContentSourceSchema = z.object({
+  question: z.string().min(1, "Question is required"),
+  contentSource: z.string().min(1, "Content source is required"),
+  llmProvider: llmProviderSchema.optional().default("deepseek"),
+  ...modelSettingsSchema.shape,
 });
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectHeading, segmentDocument, getSectionChunks } from './segmenter';
+import { countTokens, type ModelRef } from './tokens';
+
+const ref: ModelRef = { provider: 'openai', model: 'gpt-4o' };
+
+describe('detectHeading', () => {
+  it('reads markdown and chapter headings anywhere', () => {
+    assert.deepEqual(detectHeading('## Methods', false), { title: 'Methods', level: 2 });
+    assert.deepEqual(detectHeading('Chapter IV: The Storm', false), { title: 'Chapter IV: The Storm', level: 1 });
+  });
+
+  it('reads numbered and ALL-CAPS headings only between blank lines', () => {
+    assert.deepEqual(detectHeading('2.1 Results', true), { title: '2.1 Results', level: 2 });
+    assert.deepEqual(detectHeading('INTRODUCTION', true), { title: 'INTRODUCTION', level: 1 });
+    assert.equal(detectHeading('2.1 Results', false), null);
+    assert.equal(detectHeading('INTRODUCTION', false), null);
+  });
+
+  it('ignores lines ending in punctuation', () => {
+    assert.equal(detectHeading('STOP THAT NOW!', true), null);
+    assert.equal(detectHeading('1. First we mix the flour.', true), null);
+  });
+});
+
+describe('segmentDocument', () => {
+  const text = [
+    '# Introduction',
+    'Opening words.',
+    '## Background',
+    'Some history.',
+    '# Conclusion',
+    'Closing words.'
+  ].join('\n');
+
+  it('nests subsections under their parents', () => {
+    const { outline } = segmentDocument(text, 1000, ref);
+
+    assert.deepEqual(outline.map(section => section.title), ['Introduction', 'Conclusion']);
+    assert.deepEqual(outline[0].children.map(section => section.title), ['Background']);
+  });
+
+  it('packs whole sections into one chunk while they fit', () => {
+    const { chunks, chunkSections } = segmentDocument(text, 1000, ref);
+
+    assert.equal(chunks.length, 1);
+    assert.deepEqual(chunkSections, [[0, 1, 2]]);
+  });
+
+  it('starts a new chunk at a section boundary rather than inside a section', () => {
+    const maxTokens = countTokens('# Introduction\nOpening words.\n\n## Background\nSome history.', ref);
+    const { chunks, outline, chunkSections } = segmentDocument(text, maxTokens, ref);
+
+    assert.deepEqual(chunks, ['# Introduction\nOpening words.\n\n## Background\nSome history.', '# Conclusion\nClosing words.']);
+    assert.deepEqual(getSectionChunks(outline[0], chunkSections), [0]);
+    assert.deepEqual(getSectionChunks(outline[1], chunkSections), [1]);
+  });
+
+  it('splits a section too long for one chunk', () => {
+    const long = '# Long\n' + Array.from({ length: 40 }, (_, i) => `Sentence number ${i} about the topic.`).join(' ');
+    const { chunks, outline, chunkSections } = segmentDocument(long, 50, ref);
+
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every(chunk => countTokens(chunk, ref) <= 50));
+    assert.equal(getSectionChunks(outline[0], chunkSections).length, chunks.length);
+  });
+});
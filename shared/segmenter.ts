@@ -0,0 +1,152 @@
+import { countTokens, splitIntoTokenChunks, type ModelRef } from "./tokens";
+
+// Structure-aware segmentation shared by every chunker. Headings are detected
+// line by line and build an outline; chunks are then packed from whole
+// sections so they only cut through a section that does not fit in one chunk.
+
+export interface Heading {
+  title: string;
+  // 1 for top-level headings, deeper levels for subsections
+  level: number;
+}
+
+export interface OutlineSection extends Heading {
+  // Position in document order, used to link chunks back to their sections
+  id: number;
+  children: OutlineSection[];
+}
+
+export interface DocumentSegmentation {
+  chunks: string[];
+  // Top-level sections with their subsections nested
+  outline: OutlineSection[];
+  // For each chunk, the ids of the sections whose text it holds
+  chunkSections: number[][];
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+const CHAPTER_HEADING = /^(chapter|part|book)\s+([0-9]+|[ivxlcdm]+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\b[.:]?(\s.*)?$/i;
+const NUMBERED_HEADING = /^(\d+(?:\.\d+)*)\.?\s+([A-Z].*)$/;
+const MAX_HEADING_LENGTH = 100;
+
+/**
+ * The heading a line introduces, if any. Numbered and ALL-CAPS headings must
+ * stand alone between blank lines, since numbered lists and shouted sentences
+ * look the same inside a paragraph.
+ */
+export function detectHeading(line: string, standalone: boolean): Heading | null {
+  const text = line.trim();
+  if (!text || text.length > MAX_HEADING_LENGTH) return null;
+
+  const markdown = text.match(MARKDOWN_HEADING);
+  if (markdown) return { title: markdown[2], level: markdown[1].length };
+
+  if (CHAPTER_HEADING.test(text)) return { title: text, level: 1 };
+  if (!standalone || /[.,;!?]$/.test(text)) return null;
+
+  const numbered = text.match(NUMBERED_HEADING);
+  if (numbered) return { title: text, level: numbered[1].split('.').length };
+
+  const letters = text.replace(/[^a-zA-Z]/g, '');
+  if (letters.length >= 3 && letters === letters.toUpperCase()) return { title: text, level: 1 };
+
+  return null;
+}
+
+// Text of the document up to the first heading, then each section's heading and body
+interface Block {
+  text: string;
+  sectionId?: number;
+}
+
+function splitIntoBlocks(text: string): { blocks: Block[]; outline: OutlineSection[] } {
+  const lines = text.split('\n');
+  const blocks: Block[] = [];
+  const outline: OutlineSection[] = [];
+  // Open sections from the top level down to the current one
+  const stack: OutlineSection[] = [];
+  let current: Block = { text: '' };
+  let nextId = 0;
+
+  lines.forEach((line, i) => {
+    const standalone = !lines[i - 1]?.trim() && !lines[i + 1]?.trim();
+    const heading = detectHeading(line, standalone);
+    if (!heading) {
+      current.text += line + '\n';
+      return;
+    }
+
+    blocks.push(current);
+    const section: OutlineSection = { ...heading, id: nextId++, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) {
+      stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].children : outline).push(section);
+    stack.push(section);
+    current = { text: line + '\n', sectionId: section.id };
+  });
+  blocks.push(current);
+
+  return {
+    blocks: blocks.map(block => ({ ...block, text: block.text.trim() })).filter(block => block.text),
+    outline
+  };
+}
+
+/**
+ * Splits text into chunks of at most maxChunkTokens along its outline. Whole
+ * sections are packed together while they fit; a section too long for one
+ * chunk gets chunks of its own, split by paragraph and then by sentence.
+ */
+export function segmentDocument(text: string, maxChunkTokens: number, ref: ModelRef): DocumentSegmentation {
+  const { blocks, outline } = splitIntoBlocks(text);
+  const chunks: string[] = [];
+  const chunkSections: number[][] = [];
+  let current = '';
+  let currentTokens = 0;
+  let currentSections: number[] = [];
+
+  const flush = () => {
+    if (!current) return;
+    chunks.push(current);
+    chunkSections.push(currentSections);
+    current = '';
+    currentTokens = 0;
+    currentSections = [];
+  };
+
+  for (const block of blocks) {
+    const sections = block.sectionId === undefined ? [] : [block.sectionId];
+    const blockTokens = countTokens(block.text, ref);
+
+    if (blockTokens > maxChunkTokens) {
+      flush();
+      for (const piece of splitIntoTokenChunks(block.text, maxChunkTokens, ref)) {
+        chunks.push(piece);
+        chunkSections.push(sections);
+      }
+      continue;
+    }
+
+    if (current && currentTokens + blockTokens > maxChunkTokens) flush();
+    current += (current ? '\n\n' : '') + block.text;
+    currentTokens += blockTokens;
+    currentSections.push(...sections);
+  }
+  flush();
+
+  return { chunks, outline, chunkSections };
+}
+
+// Sections in document order with their depth in the outline
+export function flattenOutline(outline: OutlineSection[], depth = 0): Array<{ section: OutlineSection; depth: number }> {
+  return outline.flatMap(section => [{ section, depth }, ...flattenOutline(section.children, depth + 1)]);
+}
+
+// Indices of the chunks holding any part of a section or its subsections
+export function getSectionChunks(section: OutlineSection, chunkSections: number[][]): number[] {
+  const ids = new Set(flattenOutline([section]).map(entry => entry.section.id));
+  return chunkSections
+    .map((sections, index) => sections.some(id => ids.has(id)) ? index : -1)
+    .filter(index => index >= 0);
+}
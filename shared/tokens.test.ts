@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { countTokens, planChunkBudget, truncateToTokens, splitIntoTokenChunks, type ModelRef } from './tokens';
+
+const ref: ModelRef = { provider: 'openai', model: 'gpt-4o' };
+
+describe('planChunkBudget', () => {
+  const base = { ...ref, promptOverheadTokens: 0, outputRatio: 1 };
+
+  it('leaves room in the context window for the expected output', () => {
+    assert.deepEqual(
+      planChunkBudget({ ...base, limits: { contextTokens: 10000, maxOutputTokens: 100000 } }),
+      { maxChunkTokens: 4000, maxOutputTokens: 5000 }
+    );
+  });
+
+  it('keeps the expected output within what the model can return', () => {
+    assert.deepEqual(
+      planChunkBudget({ ...base, limits: { contextTokens: 100000, maxOutputTokens: 1000 } }),
+      { maxChunkTokens: 800, maxOutputTokens: 1000 }
+    );
+  });
+
+  it('takes the text sent with every chunk out of the budget', () => {
+    const limits = { contextTokens: 10000, maxOutputTokens: 100000 };
+    const contentSource = 'Reference material. '.repeat(500);
+
+    const withSource = planChunkBudget({ ...base, limits, contentSource });
+    assert.equal(withSource.maxChunkTokens, Math.floor((9000 - countTokens(contentSource, ref)) / 2.25));
+  });
+
+  it('never plans chunks below the minimum size', () => {
+    assert.equal(planChunkBudget({ ...base, limits: { contextTokens: 100, maxOutputTokens: 100 } }).maxChunkTokens, 256);
+  });
+});
+
+describe('truncateToTokens', () => {
+  const text = 'The quick brown fox jumps over the lazy dog. '.repeat(20);
+
+  it('returns the longest start that fits', () => {
+    const truncated = truncateToTokens(text, 30, ref);
+
+    assert.ok(text.startsWith(truncated));
+    assert.ok(countTokens(truncated, ref) <= 30);
+    assert.ok(countTokens(text.slice(0, truncated.length + 1), ref) > 30);
+  });
+
+  it('leaves text that already fits alone', () => {
+    assert.equal(truncateToTokens('Short.', 30, ref), 'Short.');
+  });
+});
+
+describe('splitIntoTokenChunks', () => {
+  it('packs whole paragraphs while they fit', () => {
+    const paragraphs = ['First paragraph here.', 'Second paragraph here.', 'Third paragraph here.'];
+    const maxTokens = countTokens(`${paragraphs[0]}\n\n${paragraphs[1]}`, ref);
+
+    assert.deepEqual(splitIntoTokenChunks(paragraphs.join('\n\n'), maxTokens, ref), [
+      `${paragraphs[0]}\n\n${paragraphs[1]}`,
+      paragraphs[2]
+    ]);
+  });
+
+  it('splits a paragraph too long for one chunk by sentence', () => {
+    const paragraph = Array.from({ length: 30 }, (_, i) => `Sentence ${i} says something.`).join(' ');
+    const chunks = splitIntoTokenChunks(paragraph, 40, ref);
+
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every(chunk => countTokens(chunk, ref) <= 40 && /\.$/.test(chunk)));
+  });
+});
@@ -0,0 +1,243 @@
+import type { LLMProviderId } from "./schema";
+
+// Token counting and chunk budgeting shared by the client and server chunkers.
+// The server registers the providers' real tokenizers (registerTokenCounter).
+// Vocabulary files are too large to ship to the browser, so there each
+// tokenizer is modelled by how it splits text: words are cut into pieces of a
+// typical length, digits are grouped, CJK characters are counted per character
+// and punctuation runs are split in pairs. Budgets keep a safety margin below
+// the context window for what the estimates get wrong.
+
+export type TokenizerFamily = "o200k" | "cl100k" | "claude" | "llama" | "deepseek";
+
+interface TokenizerProfile {
+  // Letters of a word that usually fit in one token
+  charsPerWordPiece: number;
+  // Digits merged into one token
+  digitsPerToken: number;
+  cjkTokensPerChar: number;
+}
+
+const TOKENIZERS: Record<TokenizerFamily, TokenizerProfile> = {
+  o200k: { charsPerWordPiece: 6, digitsPerToken: 3, cjkTokensPerChar: 0.8 },
+  cl100k: { charsPerWordPiece: 5.5, digitsPerToken: 3, cjkTokensPerChar: 1.2 },
+  claude: { charsPerWordPiece: 5, digitsPerToken: 1, cjkTokensPerChar: 1.3 },
+  llama: { charsPerWordPiece: 5.5, digitsPerToken: 3, cjkTokensPerChar: 1.1 },
+  deepseek: { charsPerWordPiece: 5.5, digitsPerToken: 1, cjkTokensPerChar: 0.7 },
+};
+
+export interface ModelLimits {
+  contextTokens: number;
+  maxOutputTokens: number;
+}
+
+interface ModelProfile extends ModelLimits {
+  tokenizer: TokenizerFamily;
+}
+
+// Matched against the start of the model id, most specific first
+const MODEL_PROFILES: Array<{ prefix: string } & ModelProfile> = [
+  { prefix: "gpt-4.1", tokenizer: "o200k", contextTokens: 1047576, maxOutputTokens: 32768 },
+  { prefix: "gpt-4o", tokenizer: "o200k", contextTokens: 128000, maxOutputTokens: 16384 },
+  { prefix: "gpt-4-turbo", tokenizer: "cl100k", contextTokens: 128000, maxOutputTokens: 4096 },
+  { prefix: "gpt-4", tokenizer: "cl100k", contextTokens: 8192, maxOutputTokens: 4096 },
+  { prefix: "gpt-3.5", tokenizer: "cl100k", contextTokens: 16385, maxOutputTokens: 4096 },
+  { prefix: "claude-3-5-haiku", tokenizer: "claude", contextTokens: 200000, maxOutputTokens: 8192 },
+  { prefix: "claude", tokenizer: "claude", contextTokens: 200000, maxOutputTokens: 64000 },
+  { prefix: "llama-3.1-sonar", tokenizer: "llama", contextTokens: 127072, maxOutputTokens: 8000 },
+  { prefix: "sonar", tokenizer: "llama", contextTokens: 127072, maxOutputTokens: 8000 },
+  { prefix: "deepseek", tokenizer: "deepseek", contextTokens: 64000, maxOutputTokens: 8192 },
+];
+
+// For model ids the table does not know, such as Azure deployment names and local models
+const PROVIDER_PROFILES: Record<LLMProviderId, ModelProfile> = {
+  openai: { tokenizer: "o200k", contextTokens: 128000, maxOutputTokens: 16384 },
+  azure: { tokenizer: "o200k", contextTokens: 128000, maxOutputTokens: 16384 },
+  anthropic: { tokenizer: "claude", contextTokens: 200000, maxOutputTokens: 8192 },
+  perplexity: { tokenizer: "llama", contextTokens: 127072, maxOutputTokens: 8000 },
+  deepseek: { tokenizer: "deepseek", contextTokens: 64000, maxOutputTokens: 8192 },
+  local: { tokenizer: "llama", contextTokens: 8192, maxOutputTokens: 4096 },
+};
+
+// The provider, plus the model when one is known, that text will be sent to
+export interface ModelRef {
+  provider: LLMProviderId;
+  model?: string;
+}
+
+function getModelProfile({ provider, model }: ModelRef): ModelProfile {
+  const match = model ? MODEL_PROFILES.find(profile => model.startsWith(profile.prefix)) : undefined;
+  return match ?? PROVIDER_PROFILES[provider];
+}
+
+export function getModelLimits(ref: ModelRef): ModelLimits {
+  const { contextTokens, maxOutputTokens } = getModelProfile(ref);
+  return { contextTokens, maxOutputTokens };
+}
+
+// Built with RegExp because the compile target predates regex literals with the u flag
+const CJK = "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}";
+const PIECE_PATTERN = new RegExp(`[${CJK}]+|[^\\P{L}${CJK}]+|\\p{N}+|\\s+|[^\\s\\p{L}\\p{N}]+`, "gu");
+const CJK_PATTERN = new RegExp(`^[${CJK}]`, "u");
+const LETTER_PATTERN = new RegExp("^\\p{L}", "u");
+const DIGIT_PATTERN = new RegExp("^\\p{N}", "u");
+
+export function getTokenizerFamily(ref: ModelRef): TokenizerFamily {
+  return getModelProfile(ref).tokenizer;
+}
+
+export type TokenCounter = (text: string, ref: ModelRef) => number;
+
+const tokenCounters: Partial<Record<TokenizerFamily, TokenCounter>> = {};
+
+// Replaces the estimate for a tokenizer family with a real count
+export function registerTokenCounter(family: TokenizerFamily, counter: TokenCounter): void {
+  tokenCounters[family] = counter;
+}
+
+export function countTokens(text: string, ref: ModelRef): number {
+  if (!text) return 0;
+  const counter = tokenCounters[getTokenizerFamily(ref)];
+  return counter ? counter(text, ref) : estimateTokenCount(text, ref);
+}
+
+// Token count modelled on the tokenizer's splitting rules, for where no real tokenizer is registered
+export function estimateTokenCount(text: string, ref: ModelRef): number {
+  if (!text) return 0;
+  const tokenizer = TOKENIZERS[getTokenizerFamily(ref)];
+  let tokens = 0;
+
+  for (const [piece] of Array.from(text.matchAll(PIECE_PATTERN))) {
+    // Use code points, not UTF-16 units, so astral characters count once
+    const length = Array.from(piece).length;
+    if (CJK_PATTERN.test(piece)) {
+      tokens += Math.ceil(length * tokenizer.cjkTokensPerChar);
+    } else if (LETTER_PATTERN.test(piece)) {
+      tokens += Math.ceil(length / tokenizer.charsPerWordPiece);
+    } else if (DIGIT_PATTERN.test(piece)) {
+      tokens += Math.ceil(length / tokenizer.digitsPerToken);
+    } else if (/^\s/.test(piece)) {
+      // A single space is merged into the word after it; line breaks and indentation are not
+      tokens += piece === " " ? 0 : Math.ceil(length / 4);
+    } else {
+      tokens += Math.ceil(length / 2);
+    }
+  }
+
+  return tokens;
+}
+
+// Share of the context window left unused, to absorb tokenizer estimation error
+const SAFETY_MARGIN = 0.1;
+// Rewrites come back a little longer than their input
+const DEFAULT_OUTPUT_RATIO = 1.2;
+// Room on top of the expected output so a chunk that runs long is not cut off
+const OUTPUT_HEADROOM = 1.25;
+// System prompt and chunk template text around the user's content
+const DEFAULT_PROMPT_OVERHEAD_TOKENS = 500;
+const MIN_CHUNK_TOKENS = 256;
+
+export interface ChunkBudgetRequest extends ModelRef {
+  // Overrides the table, e.g. with a local server's configured context window
+  limits?: ModelLimits;
+  promptOverheadTokens?: number;
+  // Text sent alongside every chunk
+  instructions?: string;
+  contentSource?: string;
+  styleSource?: string;
+  // Expected output tokens per input token
+  outputRatio?: number;
+}
+
+export interface ChunkBudget {
+  // Largest chunk whose prompt and expected output fit the model
+  maxChunkTokens: number;
+  // max_tokens to request for a chunk of that size
+  maxOutputTokens: number;
+}
+
+/**
+ * Sizes chunks so the prompt overhead, the sources sent with every chunk, the
+ * chunk and its expected output all fit the model's context window, and the
+ * expected output fits within what the model can return in one response.
+ */
+export function planChunkBudget(request: ChunkBudgetRequest): ChunkBudget {
+  const limits = request.limits ?? getModelLimits(request);
+  const outputRatio = request.outputRatio ?? DEFAULT_OUTPUT_RATIO;
+  const fixedTokens = (request.promptOverheadTokens ?? DEFAULT_PROMPT_OVERHEAD_TOKENS) +
+    countTokens(request.instructions ?? "", request) +
+    countTokens(request.contentSource ?? "", request) +
+    countTokens(request.styleSource ?? "", request);
+
+  const available = Math.floor(limits.contextTokens * (1 - SAFETY_MARGIN)) - fixedTokens;
+  const maxChunkTokens = Math.max(MIN_CHUNK_TOKENS, Math.floor(Math.min(
+    available / (1 + outputRatio * OUTPUT_HEADROOM),
+    limits.maxOutputTokens / (outputRatio * OUTPUT_HEADROOM)
+  )));
+
+  return {
+    maxChunkTokens,
+    maxOutputTokens: Math.min(limits.maxOutputTokens, Math.ceil(maxChunkTokens * outputRatio * OUTPUT_HEADROOM)),
+  };
+}
+
+// Longest start of text that fits in maxTokens
+export function truncateToTokens(text: string, maxTokens: number, ref: ModelRef): string {
+  if (countTokens(text, ref) <= maxTokens) return text;
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (countTokens(text.slice(0, mid), ref) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return text.slice(0, low);
+}
+
+/**
+ * Splits text into chunks of at most maxChunkTokens, keeping paragraphs
+ * together and falling back to sentences for paragraphs that are too long alone
+ */
+export function splitIntoTokenChunks(text: string, maxChunkTokens: number, ref: ModelRef): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  let currentTokens = 0;
+
+  const add = (piece: string, separator: string) => {
+    const pieceTokens = countTokens(piece, ref);
+    if (current && currentTokens + pieceTokens > maxChunkTokens) {
+      chunks.push(current);
+      current = "";
+      currentTokens = 0;
+    }
+    current += (current ? separator : "") + piece;
+    currentTokens += pieceTokens;
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    if (countTokens(paragraph, ref) <= maxChunkTokens) {
+      add(paragraph, "\n\n");
+      continue;
+    }
+    // An oversized paragraph starts its own chunks and is packed sentence by sentence
+    if (current) {
+      chunks.push(current);
+      current = "";
+      currentTokens = 0;
+    }
+    for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+      add(sentence, " ");
+    }
+    chunks.push(current);
+    current = "";
+    currentTokens = 0;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}